@@ -1,215 +1,1339 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Upload, FileAudio, Play, Loader2, StopCircle, Settings, FileText, Clock, User, FileOutput, FileDown, RefreshCw } from 'lucide-react';
-import { decodeAudio, splitAudioBuffer, audioBufferToWav, formatTime, generateSrtContent, parseTimeStringToSeconds } from './utils/audioUtils';
-import { transcribeChunk, MODEL_NAME } from './services/geminiService';
-import { AppStatus, TranscriptSegment, ProcessingStats } from './types';
+import React, { useState, useRef, useEffect, useCallback, useMemo, useSyncExternalStore } from 'react';
+import { Upload, FileAudio, FileVideo, Play, Loader2, StopCircle, Pause, Settings, FileText, Clock, User, FileOutput, FileDown, RefreshCw, Server, BookOpen, FolderOpen, Search, Mic, Download, Trash2 } from 'lucide-react';
+import { SplitOptions, isVideoFile, isMediaFile, formatTime, generateSrtContent, generateTxtContent, parseTimeStringToSeconds } from './utils/audioUtils';
+import { createTranscriptionProvider, isProviderReady } from './services/providerFactory';
+import { ProviderConfig, RetryStatus, SpeakerLine, TimedLine, TranscribeOptions, TranscriptionProvider } from './services/transcriptionProvider';
+import { AppStatus, TranscriptSegment, ProcessingStats, SpeakerHints, GlossaryTerm, TranscriptionSettings, TranslationLanguage, SubtitleMode, MeetingMinutes, Chapter, TokenUsage, AudioChunk } from './types';
 import ApiKeyModal from './components/ApiKeyModal';
 import QuotaDisplay from './components/QuotaDisplay';
-import { saveProgress, loadProgress, clearProgress } from './utils/progressStorage';
-import { parseGeminiError, parseAudioError } from './utils/errorHandling';
+import PricingModal from './components/PricingModal';
+import ProviderSettingsModal from './components/ProviderSettingsModal';
+import ProcessingOptions from './components/ProcessingOptions';
+import SpeakerPanel from './components/SpeakerPanel';
+import SpeakerHintsForm from './components/SpeakerHintsForm';
+import GlossaryModal from './components/GlossaryModal';
+import TranscriptionSettingsForm from './components/TranscriptionSettingsForm';
+import TranslationBar from './components/TranslationBar';
+import MinutesPanel from './components/MinutesPanel';
+import ChapterToc from './components/ChapterToc';
+import RetranscribePanel, { RetranscribeTarget, RetranscribeOverrides } from './components/RetranscribePanel';
+import ProjectLibrary from './components/ProjectLibrary';
+import TranscriptSearch from './components/TranscriptSearch';
+import { Project, fingerprintFile, findInProgressProject, createProject, saveProject, updateProject, getProject, deleteProject, toChunkRanges, chunkRangesMatch } from './utils/projectStore';
+import { AppError, parseAudioError, toAppError, ErrorType } from './utils/errorHandling';
+import { isAbortError } from './utils/abort';
+import { AudioPreprocessOptions } from './utils/audioPreprocess';
+import { splitAudio, getAudioRange, encodeChunk } from './utils/audioWorkerClient';
+import { AudioSource, openAudioSource } from './utils/audioSource';
+import { LiveRecording, startLiveRecording } from './utils/liveRecorder';
+import VideoPlayer, { SeekRequest } from './components/VideoPlayer';
+import BatchQueue, { BatchItem } from './components/BatchQueue';
+import { createZip, ZipEntry } from './utils/zip';
+import {
+  ApiKeyEntry, loadApiKeys, saveApiKeys, getActiveKey, hasOtherActiveKey, resetKeyHealth, withKeyRotation,
+  subscribeKeyHealth, getKeyHealthSnapshot
+} from './utils/apiKeyPool';
+import { loadProviderConfig, saveProviderConfig } from './utils/providerSettings';
+import { loadProcessingSettings, saveProcessingSettings, ProcessingSettings } from './utils/processingSettings';
+import { runChunkPool } from './utils/chunkPool';
+import { mergeChunkSegments, replaceSegmentsInRange } from './utils/transcriptMerge';
+import { buildSpeakerContext, buildRangeSpeakerContext, reconcileSpeakers, applySpeakerMappings } from './utils/speakerReconciliation';
+import { renameSpeaker, getSpeakerColor, loadSpeakerColors, saveSpeakerColors } from './utils/speakerUtils';
+import { loadGlossary, saveGlossary, applyGlossary } from './utils/glossary';
+import { loadTranscriptionSettings, saveTranscriptionSettings } from './utils/transcriptionSettings';
+import { applyTranslations, translateTranscript } from './utils/translation';
+import { downloadBlob, downloadTextFile } from './utils/download';
+import { generateMeetingMinutes, minutesToMarkdown } from './utils/minutes';
+import { generateChapters, chaptersToYouTube, chaptersToWebVtt } from './utils/chapters';
+import {
+  PricingSettings, EMPTY_USAGE, addUsage, estimateTranscriptionUsage, getBudgetWarning,
+  getUsageKeyId, getGeminiUsageKeyId, loadPricing, savePricing, loadDailyUsage, recordDailyUsage, getDayUsage,
+  getKeyUsage, getTotalTokens
+} from './utils/usageTracking';
 
 // Chunk duration in seconds. 
 // Gemini 3 Flash has large context, but splitting helps with progress updates and stability.
 // 5 minutes is a safe balance.
 const CHUNK_DURATION = 300; 
+// 即时录音的片段较短，逐字稿才能跟上录音进度
+const LIVE_CHUNK_DURATION = 60;
+
+// 转录结果的去向：主画面的逐字稿，或批次伫列中各档案自己的逐字稿
+interface RunOutput {
+  getTranscripts: () => TranscriptSegment[];
+  updateTranscripts: (update: (prev: TranscriptSegment[]) => TranscriptSegment[]) => TranscriptSegment[];
+  onStatus: (message: string) => void; // 重试、轮替金钥等讯息
+  onError: (message: string) => void; // 无法重试的错误
+}
+
+// 呼叫后端时的选项，未指定时使用目前的设定
+interface ProviderCallOptions {
+  config?: ProviderConfig;
+  keys?: ApiKeyEntry[]; // 转录工作使用开始时的金钥池
+  projectId?: string; // 用量计入的专案
+  onStatus?: (message: string) => void; // 轮替金钥时的讯息
+}
+
+// 一次转录工作的状态；暂停时保留在记忆体中，继续时不必重新解码与分割
+interface TranscriptionRun {
+  projectId: string;
+  source: AudioSource;
+  chunks: AudioChunk[];
+  completed: Set<number>;
+  contextualChunks: Set<number>; // 转录时已带入前一片段说话者上下文的片段
+  hints: SpeakerHints;
+  settings: TranscriptionSettings;
+  glossary: GlossaryTerm[];
+  dedupeOverlap: boolean;
+  keys: ApiKeyEntry[];
+  uploadBytes: number; // 本次已编码上传的音讯大小
+  sourceBytes: number;
+  output: RunOutput;
+}
+
+// 录音中的状态；片段录满时依序转录
+interface LiveSession {
+  run: TranscriptionRun;
+  recording: LiveRecording;
+  queue: Promise<void>;
+}
 
 function App() {
   // State
-  const [apiKey, setApiKey] = useState<string>('');
+  const [apiKeys, setApiKeys] = useState<ApiKeyEntry[]>(loadApiKeys);
   const [isKeyModalOpen, setKeyModalOpen] = useState(false);
+  const [isProviderModalOpen, setProviderModalOpen] = useState(false);
+  const [isGlossaryModalOpen, setGlossaryModalOpen] = useState(false);
+  const [isLibraryOpen, setLibraryOpen] = useState(false);
+  const [isSearchOpen, setSearchOpen] = useState(false);
+  const [pendingJumpIndex, setPendingJumpIndex] = useState<number | null>(null);
+  const [currentProject, setCurrentProject] = useState<{ id: string; name: string } | null>(null);
+  const [glossary, setGlossary] = useState<GlossaryTerm[]>(loadGlossary);
+  const [providerConfig, setProviderConfig] = useState<ProviderConfig>(loadProviderConfig);
+  const [processingSettings, setProcessingSettings] = useState<ProcessingSettings>(loadProcessingSettings);
+  const [transcriptionSettings, setTranscriptionSettings] = useState<TranscriptionSettings>(loadTranscriptionSettings);
   const [file, setFile] = useState<File | null>(null);
   const [status, setStatus] = useState<AppStatus>(AppStatus.IDLE);
   const [stats, setStats] = useState<ProcessingStats>({ totalChunks: 0, processedChunks: 0, currentAction: '' });
-  const [transcripts, setTranscripts] = useState<TranscriptSegment[]>([]);
+  const [transcripts, setTranscriptsState] = useState<TranscriptSegment[]>([]);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
-  const [quota, setQuota] = useState(100);
+  const [pricing, setPricing] = useState<PricingSettings>(loadPricing);
+  const [isPricingModalOpen, setPricingModalOpen] = useState(false);
+  const [usageLog, setUsageLog] = useState(loadDailyUsage);
+  // 记录用量所属的专案，批次或背景工作回报的用量不会算到画面上的专案
+  const [projectUsage, setProjectUsage] = useState<{ projectId: string; usage: TokenUsage } | null>(null);
   const [includeTimestamps, setIncludeTimestamps] = useState(true);
+  const [speakerHints, setSpeakerHints] = useState<SpeakerHints>({ expectedCount: 0, speakers: [] });
+  const [translationLanguage, setTranslationLanguage] = useState<TranslationLanguage>('en');
+  const [subtitleMode, setSubtitleMode] = useState<SubtitleMode>('original');
+  const [isTranslating, setTranslating] = useState(false);
+  const [translationProgress, setTranslationProgress] = useState({ done: 0, total: 0 });
+  const [translationError, setTranslationError] = useState<string | null>(null);
+  const [minutes, setMinutes] = useState<MeetingMinutes | null>(null);
+  const [isGeneratingMinutes, setGeneratingMinutes] = useState(false);
+  const [minutesProgress, setMinutesProgress] = useState('');
+  const [minutesError, setMinutesError] = useState<string | null>(null);
+  const [chapters, setChapters] = useState<Chapter[]>([]);
+  const [isGeneratingChapters, setGeneratingChapters] = useState(false);
+  const [chaptersProgress, setChaptersProgress] = useState('');
+  const [chaptersError, setChaptersError] = useState<string | null>(null);
+  const [isRetranscribing, setRetranscribing] = useState(false);
+  const [retranscribeProgress, setRetranscribeProgress] = useState('');
+  const [retranscribeError, setRetranscribeError] = useState<string | null>(null);
+  const [highlightedIndex, setHighlightedIndex] = useState<number | null>(null);
+  // 影片正在播放的句子；播放时间只留在 VideoPlayer 中，避免每次 timeupdate 重新渲染整个画面
+  const [playingIndex, setPlayingIndex] = useState(-1);
+  const [fileNotice, setFileNotice] = useState<string | null>(null);
+  const [seekRequest, setSeekRequest] = useState<SeekRequest | null>(null);
+  const [recordingMeter, setRecordingMeter] = useState({ seconds: 0, level: 0 });
+  const [recordedFile, setRecordedFile] = useState<File | null>(null);
+  const [batchItems, setBatchItemsState] = useState<BatchItem[]>([]);
+  const [isBatchRunning, setBatchRunning] = useState(false);
+  const [isDragOver, setDragOver] = useState(false);
+  const [speakerColors, setSpeakerColors] = useState<Record<string, string>>(loadSpeakerColors);
+
+  // 金钥开始或结束冷却时重新渲染，更新目前使用的金钥
+  useSyncExternalStore(subscribeKeyHealth, getKeyHealthSnapshot);
+  // 优先使用未在冷却中的金钥；全部冷却时仍显示第一个启用的金钥
+  const activeKeyEntry = getActiveKey(apiKeys) ?? apiKeys.find(entry => !entry.disabled);
+  const apiKey = activeKeyEntry?.key ?? '';
+  const provider = useMemo(() => createTranscriptionProvider(providerConfig, apiKey), [providerConfig, apiKey]);
+  const providerReady = isProviderReady(providerConfig, apiKey);
+  // 后端有请求纪录却没有任何 token 用量时，表示它不回报用量
+  const currentKeyUsage = getKeyUsage(usageLog, getUsageKeyId(providerConfig, activeKeyEntry?.id ?? ''));
+  const isUsageUnavailable = currentKeyUsage.requests > 0 && getTotalTokens(currentKeyUsage) === 0;
+  const isRunning = status === AppStatus.PROCESSING || status === AppStatus.PREPARING;
+  // 暂停中仍保留本次转录，不能修改设定或执行其他工作
+  const isRunActive = isRunning || status === AppStatus.PAUSED || status === AppStatus.RECORDING;
+  // 批次伫列处理中也共用目前的设定，不能修改或开始其他转录
+  const isBusy = isRunActive || isBatchRunning;
+  const videoFile = file && isVideoFile(file) ? file : null;
+  const preprocessOptions: AudioPreprocessOptions = {
+    normalizeLoudness: processingSettings.normalizeLoudness,
+    highPassFilter: processingSettings.highPassFilter,
+    format: processingSettings.uploadFormat
+  };
+  const splitOptions: SplitOptions = {
+    snapToSilence: processingSettings.chunkingMode === 'silence',
+    silenceSearchSeconds: processingSettings.silenceSearchSeconds,
+    overlapSeconds: processingSettings.chunkingMode === 'overlap' ? processingSettings.overlapSeconds : 0
+  };
 
   // Refs
-  const abortControllerRef = useRef<boolean>(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const runRef = useRef<TranscriptionRun | null>(null);
+  const liveRef = useRef<LiveSession | null>(null);
+  const batchControllerRef = useRef<AbortController | null>(null);
+  // 逐字稿的最新值；非同步流程 (转录、翻译等) 从这里读取，不会读到闭包中的旧值
+  const transcriptsRef = useRef<TranscriptSegment[]>([]);
+
+  // 逐字稿一律经由这里修改：先更新 ref 再更新 state，回传新的逐字稿
+  const updateTranscripts = (update: TranscriptSegment[] | ((prev: TranscriptSegment[]) => TranscriptSegment[])) => {
+    const next = typeof update === 'function' ? update(transcriptsRef.current) : update;
+    transcriptsRef.current = next;
+    setTranscriptsState(next);
+    return next;
+  };
+  // 批次伫列的最新值；批次处理依这里的顺序取下一个档案，处理中调整伫列也会生效
+  const batchItemsRef = useRef<BatchItem[]>([]);
+
+  // 批次伫列一律经由这里修改，与逐字稿相同先更新 ref
+  const updateBatchItems = (update: (prev: BatchItem[]) => BatchItem[]) => {
+    batchItemsRef.current = update(batchItemsRef.current);
+    setBatchItemsState(batchItemsRef.current);
+  };
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // 最近一次开启的音讯来源，重新转录时不必再建立索引或解码整个档案
+  const decodedAudioRef = useRef<{ file: File; source: AudioSource } | null>(null);
 
-  // Load API Key from local storage or environment
-  useEffect(() => {
-    const storedKey = localStorage.getItem('gemini_api_key');
-    if (storedKey) {
-      setApiKey(storedKey);
+  // 开启音讯来源；同一个档案只开启一次
+  const prepareAudio = async (sourceFile: File, onProgress?: (progress: number) => void, signal?: AbortSignal) => {
+    if (decodedAudioRef.current?.file === sourceFile) return decodedAudioRef.current.source;
+    const source = await openAudioSource(sourceFile, onProgress, signal);
+    decodedAudioRef.current = { file: sourceFile, source };
+    return source;
+  };
+
+  const handleSaveKeys = (keys: ApiKeyEntry[]) => {
+    // 金钥内容改过才重新给它一次机会，未修改的金钥保留冷却状态
+    keys.forEach(entry => {
+      const previous = apiKeys.find(saved => saved.id === entry.id);
+      if (previous?.key !== entry.key) resetKeyHealth(entry.id);
+    });
+    setApiKeys(keys);
+    saveApiKeys(keys);
+  };
+
+  const handleSavePricing = (settings: PricingSettings) => {
+    setPricing(settings);
+    savePricing(settings);
+  };
+
+  // 记录实际用量：今日各金钥的合计，以及所属专案的累计
+  const trackUsage = (keyId: string, usage: TokenUsage, projectId?: string) => {
+    setUsageLog(recordDailyUsage(keyId, usage));
+    if (!projectId) return;
+    setProjectUsage(prev => prev?.projectId === projectId ? { projectId, usage: addUsage(prev.usage, usage) } : prev);
+    updateProject(projectId, p => ({ usage: addUsage(p.usage ?? EMPTY_USAGE, usage) }))
+      .catch(err => console.error('Failed to save project usage:', err));
+  };
+
+  // 开始转录前的费用检查，所有会送出转录请求的入口都经过这里。每个后端都会回报用量，都计入预算 (价格表以 Gemini 为准)
+  const getDailyBudgetWarning = (estimate: TokenUsage | null) =>
+    getBudgetWarning(estimate, getDayUsage(loadDailyUsage()), pricing);
+
+  // 会超过每日预算时先询问，回传是否继续
+  const confirmDailyBudget = (estimate: TokenUsage | null): boolean => {
+    const warning = getDailyBudgetWarning(estimate);
+    return !warning || window.confirm(warning);
+  };
+
+  const estimateChunksUsage = (chunks: AudioChunk[]) =>
+    estimateTranscriptionUsage(chunks.reduce((sum, chunk) => sum + chunk.durationSeconds, 0), chunks.length);
+
+  // 以指定的后端执行一次请求。Gemini 经由金钥池：配额用尽或金钥无效时轮替到下一个金钥，
+  // 有其他金钥可用时不在原金钥上等待配额恢复；用量记在实际使用的金钥下
+  const callWithProvider = async <T,>(
+    request: (target: TranscriptionProvider, options: TranscribeOptions) => Promise<T>,
+    { config = providerConfig, keys = apiKeys, projectId = currentProject?.id, onStatus }: ProviderCallOptions = {}
+  ): Promise<T> => {
+    if (config.type !== 'gemini') {
+      const keyId = getUsageKeyId(config, activeKeyEntry?.id ?? '');
+      const target = config === providerConfig ? provider : createTranscriptionProvider(config, apiKey);
+      return await request(target, { onUsage: usage => trackUsage(keyId, usage, projectId) });
     }
-  }, []);
+    return await withKeyRotation(
+      keys,
+      entry => request(createTranscriptionProvider(config, entry.key), {
+        shouldRetry: error => error.type !== ErrorType.QUOTA_EXCEEDED || !hasOtherActiveKey(keys, entry),
+        onUsage: usage => trackUsage(getGeminiUsageKeyId(entry.id), usage, projectId)
+      }),
+      (from, to, reason) => {
+        const problem = reason === ErrorType.INVALID_API_KEY ? '無效' : '已達配額限制';
+        onStatus?.(`API Key「${from.label}」${problem}，改用「${to.label}」...`);
+      }
+    );
+  };
+
+  // 转录工作结束时的说话者比对，同样经由金钥池
+  const matchRunSpeakers = (run: TranscriptionRun) => (previous: SpeakerLine[], next: SpeakerLine[], signal?: AbortSignal) =>
+    callWithProvider(
+      (target, options) => target.matchSpeakers!(previous, next, { ...options, signal }),
+      { keys: run.keys, projectId: run.projectId }
+    );
+
+  const handleSaveProviderConfig = (config: ProviderConfig) => {
+    setProviderConfig(config);
+    saveProviderConfig(config);
+  };
+
+  const handleSaveGlossary = (terms: GlossaryTerm[]) => {
+    setGlossary(terms);
+    saveGlossary(terms);
+  };
+
+  const handleApplyGlossary = (terms: GlossaryTerm[]) => {
+    updateTranscripts(prev => applyGlossary(prev, terms));
+  };
+
+  const handleTranscriptionSettingsChange = (settings: TranscriptionSettings) => {
+    setTranscriptionSettings(settings);
+    saveTranscriptionSettings(settings);
+  };
+
+  const handleProcessingSettingsChange = (settings: ProcessingSettings) => {
+    setProcessingSettings(settings);
+    saveProcessingSettings(settings);
+  };
+
+  const selectFile = (selected: File) => {
+    setFile(selected);
+    // 先脱离目前专案，避免清空的逐字稿被自动保存回去
+    setCurrentProject(null);
+    setStatus(AppStatus.IDLE);
+    updateTranscripts([]);
+    setMinutes(null);
+    setChapters([]);
+    setErrorMsg(null);
+  };
 
-  const handleSaveKey = (key: string) => {
-    setApiKey(key);
-    localStorage.setItem('gemini_api_key', key);
-    setQuota(100); // Reset simulation
+  // 单一档案维持原本的流程；一次选择或拖曳多个档案时加入批次伫列
+  const handleIncomingFiles = (files: File[]) => {
+    if (files.length === 1 && isRunActive) {
+      setFileNotice(`辨識進行中，無法改用「${files[0].name}」。請先停止目前的辨識，或一次加入多個檔案到批次佇列`);
+    } else if (files.length === 1) {
+      selectFile(files[0]);
+    } else if (files.length > 1) {
+      addBatchFiles(files);
+    }
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      setFile(e.target.files[0]);
-      setStatus(AppStatus.IDLE);
-      setTranscripts([]);
-      setErrorMsg(null);
+    handleIncomingFiles(e.target.files ? Array.from(e.target.files) : []);
+    e.target.value = '';
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragOver(false);
+    // 拖曳的档案不经过 accept 过滤
+    handleIncomingFiles(Array.from<File>(e.dataTransfer.files).filter(isMediaFile));
+  };
+
+  const openProject = (project: Project) => {
+    setCurrentProject({ id: project.id, name: project.name });
+    setFile(null);
+    setStatus(project.status === 'completed' ? AppStatus.COMPLETED : AppStatus.STOPPED);
+    setStats({
+      totalChunks: project.totalChunks,
+      processedChunks: project.completedChunks.length,
+      currentAction: project.status === 'completed' ? '完成！' : '重新選擇原始檔案即可繼續轉錄'
+    });
+    updateTranscripts(project.transcripts);
+    setMinutes(project.minutes ?? null);
+    setChapters(project.chapters ?? []);
+    setProjectUsage({ projectId: project.id, usage: project.usage ?? EMPTY_USAGE });
+    if (project.speakerHints) setSpeakerHints(project.speakerHints);
+    if (project.transcriptionSettings) setTranscriptionSettings(project.transcriptionSettings);
+    setErrorMsg(null);
+  };
+
+  // 开启搜寻结果所在的专案，待逐字稿载入后再捲动到该句
+  const openSearchResult = async (projectId: string, segmentIndex: number) => {
+    if (currentProject?.id === projectId) {
+      highlightSegment(segmentIndex);
+      return;
+    }
+    const project = await getProject(projectId);
+    if (!project) return;
+    openProject(project);
+    setPendingJumpIndex(segmentIndex);
+  };
+
+  useEffect(() => {
+    if (pendingJumpIndex === null || pendingJumpIndex >= transcripts.length) return;
+    highlightSegment(pendingJumpIndex);
+    setPendingJumpIndex(null);
+  }, [pendingJumpIndex, transcripts]);
+
+  const handleProjectRenamed = (id: string, name: string) => {
+    setCurrentProject(prev => prev?.id === id ? { id, name } : prev);
+  };
+
+  const handleProjectDeleted = (id: string) => {
+    setCurrentProject(prev => prev?.id === id ? null : prev);
+  };
+
+  // 提示几秒后自动消失
+  useEffect(() => {
+    if (!fileNotice) return;
+    const timer = window.setTimeout(() => setFileNotice(null), 5000);
+    return () => window.clearTimeout(timer);
+  }, [fileNotice]);
+
+  // 编辑后的逐字稿、会议纪录与章节延迟写回目前专案
+  useEffect(() => {
+    if (!currentProject) return;
+    const timer = window.setTimeout(() => {
+      updateProject(currentProject.id, () => ({ transcripts, minutes, chapters }))
+        .catch(err => console.error('Failed to save project:', err));
+    }, 1000);
+    return () => window.clearTimeout(timer);
+  }, [currentProject, transcripts, minutes, chapters]);
+
+  // 以当下最新的逐字稿与已完成片段保存进度
+  const snapshotProgress = async (run: TranscriptionRun) => {
+    const latest = transcriptsRef.current;
+    updateProject(run.projectId, () => ({ transcripts: latest, completedChunks: [...run.completed] }))
+      .catch(err => console.error('Failed to save project:', err));
+  };
+
+  const pauseProcessing = () => {
+    abortControllerRef.current?.abort();
+    setStatus(AppStatus.PAUSED);
+    setStats(prev => ({ ...prev, currentAction: `已暫停 (${prev.processedChunks} / ${prev.totalChunks} 已完成)` }));
+    if (runRef.current) snapshotProgress(runRef.current);
+  };
+
+  const resumeProcessing = async () => {
+    const run = runRef.current;
+    if (!run) return;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setErrorMsg(null);
+    try {
+      await runTranscription(run, controller.signal);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error("Processing error:", err);
+      const appError = toAppError(err, parseAudioError);
+      setErrorMsg(appError.userMessage);
+      setStatus(AppStatus.ERROR);
     }
   };
 
   const stopProcessing = () => {
-    abortControllerRef.current = true;
+    abortControllerRef.current?.abort();
     setStatus(AppStatus.STOPPED);
+    if (runRef.current) snapshotProgress(runRef.current);
+    runRef.current = null;
   };
 
   const updateTranscriptSegment = (index: number, field: keyof TranscriptSegment, value: string | number) => {
-    setTranscripts(prev => {
+    updateTranscripts(prev => {
       const newTranscripts = [...prev];
       newTranscripts[index] = { ...newTranscripts[index], [field]: value };
       return newTranscripts;
     });
   };
 
+  const updateSpeakerColors = (colors: Record<string, string>) => {
+    setSpeakerColors(colors);
+    saveSpeakerColors(colors);
+  };
+
+  const handleRenameSpeaker = (from: string, to: string) => {
+    updateTranscripts(prev => renameSpeaker(prev, from, to));
+    // 颜色跟着新名称走；合并到既有说话者时沿用对方的颜色
+    if (speakerColors[from] && !speakerColors[to]) {
+      const { [from]: color, ...rest } = speakerColors;
+      updateSpeakerColors({ ...rest, [to]: color });
+    }
+  };
+
+  const handleSpeakerColorChange = (speaker: string, color: string) => {
+    updateSpeakerColors({ ...speakerColors, [speaker]: color });
+  };
+
+  // 主画面的转录结果直接显示在逐字稿与进度卡片
+  const mainOutput: RunOutput = {
+    getTranscripts: () => transcriptsRef.current,
+    updateTranscripts,
+    onStatus: message => setStats(prev => ({ ...prev, currentAction: message })),
+    onError: setErrorMsg
+  };
+
   const processAudio = async () => {
-    if (!file || !apiKey) return;
+    if (!file || !providerReady || isBatchRunning) return;
     
-    abortControllerRef.current = false;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    runRef.current = null;
     setStatus(AppStatus.PREPARING);
     setErrorMsg(null);
+    setCurrentProject(null);
     
-    // 检查是否有保存的进度
-    const savedProgress = loadProgress(file.name, file.size);
-    if (savedProgress && savedProgress.transcripts.length > 0) {
-      const shouldResume = window.confirm(
-        `找到未完成的轉錄進度 (${savedProgress.processedChunks}/${savedProgress.totalChunks} 個片段已完成)。是否要繼續？`
-      );
-      
-      if (shouldResume) {
-        setTranscripts(savedProgress.transcripts);
-        setStats({
-          totalChunks: savedProgress.totalChunks,
-          processedChunks: savedProgress.processedChunks,
-          currentAction: '從上次進度繼續...'
-        });
-      } else {
-        clearProgress();
-        setTranscripts([]);
+    // 以档案指纹在专案库中寻找未完成的进度
+    let project: Project | undefined;
+    let fileHash = '';
+    let resumedChunks: number[] = [];
+    let runHints = speakerHints;
+    let runSettings = transcriptionSettings;
+    const runGlossary = glossary;
+    try {
+      fileHash = await fingerprintFile(file);
+      project = await findInProgressProject(fileHash);
+    } catch (err) {
+      console.error('Failed to look up project library:', err);
+    }
+
+    if (project && window.confirm(
+      `找到未完成的轉錄專案「${project.name}」(${project.completedChunks.length}/${project.totalChunks} 個片段已完成)。是否要繼續？`
+    )) {
+      resumedChunks = project.completedChunks;
+      // 续传时沿用当初的说话者提示
+      if (project.speakerHints) {
+        runHints = project.speakerHints;
+        setSpeakerHints(project.speakerHints);
+      }
+      // 续传时沿用当初的语言与风格设定，避免前后片段不一致
+      if (project.transcriptionSettings) {
+        runSettings = project.transcriptionSettings;
+        setTranscriptionSettings(project.transcriptionSettings);
       }
+      updateTranscripts(project.transcripts);
+      setMinutes(project.minutes ?? null);
+      setChapters(project.chapters ?? []);
+      setProjectUsage({ projectId: project.id, usage: project.usage ?? EMPTY_USAGE });
+      setStats({
+        totalChunks: project.totalChunks,
+        processedChunks: project.completedChunks.length,
+        currentAction: '從上次進度繼續...'
+      });
     } else {
-      setTranscripts([]);
+      project = createProject(file, fileHash, { speakerHints: runHints, transcriptionSettings: runSettings });
+      updateTranscripts([]);
+      setProjectUsage({ projectId: project.id, usage: EMPTY_USAGE });
     }
     
     try {
-      // 1. Decode
-      setStats({ totalChunks: 0, processedChunks: 0, currentAction: '正在解碼音訊檔案 (這可能需要一點時間)...' });
-      const audioBuffer = await decodeAudio(file);
-      
-      if (abortControllerRef.current) return;
+      // 1. Open (WAV/MP3/MP4/WebM 只建立索引，片段需要时才解码；同一个档案已开启过时直接沿用)
+      if (decodedAudioRef.current?.file !== file) {
+        setStats({ totalChunks: 0, processedChunks: 0, currentAction: '正在讀取音訊檔案 (這可能需要一點時間)...' });
+      }
+      const source = await prepareAudio(
+        file,
+        progress => setStats(prev => ({ ...prev, currentAction: `正在建立音訊索引... ${Math.round(progress * 100)}%` })),
+        controller.signal
+      );
 
-      // 2. Split
+      // 2. Split (只读取切点附近的音讯，在 worker 中寻找停顿)
       setStats(prev => ({ ...prev, currentAction: '正在分割音訊...' }));
-      const chunks = splitAudioBuffer(audioBuffer, CHUNK_DURATION);
+      const chunks = await splitAudio(
+        source,
+        CHUNK_DURATION,
+        splitOptions,
+        progress => setStats(prev => ({ ...prev, currentAction: `正在分割音訊... ${Math.round(progress * 100)}%` })),
+        controller.signal
+      );
+      const dedupeOverlap = processingSettings.chunkingMode === 'overlap';
       const totalChunks = chunks.length;
-      
-      // 确定起始位置
-      const startChunk = savedProgress && savedProgress.transcripts.length > 0 
-        ? savedProgress.processedChunks 
-        : 0;
-      
-      setStats({ totalChunks, processedChunks: startChunk, currentAction: '準備開始轉錄...' });
-      setStatus(AppStatus.PROCESSING);
-
-      // 3. Process loop
-      for (let i = startChunk; i < totalChunks; i++) {
-        if (abortControllerRef.current) {
-          setStatus(AppStatus.STOPPED);
-          // 保存当前进度
-          saveProgress(file.name, file.size, transcripts, i, totalChunks);
-          break;
-        }
+      const chunkRanges = toChunkRanges(chunks);
+
+      if (resumedChunks.length > 0 && !chunkRangesMatch(project.chunkRanges, chunkRanges)) {
+        // 切割设定与上次不同，已完成的片段对应到不同的音讯，从头转录
+        resumedChunks = [];
+        project = { ...project, completedChunks: [], chunkResults: {}, transcripts: [] };
+        updateTranscripts([]);
+        setStats(prev => ({ ...prev, currentAction: '切割設定與上次不同，無法沿用先前的進度，將重新轉錄整個檔案...' }));
+      }
+
+      if (!confirmDailyBudget(estimateChunksUsage(chunks.filter((_, i) => !resumedChunks.includes(i))))) {
+        setStatus(AppStatus.IDLE);
+        return;
+      }
+
+      try {
+        await saveProject({ ...project, totalChunks, chunkRanges });
+      } catch (err) {
+        console.error('Failed to save project:', err);
+      }
+      setCurrentProject({ id: project.id, name: project.name });
+
+      const run: TranscriptionRun = {
+        projectId: project.id,
+        source,
+        chunks,
+        completed: new Set<number>(resumedChunks),
+        contextualChunks: new Set<number>(),
+        hints: runHints,
+        settings: runSettings,
+        glossary: runGlossary,
+        dedupeOverlap,
+        keys: apiKeys,
+        uploadBytes: 0,
+        sourceBytes: 0,
+        output: mainOutput
+      };
+      runRef.current = run;
+      await runTranscription(run, controller.signal);
+
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error("Processing error:", err);
+      const appError = toAppError(err, parseAudioError);
+      setErrorMsg(appError.userMessage);
+      setStatus(AppStatus.ERROR);
+    }
+  };
+
+  // 编码并转录 run 中的一个片段 (档案转录与即时录音共用)
+  const transcribeRunChunk = async (run: TranscriptionRun, i: number, signal: AbortSignal, onEncoded?: () => void) => {
+    const { projectId, source, chunks, contextualChunks, hints, settings, glossary, keys } = run;
+    const chunk = chunks[i];
+    const encoded = await encodeChunk(source, chunk, preprocessOptions, undefined, signal);
+    run.uploadBytes += encoded.blob.size;
+    run.sourceBytes += encoded.sourceBytes;
+    onEncoded?.();
+    const continuity = processingSettings.speakerContinuity
+      ? buildSpeakerContext(run.output.getTranscripts(), i)
+      : undefined;
+    if (continuity) {
+      contextualChunks.add(i);
+    }
+    const context = { ...continuity, transcriptionSettings: settings, speakerHints: hints, glossary };
+    const request = { audioBlob: encoded.blob, chunkIndex: i, startTimeOffset: chunk.startTimeSeconds, durationSeconds: chunk.durationSeconds, context };
+    const onRetry = ({ attempt, delayMs }: RetryStatus) => {
+      run.output.onStatus(`片段 ${i + 1}：第 ${attempt} 次重試，等待 ${Math.ceil(delayMs / 1000)} 秒...`);
+    };
+    // 使用带重试的转录函数
+    return await callWithProvider(
+      (target, options) => target.transcribeChunk(request, { ...options, maxRetries: 3, signal, onRetry }),
+      { keys, projectId, onStatus: run.output.onStatus }
+    );
+  };
+
+  // 合并片段的转录结果并保存进度
+  const mergeRunChunkResult = (run: TranscriptionRun, i: number, newSegments: TranscriptSegment[]) => {
+    const normalized = applyGlossary(newSegments, run.glossary);
+    const completedChunks = [...run.completed];
+    const updated = run.output.updateTranscripts(prev => mergeChunkSegments(prev, i, normalized, { dedupeOverlap: run.dedupeOverlap }));
+    // 每处理一个块就保存进度
+    updateProject(run.projectId, p => ({
+      completedChunks,
+      chunkResults: { ...p.chunkResults, [i]: normalized },
+      transcripts: updated
+    })).catch(err => console.error('Failed to save project:', err));
+  };
+
+  const markRunChunkError = (run: TranscriptionRun, i: number, appError: AppError) => {
+    // 如果错误可重试，则记录但继续；否则显示错误消息
+    if (!appError.retryable) {
+      run.output.onError(appError.userMessage);
+    }
+
+    // 添加错误标记到转录结果（不计入已完成，续传时会重新转录）
+    run.output.updateTranscripts(prev => mergeChunkSegments(prev, i, [{
+      speaker: 'System',
+      timestamp: 'Error',
+      startTimeSeconds: run.chunks[i].startTimeSeconds,
+      text: `[轉錄此片段時發生錯誤 (${i + 1}): ${appError.userMessage}]`
+    }]));
+  };
+
+  // 以 worker pool 转录尚未完成的片段；暂停后以同一个 run 继续
+  const runTranscription = async (run: TranscriptionRun, signal: AbortSignal) => {
+    const { projectId, chunks, completed, contextualChunks } = run;
+    const totalChunks = chunks.length;
+    const saveToProject = (update: (project: Project) => Partial<Project>) => {
+      updateProject(projectId, update).catch(err => console.error('Failed to save project:', err));
+    };
+
+    const pendingChunks = chunks.map((_, i) => i).filter(i => !completed.has(i));
+    const activeChunks = new Set<number>();
 
-        setStats({ 
-          totalChunks, 
-          processedChunks: i + 1, 
-          currentAction: `正在轉錄第 ${i + 1} / ${totalChunks} 個片段...` 
-        });
+    const updateProgressStats = () => {
+      const active = [...activeChunks].sort((a, b) => a - b).map(i => i + 1).join(', ');
+      setStats({
+        totalChunks,
+        processedChunks: completed.size,
+        currentAction: active
+          ? `正在轉錄第 ${active} 個片段 (${completed.size} / ${totalChunks} 已完成)...`
+          : `已完成 ${completed.size} / ${totalChunks} 個片段`,
+        uploadBytes: run.uploadBytes,
+        sourceBytes: run.sourceBytes
+      });
+    };
 
-        const chunkBlob = audioBufferToWav(chunks[i]);
-        const startTimeOffset = i * CHUNK_DURATION;
+    setStats({ totalChunks, processedChunks: completed.size, currentAction: '準備開始轉錄...', uploadBytes: run.uploadBytes, sourceBytes: run.sourceBytes });
+    setStatus(AppStatus.PROCESSING);
 
-        // Decrease quota simulation
-        setQuota(prev => Math.max(0, prev - (2 + Math.random() * 2)));
+    // 3. Process with worker pool
+    await runChunkPool({
+      chunkIndices: pendingChunks,
+      concurrency: processingSettings.concurrency,
+      shouldStop: () => signal.aborted,
+      signal,
+      worker: async (i) => {
+        activeChunks.add(i);
+        updateProgressStats();
 
         try {
-          // 使用带重试的转录函数
-          const newSegments = await transcribeChunk(chunkBlob, apiKey, i, startTimeOffset, { maxRetries: 3 });
-          setTranscripts(prev => {
-            const updated = [...prev, ...newSegments];
-            // 每处理一个块就保存进度
-            saveProgress(file.name, file.size, updated, i + 1, totalChunks);
-            return updated;
-          });
-        } catch (err) {
-          console.error(err);
-          const appError = parseGeminiError(err);
-          
-          // 如果错误可重试，则记录但继续；否则显示错误消息
-          if (!appError.retryable) {
-            setErrorMsg(appError.userMessage);
-          }
-          
-          // 添加错误标记到转录结果
-          setTranscripts(prev => [...prev, {
-            speaker: 'System',
-            timestamp: 'Error',
-            startTimeSeconds: startTimeOffset,
-            text: `[轉錄此片段時發生錯誤 (${i + 1}): ${appError.userMessage}]`
-          }]);
+          return await transcribeRunChunk(run, i, signal, updateProgressStats);
+        } finally {
+          activeChunks.delete(i);
         }
+      },
+      onResult: (i, newSegments) => {
+        completed.add(i);
+        updateProgressStats();
+        mergeRunChunkResult(run, i, newSegments);
+      },
+      onError: (i, appError) => {
+        console.error(appError);
+        updateProgressStats();
+        markRunChunkError(run, i, appError);
+      },
+      onConcurrencyChange: (concurrency, reason) => {
+        setStats(prev => ({
+          ...prev,
+          currentAction: reason === 'quota'
+            ? `已達 API 配額限制，並行數降為 ${concurrency}，稍後重試...`
+            : `配額已恢復，並行數回升為 ${concurrency}`
+        }));
+      }
+    });
+
+    // 暂停或停止：进度已在按下时保存
+    if (signal.aborted) return;
+
+    // 4. Reconcile speaker labels across chunks
+    if (processingSettings.speakerContinuity && provider.matchSpeakers) {
+      setStats(prev => ({ ...prev, currentAction: '正在統一各片段的說話者...' }));
+      const mappings = await reconcileSpeakers(transcriptsRef.current, contextualChunks, matchRunSpeakers(run), signal);
+      if (signal.aborted) return;
+      updateTranscripts(prev => applySpeakerMappings(prev, mappings));
+    }
+
+    runRef.current = null;
+    setStatus(AppStatus.COMPLETED);
+    setStats(prev => ({ ...prev, currentAction: '完成！' }));
+    // 完成后保留在专案库中，标记为已完成
+    saveToProject(() => ({ status: 'completed' }));
+  };
+
+
+  // 开始麦克风录音；每录满一个片段就送出转录，逐字稿随录音增长
+  const startRecording = async () => {
+    if (!providerReady || isBusy) return;
+    // 录音长度未知，只在今日已达预算时询问
+    if (!confirmDailyBudget(null)) return;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    runRef.current = null;
+    setErrorMsg(null);
+
+    let recording: LiveRecording;
+    try {
+      recording = await startLiveRecording({
+        chunkDurationSeconds: LIVE_CHUNK_DURATION,
+        split: splitOptions,
+        onChunk: (chunk, i) => {
+          const live = liveRef.current;
+          if (!live) return;
+          live.run.chunks[i] = chunk;
+          updateProject(live.run.projectId, () => ({
+            totalChunks: live.run.chunks.length,
+            chunkRanges: toChunkRanges(live.run.chunks)
+          })).catch(err => console.error('Failed to save project:', err));
+          updateLiveStats(live.run);
+          // 片段依序转录，后面的片段才能带入前一片段的说话者上下文
+          live.queue = live.queue.then(() => transcribeLiveChunk(live.run, i, controller.signal));
+        },
+        onError: err => setErrorMsg(err.userMessage)
+      });
+    } catch (err) {
+      console.error('Recording error:', err);
+      setErrorMsg(err instanceof AppError ? err.userMessage : '無法開始錄音');
+      setStatus(AppStatus.ERROR);
+      return;
+    }
+
+    const project = createProject({ name: recording.fileName, size: 0 }, `recording:${recording.fileName}:${Date.now()}`, {
+      speakerHints,
+      transcriptionSettings
+    });
+    try {
+      await saveProject(project);
+    } catch (err) {
+      console.error('Failed to save project:', err);
+    }
+
+    liveRef.current = {
+      recording,
+      queue: Promise.resolve(),
+      run: {
+        projectId: project.id,
+        source: recording.source,
+        chunks: [],
+        completed: new Set<number>(),
+        contextualChunks: new Set<number>(),
+        hints: speakerHints,
+        settings: transcriptionSettings,
+        glossary,
+        dedupeOverlap: processingSettings.chunkingMode === 'overlap',
+        keys: apiKeys,
+        uploadBytes: 0,
+        sourceBytes: 0,
+        output: mainOutput
       }
+    };
+    setFile(null);
+    setRecordedFile(null);
+    setCurrentProject({ id: project.id, name: project.name });
+    updateTranscripts([]);
+    setMinutes(null);
+    setChapters([]);
+    setProjectUsage({ projectId: project.id, usage: EMPTY_USAGE });
+    setRecordingMeter({ seconds: 0, level: 0 });
+    setStats({ totalChunks: 0, processedChunks: 0, currentAction: `錄音中，每 ${LIVE_CHUNK_DURATION} 秒轉錄一次...` });
+    setStatus(AppStatus.RECORDING);
+  };
+
+  const updateLiveStats = (run: TranscriptionRun) => {
+    setStats({
+      totalChunks: run.chunks.length,
+      processedChunks: run.completed.size,
+      currentAction: `錄音中，已轉錄 ${run.completed.size} / ${run.chunks.length} 個片段`,
+      uploadBytes: run.uploadBytes,
+      sourceBytes: run.sourceBytes
+    });
+  };
+
+  const transcribeLiveChunk = async (run: TranscriptionRun, i: number, signal: AbortSignal) => {
+    if (signal.aborted) return;
+    try {
+      const segments = await transcribeRunChunk(run, i, signal);
+      run.completed.add(i);
+      mergeRunChunkResult(run, i, segments);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      const appError = toAppError(err);
+      console.error(appError);
+      // 失败的片段在结束录音后会再转录一次
+      markRunChunkError(run, i, appError);
+    }
+    if (liveRef.current?.run === run) updateLiveStats(run);
+  };
+
+  // 结束录音：送出最后的片段并保存录音档，再以一般流程补转录失败的片段、统一说话者
+  const stopRecording = async () => {
+    const live = liveRef.current;
+    const controller = abortControllerRef.current;
+    if (!live || !controller) return;
+    const { run, recording } = live;
 
-      if (!abortControllerRef.current) {
-        setStatus(AppStatus.COMPLETED);
-        setStats(prev => ({ ...prev, currentAction: '完成！' }));
-        // 完成后清除保存的进度
-        clearProgress();
+    setStatus(AppStatus.PROCESSING);
+    setStats(prev => ({ ...prev, currentAction: '正在轉錄最後一段錄音...' }));
+    try {
+      const recordingFile = await recording.stop();
+      liveRef.current = null;
+      // 暂停或停止时以同一个 run 继续，录音档可用于重新转录与下载
+      runRef.current = run;
+      decodedAudioRef.current = { file: recordingFile, source: run.source };
+      setFile(recordingFile);
+      setRecordedFile(recordingFile);
+
+      try {
+        const fileHash = await fingerprintFile(recordingFile);
+        await updateProject(run.projectId, () => ({
+          fileSize: recordingFile.size,
+          fileHash,
+          totalChunks: run.chunks.length,
+          chunkRanges: toChunkRanges(run.chunks)
+        }));
+      } catch (err) {
+        console.error('Failed to save project:', err);
       }
 
-    } catch (err: any) {
+      // 等待录音中与结束时送出的片段转录完成
+      await live.queue;
+      if (controller.signal.aborted) return;
+      await runTranscription(run, controller.signal);
+    } catch (err) {
+      if (isAbortError(err)) return;
       console.error("Processing error:", err);
-      const appError = err.name === 'AppError' ? err : parseAudioError(err);
+      const appError = toAppError(err, parseAudioError);
       setErrorMsg(appError.userMessage);
       setStatus(AppStatus.ERROR);
     }
   };
 
+  // 舍弃录音：释放麦克风、中断进行中的转录，并删除这次录音的专案
+  const discardRecording = async () => {
+    const live = liveRef.current;
+    if (!live || !window.confirm('確定要捨棄這段錄音嗎？已轉錄的內容也會一併刪除。')) return;
+    liveRef.current = null;
+    live.recording.cancel();
+    abortControllerRef.current?.abort();
+    runRef.current = null;
+    // 先脱离专案，避免清空的逐字稿被自动保存回去
+    setCurrentProject(null);
+    updateTranscripts([]);
+    setProjectUsage(null);
+    setErrorMsg(null);
+    setStats({ totalChunks: 0, processedChunks: 0, currentAction: '' });
+    setStatus(AppStatus.IDLE);
+    try {
+      await deleteProject(live.run.projectId);
+    } catch (err) {
+      console.error('Failed to delete project:', err);
+    }
+  };
+
+  useEffect(() => {
+    if (status !== AppStatus.RECORDING) return;
+    const timer = window.setInterval(() => {
+      const recording = liveRef.current?.recording;
+      if (recording) setRecordingMeter({ seconds: recording.source.duration, level: recording.getLevel() });
+    }, 200);
+    return () => window.clearInterval(timer);
+  }, [status]);
+
+  // 离开页面时释放麦克风
+  useEffect(() => () => liveRef.current?.recording.cancel(), []);
+
+  const addBatchFiles = (files: File[]) => {
+    const media = files.filter(isMediaFile);
+    if (media.length === 0) return;
+    updateBatchItems(prev => [
+      ...prev,
+      ...media.map((f): BatchItem => ({ id: crypto.randomUUID(), file: f, status: 'queued', processedChunks: 0, totalChunks: 0 }))
+    ]);
+  };
+
+  const patchBatchItem = (id: string, patch: Partial<BatchItem>) => {
+    updateBatchItems(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item));
+  };
+
+  const moveBatchItem = (id: string, offset: number) => {
+    updateBatchItems(prev => {
+      const from = prev.findIndex(item => item.id === id);
+      const to = from + offset;
+      if (from === -1 || to < 0 || to >= prev.length) return prev;
+      const next = [...prev];
+      [next[from], next[to]] = [next[to], next[from]];
+      return next;
+    });
+  };
+
+  // 转录批次伫列中的一个档案；结果只保存到专案库与伫列，不影响主画面
+  const processBatchItem = async (item: BatchItem, signal: AbortSignal, confirmBudget: (estimate: TokenUsage) => boolean) => {
+    const patch = (update: Partial<BatchItem>) => patchBatchItem(item.id, update);
+    patch({ status: 'processing', message: '正在讀取音訊...', error: undefined, processedChunks: 0, totalChunks: 0 });
+
+    try {
+      // 有未完成的进度时直接继续，批次处理不逐一询问
+      let resumed: Project | undefined;
+      let fileHash = '';
+      try {
+        fileHash = await fingerprintFile(item.file);
+        resumed = await findInProgressProject(fileHash);
+      } catch (err) {
+        console.error('Failed to look up project library:', err);
+      }
+      const hints = resumed?.speakerHints ?? speakerHints;
+      const settings = resumed?.transcriptionSettings ?? transcriptionSettings;
+      let project = resumed ?? createProject(item.file, fileHash, { speakerHints: hints, transcriptionSettings: settings });
+
+      const source = await openAudioSource(
+        item.file,
+        progress => patch({ message: `正在建立音訊索引... ${Math.round(progress * 100)}%` }),
+        signal
+      );
+      patch({ message: '正在分割音訊...' });
+      const chunks = await splitAudio(source, CHUNK_DURATION, splitOptions, undefined, signal);
+      const chunkRanges = toChunkRanges(chunks);
+      if (resumed && !chunkRangesMatch(resumed.chunkRanges, chunkRanges)) {
+        // 切割设定改变后不能沿用已完成的片段
+        project = { ...project, completedChunks: [], chunkResults: {}, transcripts: [] };
+      }
+      const completedChunks = project.completedChunks;
+      if (!confirmBudget(estimateChunksUsage(chunks.filter((_, i) => !completedChunks.includes(i))))) {
+        patch({ status: 'stopped', message: '超過每日預算，已停止批次' });
+        return;
+      }
+      try {
+        await saveProject({ ...project, totalChunks: chunks.length, chunkRanges });
+      } catch (err) {
+        console.error('Failed to save project:', err);
+      }
+
+      let segments = project.transcripts;
+      const run: TranscriptionRun = {
+        projectId: project.id,
+        source,
+        chunks,
+        completed: new Set<number>(project.completedChunks),
+        contextualChunks: new Set<number>(),
+        hints,
+        settings,
+        glossary,
+        dedupeOverlap: processingSettings.chunkingMode === 'overlap',
+        keys: apiKeys,
+        uploadBytes: 0,
+        sourceBytes: 0,
+        output: {
+          getTranscripts: () => segments,
+          updateTranscripts: update => {
+            segments = update(segments);
+            return segments;
+          },
+          onStatus: message => patch({ message }),
+          onError: error => patch({ error })
+        }
+      };
+      const updateProgress = () => patch({
+        projectId: project.id,
+        processedChunks: run.completed.size,
+        totalChunks: chunks.length,
+        message: `已完成 ${run.completed.size} / ${chunks.length} 個片段`
+      });
+      updateProgress();
+
+      await runChunkPool({
+        chunkIndices: chunks.map((_, i) => i).filter(i => !run.completed.has(i)),
+        concurrency: processingSettings.concurrency,
+        shouldStop: () => signal.aborted,
+        signal,
+        worker: i => transcribeRunChunk(run, i, signal),
+        onResult: (i, newSegments) => {
+          run.completed.add(i);
+          updateProgress();
+          mergeRunChunkResult(run, i, newSegments);
+        },
+        onError: (i, appError) => {
+          console.error(appError);
+          markRunChunkError(run, i, appError);
+        },
+        onConcurrencyChange: (concurrency, reason) => {
+          patch({
+            message: reason === 'quota'
+              ? `已達 API 配額限制，並行數降為 ${concurrency}，稍後重試...`
+              : `配額已恢復，並行數回升為 ${concurrency}`
+          });
+        }
+      });
+
+      // 停止时进度已逐段保存，之后可在主画面或下次批次中继续
+      if (signal.aborted) {
+        patch({ status: 'stopped', message: undefined });
+        return;
+      }
+
+      if (processingSettings.speakerContinuity && provider.matchSpeakers) {
+        patch({ message: '正在統一各片段的說話者...' });
+        const mappings = await reconcileSpeakers(segments, run.contextualChunks, matchRunSpeakers(run), signal);
+        segments = applySpeakerMappings(segments, mappings);
+      }
+
+      const failed = chunks.length - run.completed.size;
+      updateProject(project.id, () => ({ transcripts: segments, status: 'completed' }))
+        .catch(err => console.error('Failed to save project:', err));
+      patch({
+        status: 'completed',
+        message: undefined,
+        error: failed > 0 ? `${failed} 個片段轉錄失敗，可開啟結果後重新轉錄` : undefined,
+        transcripts: segments
+      });
+    } catch (err) {
+      if (isAbortError(err)) {
+        patch({ status: 'stopped', message: undefined });
+        return;
+      }
+      console.error('Batch processing error:', err);
+      const appError = toAppError(err, parseAudioError);
+      patch({ status: 'error', message: undefined, error: appError.userMessage });
+    }
+  };
+
+  // 依伫列顺序处理尚未完成的档案，共用目前的设定
+  const startBatch = async () => {
+    if (!providerReady || isBusy) return;
+    if (!batchItemsRef.current.some(item => item.status !== 'completed')) return;
+
+    const controller = new AbortController();
+    batchControllerRef.current = controller;
+    setBatchRunning(true);
+    updateBatchItems(prev => prev.map(item => item.status === 'completed' ? item : { ...item, status: 'queued', message: undefined, error: undefined }));
+
+    // 每个工作各自取目前伫列中第一个等待中的档案；processBatchItem 会立即标为处理中，不会被重复取用
+    const takeNextItem = () => batchItemsRef.current.find(item => item.status === 'queued');
+    // 每个档案分割后检查预算；整批只询问一次，同意后其余档案不再询问，拒绝则停止整批
+    let overBudgetApproved = false;
+    const confirmBudget = (estimate: TokenUsage) => {
+      const warning = getDailyBudgetWarning(estimate);
+      if (!warning || overBudgetApproved) return true;
+      overBudgetApproved = window.confirm(warning);
+      if (!overBudgetApproved) controller.abort();
+      return overBudgetApproved;
+    };
+    const worker = async () => {
+      for (let item = takeNextItem(); item && !controller.signal.aborted; item = takeNextItem()) {
+        await processBatchItem(item, controller.signal, confirmBudget);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.max(1, processingSettings.batchConcurrency) }, worker));
+
+    batchControllerRef.current = null;
+    setBatchRunning(false);
+  };
+
+  const stopBatch = () => {
+    batchControllerRef.current?.abort();
+  };
+
+  // 在主画面开启批次结果，可继续编辑、重新转录或产生会议纪录
+  const openBatchItem = async (item: BatchItem) => {
+    if (!item.projectId) return;
+    const project = await getProject(item.projectId);
+    if (!project) return;
+    openProject(project);
+    setFile(item.file);
+  };
+
+  // 将所有已完成的逐字稿打包为 TXT 与 SRT
+  const downloadBatchZip = () => {
+    const usedNames = new Set<string>();
+    const entries: ZipEntry[] = [];
+    batchItems.forEach(item => {
+      if (!item.transcripts || item.transcripts.length === 0) return;
+      const lastDot = item.file.name.lastIndexOf('.');
+      const baseName = lastDot === -1 ? item.file.name : item.file.name.substring(0, lastDot);
+      let name = baseName;
+      for (let n = 2; usedNames.has(name); n++) name = `${baseName} (${n})`;
+      usedNames.add(name);
+      entries.push(
+        { name: `${name}.txt`, data: generateTxtContent(item.transcripts, { includeTimestamps }) },
+        { name: `${name}.srt`, data: generateSrtContent(item.transcripts, { speakerColors }) }
+      );
+    });
+    if (entries.length === 0) return;
+    const today = new Date();
+    const stamp = `${today.getFullYear()}${String(today.getMonth() + 1).padStart(2, '0')}${String(today.getDate()).padStart(2, '0')}`;
+    downloadBlob(createZip(entries), `逐字稿-${stamp}.zip`);
+  };
+
+  // 为开启的专案补上原始音档，指纹不同时先确认
+  const attachSourceFile = async (sourceFile: File) => {
+    const project = currentProject ? await getProject(currentProject.id) : undefined;
+    if (project && !project.fileHash.startsWith('legacy:')) {
+      const fileHash = await fingerprintFile(sourceFile);
+      if (fileHash !== project.fileHash && !window.confirm('選擇的檔案與此專案的原始音檔不同，仍要使用嗎？')) {
+        return;
+      }
+    }
+    setFile(sourceFile);
+    setRetranscribeError(null);
+  };
+
+  // 重新转录失败的片段或任意时间范围，只取代范围内的句子
+  const retranscribe = async (target: RetranscribeTarget, overrides: RetranscribeOverrides) => {
+    if (!file || isRetranscribing) return;
+    if (overrides.providerConfig && !isProviderReady(overrides.providerConfig, apiKey)) {
+      setRetranscribeError('所選的轉錄引擎尚未完成設定');
+      return;
+    }
+
+    setRetranscribing(true);
+    setRetranscribeError(null);
+    try {
+      if (decodedAudioRef.current?.file !== file) {
+        setRetranscribeProgress('讀取音訊中...');
+      }
+      const source = await prepareAudio(file);
+
+      const project = currentProject ? await getProject(currentProject.id) : undefined;
+      let chunkIndex: number | undefined;
+      let startSeconds: number;
+      let endSeconds: number;
+      if (target.kind === 'chunk') {
+        chunkIndex = target.chunkIndex;
+        [startSeconds, endSeconds] = project?.chunkRanges?.[chunkIndex]
+          ?? [target.startTimeSeconds, target.startTimeSeconds + CHUNK_DURATION];
+      } else {
+        startSeconds = target.startSeconds;
+        endSeconds = target.endSeconds;
+      }
+      endSeconds = Math.min(endSeconds, source.duration);
+      if (!confirmDailyBudget(estimateTranscriptionUsage(endSeconds - startSeconds, 1))) return;
+
+      const range = getAudioRange(source, startSeconds, endSeconds);
+      const { startTimeSeconds } = range;
+      const { blob: audioBlob } = await encodeChunk(source, range, preprocessOptions, progress => {
+        setRetranscribeProgress(`編碼音訊 ${Math.round(progress * 100)}%...`);
+      });
+      setRetranscribeProgress(`轉錄 ${formatTime(startSeconds)} - ${formatTime(endSeconds)}...`);
+      const latest = transcriptsRef.current;
+      const context = {
+        ...(processingSettings.speakerContinuity ? buildRangeSpeakerContext(latest, startTimeSeconds) : undefined),
+        transcriptionSettings: overrides.transcriptionSettings ?? transcriptionSettings,
+        speakerHints,
+        glossary
+      };
+      const request = {
+        audioBlob,
+        chunkIndex: chunkIndex ?? 0,
+        startTimeOffset: startTimeSeconds,
+        durationSeconds: range.durationSeconds,
+        context
+      };
+      const segments = await callWithProvider(
+        (target, options) => target.transcribeChunk(request, { ...options, maxRetries: 3 }),
+        { config: overrides.providerConfig, onStatus: setRetranscribeProgress }
+      );
+      const normalized = applyGlossary(segments, glossary);
+      updateTranscripts(prev => replaceSegmentsInRange(prev, startTimeSeconds, endSeconds, normalized, chunkIndex));
+
+      if (project && chunkIndex !== undefined) {
+        const retriedChunk = chunkIndex;
+        updateProject(project.id, p => ({
+          completedChunks: Array.from(new Set([...p.completedChunks, retriedChunk])),
+          chunkResults: { ...p.chunkResults, [retriedChunk]: normalized }
+        })).catch(err => console.error('Failed to save project:', err));
+      }
+    } catch (err) {
+      console.error('Retranscription error:', err);
+      const appError = toAppError(err);
+      setRetranscribeError(appError.userMessage);
+    } finally {
+      setRetranscribing(false);
+      setRetranscribeProgress('');
+    }
+  };
+
+  const translateSegments = async () => {
+    if (!provider.translateTexts || isTranslating) return;
+
+    setTranslating(true);
+    setTranslationError(null);
+    const snapshot = transcriptsRef.current;
+    setTranslationProgress({ done: 0, total: snapshot.length });
+
+    try {
+      const translate = (texts: string[], language: TranslationLanguage) =>
+        callWithProvider((target, options) => target.translateTexts!(texts, language, options));
+      await translateTranscript(snapshot, translationLanguage, translate, (start, results) => {
+        updateTranscripts(prev => applyTranslations(prev, snapshot.slice(start, start + results.length), results));
+        setTranslationProgress({ done: Math.min(start + results.length, snapshot.length), total: snapshot.length });
+      });
+      // 第一次翻译完成后预设汇出双语
+      setSubtitleMode(prev => prev === 'original' ? 'bilingual' : prev);
+    } catch (err) {
+      console.error("Translation error:", err);
+      setTranslationError(toAppError(err).userMessage);
+    } finally {
+      setTranslating(false);
+    }
+  };
+
+  const generateMinutes = async () => {
+    if (!provider.draftMinutes || !provider.mergeMinutes || isGeneratingMinutes) return;
+
+    setGeneratingMinutes(true);
+    setMinutesError(null);
+    try {
+      const result = await generateMeetingMinutes(
+        transcriptsRef.current,
+        lines => callWithProvider((target, options) => target.draftMinutes!(lines, options)),
+        partials => callWithProvider((target, options) => target.mergeMinutes!(partials, options)),
+        setMinutesProgress
+      );
+      setMinutes(result);
+    } catch (err) {
+      console.error("Minutes error:", err);
+      setMinutesError(toAppError(err).userMessage);
+    } finally {
+      setGeneratingMinutes(false);
+      setMinutesProgress('');
+    }
+  };
+
+  const downloadMinutes = () => {
+    if (!minutes) return;
+    downloadTextFile(minutesToMarkdown(minutes, getBaseFileName()), `${getBaseFileName()}-minutes.md`, 'text/markdown');
+  };
+
+  const generateChapterList = async () => {
+    if (!provider.detectChapters || isGeneratingChapters) return;
+
+    setGeneratingChapters(true);
+    setChaptersError(null);
+    try {
+      const detect = (lines: TimedLine[]) => callWithProvider((target, options) => target.detectChapters!(lines, options));
+      setChapters(await generateChapters(transcriptsRef.current, detect, setChaptersProgress));
+    } catch (err) {
+      console.error("Chapters error:", err);
+      setChaptersError(toAppError(err).userMessage);
+    } finally {
+      setGeneratingChapters(false);
+      setChaptersProgress('');
+    }
+  };
+
+  const downloadYouTubeChapters = () => {
+    downloadTextFile(chaptersToYouTube(chapters), `${getBaseFileName()}-chapters.txt`);
+  };
+
+  const downloadVttChapters = () => {
+    downloadTextFile(chaptersToWebVtt(chapters), `${getBaseFileName()}-chapters.vtt`, 'text/vtt');
+  };
+
+  // 捲动到指定的句子并短暂标示
+  const highlightSegment = (index: number) => {
+    document.getElementById(`segment-${index}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedIndex(index);
+    window.setTimeout(() => setHighlightedIndex(current => current === index ? null : current), 2000);
+  };
+
+  const seekVideo = (seconds: number) => {
+    setSeekRequest({ seconds, nonce: Date.now() });
+  };
+
+  const jumpToTime = (seconds: number) => {
+    if (videoFile) seekVideo(seconds);
+    if (transcripts.length === 0) return;
+    const index = transcripts.reduce((best, segment, i) =>
+      Math.abs(segment.startTimeSeconds - seconds) < Math.abs(transcripts[best].startTimeSeconds - seconds) ? i : best, 0);
+    highlightSegment(index);
+  };
+
   const getBaseFileName = () => {
-    if (!file) return 'transcript';
+    if (!file) return currentProject?.name ?? 'transcript';
     const name = file.name;
     const lastDot = name.lastIndexOf('.');
     return lastDot === -1 ? name : name.substring(0, lastDot);
   };
 
   const downloadTxt = () => {
-    const content = transcripts
-      .map(t => {
-        const timeStr = includeTimestamps ? `[${formatTime(t.startTimeSeconds)}] ` : '';
-        return `${timeStr}${t.speaker}: ${t.text}`;
-      })
-      .join('\n');
-    const blob = new Blob([content], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${getBaseFileName()}.txt`;
-    a.click();
-    URL.revokeObjectURL(url);
+    const content = generateTxtContent(transcripts, { includeTimestamps, mode: subtitleMode });
+    downloadTextFile(content, `${getBaseFileName()}.txt`);
   };
 
   const downloadSrt = () => {
-    const content = generateSrtContent(transcripts);
-    const blob = new Blob([content], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${getBaseFileName()}.srt`;
-    a.click();
-    URL.revokeObjectURL(url);
+    const content = generateSrtContent(transcripts, { speakerColors, mode: subtitleMode });
+    downloadTextFile(content, `${getBaseFileName()}.srt`);
   };
 
   return (
@@ -217,8 +1341,43 @@ function App() {
       <ApiKeyModal 
         isOpen={isKeyModalOpen} 
         onClose={() => setKeyModalOpen(false)} 
-        onSave={handleSaveKey}
-        currentKey={apiKey}
+        onSave={handleSaveKeys}
+        currentKeys={apiKeys}
+        usageLog={usageLog}
+        pricing={pricing}
+      />
+      <GlossaryModal
+        isOpen={isGlossaryModalOpen}
+        onClose={() => setGlossaryModalOpen(false)}
+        onSave={handleSaveGlossary}
+        onApplyToTranscript={handleApplyGlossary}
+        currentGlossary={glossary}
+        hasTranscript={transcripts.length > 0}
+      />
+      <ProjectLibrary
+        isOpen={isLibraryOpen}
+        onClose={() => setLibraryOpen(false)}
+        onOpenProject={openProject}
+        onProjectRenamed={handleProjectRenamed}
+        onProjectDeleted={handleProjectDeleted}
+        currentProjectId={currentProject?.id ?? null}
+      />
+      <TranscriptSearch
+        isOpen={isSearchOpen}
+        onClose={() => setSearchOpen(false)}
+        onOpenResult={openSearchResult}
+      />
+      <PricingModal
+        isOpen={isPricingModalOpen}
+        onClose={() => setPricingModalOpen(false)}
+        onSave={handleSavePricing}
+        currentPricing={pricing}
+      />
+      <ProviderSettingsModal
+        isOpen={isProviderModalOpen}
+        onClose={() => setProviderModalOpen(false)}
+        onSave={handleSaveProviderConfig}
+        currentConfig={providerConfig}
       />
 
       <header className="w-full max-w-4xl flex justify-between items-center mb-8">
@@ -233,17 +1392,49 @@ function App() {
             <span>使用 Gemini 3 Flash 模型進行長音檔分割與精確轉錄</span>
             <span className="hidden sm:inline text-slate-300">|</span>
             <span className="text-xs bg-slate-200 text-slate-700 px-2 py-0.5 rounded-full font-mono">
-              Model: {MODEL_NAME}
+              {provider.label} · Model: {provider.modelName}
             </span>
           </div>
         </div>
-        <button 
-          onClick={() => setKeyModalOpen(true)}
-          className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 rounded-lg shadow-sm hover:bg-slate-50 text-slate-700 transition-colors"
-        >
-          <Settings className="w-4 h-4" />
-          <span>API Key 設定</span>
-        </button>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <button 
+            onClick={() => setLibraryOpen(true)}
+            disabled={isRunActive}
+            className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 rounded-lg shadow-sm hover:bg-slate-50 text-slate-700 transition-colors disabled:opacity-50"
+          >
+            <FolderOpen className="w-4 h-4" />
+            <span>專案庫</span>
+          </button>
+          <button 
+            onClick={() => setSearchOpen(true)}
+            disabled={isRunActive}
+            className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 rounded-lg shadow-sm hover:bg-slate-50 text-slate-700 transition-colors disabled:opacity-50"
+          >
+            <Search className="w-4 h-4" />
+            <span>搜尋</span>
+          </button>
+          <button 
+            onClick={() => setGlossaryModalOpen(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 rounded-lg shadow-sm hover:bg-slate-50 text-slate-700 transition-colors"
+          >
+            <BookOpen className="w-4 h-4" />
+            <span>詞彙表{glossary.length > 0 ? ` (${glossary.length})` : ''}</span>
+          </button>
+          <button 
+            onClick={() => setProviderModalOpen(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 rounded-lg shadow-sm hover:bg-slate-50 text-slate-700 transition-colors"
+          >
+            <Server className="w-4 h-4" />
+            <span>轉錄引擎</span>
+          </button>
+          <button 
+            onClick={() => setKeyModalOpen(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 rounded-lg shadow-sm hover:bg-slate-50 text-slate-700 transition-colors"
+          >
+            <Settings className="w-4 h-4" />
+            <span>API Key 設定</span>
+          </button>
+        </div>
       </header>
 
       <main className="w-full max-w-4xl space-y-6">
@@ -253,67 +1444,182 @@ function App() {
           <div className="md:col-span-2 bg-white rounded-xl shadow-sm border border-slate-200 p-6">
              <h2 className="text-lg font-semibold text-slate-800 mb-4 flex items-center gap-2">
                <Upload className="w-5 h-5 text-indigo-600" />
-               上傳音訊檔案
+               上傳音訊或影片檔案
              </h2>
              
              <div 
-               onClick={() => fileInputRef.current?.click()}
-               className={`border-2 border-dashed rounded-xl p-8 text-center cursor-pointer transition-all ${
-                 file ? 'border-indigo-500 bg-indigo-50' : 'border-slate-300 hover:border-slate-400 hover:bg-slate-50'
+               onClick={() => !isRunActive && fileInputRef.current?.click()}
+               onDragOver={(e) => {
+                 e.preventDefault();
+                 setDragOver(true);
+               }}
+               onDragLeave={() => setDragOver(false)}
+               onDrop={handleDrop}
+               className={`border-2 border-dashed rounded-xl p-8 text-center transition-all ${
+                 status === AppStatus.RECORDING ? 'border-red-400 bg-red-50'
+                   : isDragOver ? 'border-indigo-500 bg-indigo-100 cursor-pointer'
+                   : file ? 'border-indigo-500 bg-indigo-50 cursor-pointer' : 'border-slate-300 hover:border-slate-400 hover:bg-slate-50 cursor-pointer'
                }`}
              >
                <input 
                  type="file" 
                  ref={fileInputRef} 
                  onChange={handleFileChange} 
-                 accept="audio/*" 
+                 accept="audio/*,video/*" 
+                 multiple
                  className="hidden" 
                />
-               {file ? (
+               {status === AppStatus.RECORDING ? (
+                 <div className="text-red-600 font-medium flex flex-col items-center">
+                   <Mic className="w-10 h-10 mb-2 animate-pulse" />
+                   錄音中 {formatTime(recordingMeter.seconds)}
+                   <div className="w-48 bg-red-100 rounded-full h-1.5 mt-3">
+                     <div
+                       className="bg-red-500 h-1.5 rounded-full transition-all duration-200"
+                       style={{ width: `${Math.min(100, recordingMeter.level * 400)}%` }}
+                     />
+                   </div>
+                 </div>
+               ) : file ? (
                  <div className="text-indigo-700 font-medium flex flex-col items-center">
-                   <FileAudio className="w-10 h-10 mb-2" />
+                   {videoFile ? <FileVideo className="w-10 h-10 mb-2" /> : <FileAudio className="w-10 h-10 mb-2" />}
                    {file.name}
                    <span className="text-xs text-indigo-500 mt-1">{(file.size / 1024 / 1024).toFixed(2)} MB</span>
+                   {file === recordedFile && (
+                     <button
+                       onClick={(e) => {
+                         e.stopPropagation();
+                         downloadBlob(file, file.name);
+                       }}
+                       className="mt-2 flex items-center gap-1 text-xs text-indigo-600 hover:text-indigo-800"
+                     >
+                       <Download className="w-3 h-3" />
+                       下載錄音
+                     </button>
+                   )}
                  </div>
                ) : (
                  <div className="text-slate-500 flex flex-col items-center">
                    <Upload className="w-10 h-10 mb-2 text-slate-300" />
-                   <span>點擊或拖曳上傳音檔 (MP3, WAV, M4A)</span>
+                   <span>點擊或拖曳上傳音檔或影片 (MP3, WAV, M4A, MP4, WebM)</span>
+                   <span className="text-xs text-slate-400 mt-1">一次選擇多個檔案會加入批次佇列</span>
+                   {currentProject && (
+                     <span className="text-xs text-indigo-500 mt-2">目前專案：{currentProject.name}</span>
+                   )}
                  </div>
                )}
              </div>
+             {fileNotice && (
+               <p className="text-xs text-amber-600 mt-2">{fileNotice}</p>
+             )}
+
+             <TranscriptionSettingsForm
+               settings={transcriptionSettings}
+               onChange={handleTranscriptionSettingsChange}
+               disabled={isBusy}
+             />
+
+             <SpeakerHintsForm
+               hints={speakerHints}
+               onChange={setSpeakerHints}
+               disabled={isBusy}
+             />
+
+             <ProcessingOptions
+               settings={processingSettings}
+               onChange={handleProcessingSettingsChange}
+               disabled={isBusy}
+             />
 
              <div className="mt-6 flex justify-end gap-3">
-                {status === AppStatus.PROCESSING || status === AppStatus.PREPARING ? (
-                  <button 
-                    onClick={stopProcessing}
-                    className="px-6 py-2.5 bg-red-500 hover:bg-red-600 text-white rounded-lg font-medium flex items-center gap-2 transition-colors shadow-sm"
-                  >
-                    <StopCircle className="w-5 h-5" />
-                    停止辨識
-                  </button>
+                {status === AppStatus.RECORDING ? (
+                  <>
+                    <button
+                      onClick={discardRecording}
+                      className="px-6 py-2.5 bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 rounded-lg font-medium flex items-center gap-2 transition-colors shadow-sm"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                      捨棄錄音
+                    </button>
+                    <button 
+                      onClick={stopRecording}
+                      className="px-6 py-2.5 bg-red-500 hover:bg-red-600 text-white rounded-lg font-medium flex items-center gap-2 transition-colors shadow-sm"
+                    >
+                      <StopCircle className="w-5 h-5" />
+                      結束錄音
+                    </button>
+                  </>
+                ) : isRunActive ? (
+                  <>
+                    {status === AppStatus.PROCESSING && (
+                      <button 
+                        onClick={pauseProcessing}
+                        className="px-6 py-2.5 bg-amber-500 hover:bg-amber-600 text-white rounded-lg font-medium flex items-center gap-2 transition-colors shadow-sm"
+                      >
+                        <Pause className="w-5 h-5" />
+                        暫停
+                      </button>
+                    )}
+                    {status === AppStatus.PAUSED && (
+                      <button 
+                        onClick={resumeProcessing}
+                        className="px-6 py-2.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-medium flex items-center gap-2 transition-colors shadow-sm"
+                      >
+                        繼續辨識
+                        <Play className="w-4 h-4 fill-current" />
+                      </button>
+                    )}
+                    <button 
+                      onClick={stopProcessing}
+                      className="px-6 py-2.5 bg-red-500 hover:bg-red-600 text-white rounded-lg font-medium flex items-center gap-2 transition-colors shadow-sm"
+                    >
+                      <StopCircle className="w-5 h-5" />
+                      停止辨識
+                    </button>
+                  </>
                 ) : (
-                  <button 
-                    onClick={processAudio}
-                    disabled={!file || !apiKey}
-                    className="px-6 py-2.5 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 disabled:cursor-not-allowed text-white rounded-lg font-medium flex items-center gap-2 transition-colors shadow-sm"
-                  >
-                    {status === AppStatus.COMPLETED ? '重新辨識' : '開始辨識'}
-                    <Play className="w-4 h-4 fill-current" />
-                  </button>
+                  <>
+                    <button 
+                      onClick={startRecording}
+                      disabled={!providerReady || isBatchRunning}
+                      className="px-6 py-2.5 bg-white border border-slate-200 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed text-slate-700 rounded-lg font-medium flex items-center gap-2 transition-colors shadow-sm"
+                    >
+                      <Mic className="w-4 h-4" />
+                      即時錄音
+                    </button>
+                    <button 
+                      onClick={processAudio}
+                      disabled={!file || !providerReady || isBatchRunning}
+                      className="px-6 py-2.5 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 disabled:cursor-not-allowed text-white rounded-lg font-medium flex items-center gap-2 transition-colors shadow-sm"
+                    >
+                      {status === AppStatus.COMPLETED ? '重新辨識' : '開始辨識'}
+                      <Play className="w-4 h-4 fill-current" />
+                    </button>
+                  </>
                 )}
              </div>
           </div>
 
           <div className="md:col-span-1">
-             <QuotaDisplay quotaPercentage={Math.round(quota)} apiKey={apiKey} />
+             <QuotaDisplay
+               apiKey={apiKey}
+               todayUsage={getDayUsage(usageLog)}
+               projectUsage={projectUsage && projectUsage.projectId === currentProject?.id ? projectUsage.usage : null}
+               pricing={pricing}
+               usageUnavailable={isUsageUnavailable}
+               onEditPricing={() => setPricingModalOpen(true)}
+             />
              
              {/* Progress Status Card */}
              {status !== AppStatus.IDLE && (
                <div className="mt-4 bg-white rounded-xl shadow-sm border border-slate-200 p-4">
                  <div className="flex items-center gap-2 mb-2 font-medium text-slate-700">
-                    {status === AppStatus.PROCESSING || status === AppStatus.PREPARING ? (
+                    {isRunning ? (
                       <Loader2 className="w-4 h-4 animate-spin text-indigo-600" />
+                    ) : status === AppStatus.PAUSED ? (
+                      <div className="w-2 h-2 rounded-full bg-amber-500" />
+                    ) : status === AppStatus.RECORDING ? (
+                      <div className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
                     ) : status === AppStatus.COMPLETED ? (
                       <div className="w-2 h-2 rounded-full bg-green-500" />
                     ) : (
@@ -329,6 +1635,12 @@ function App() {
                      />
                    </div>
                  )}
+                 {!!stats.uploadBytes && (
+                   <p className="text-xs text-slate-500 mt-2">
+                     上傳音訊 {(stats.uploadBytes / 1024 / 1024).toFixed(1)} MB
+                     {!!stats.sourceBytes && ` (原始 WAV 約 ${(stats.sourceBytes / 1024 / 1024).toFixed(1)} MB，減少 ${Math.round((1 - stats.uploadBytes / stats.sourceBytes) * 100)}%)`}
+                   </p>
+                 )}
                  {errorMsg && (
                    <p className="text-xs text-red-500 mt-2">{errorMsg}</p>
                  )}
@@ -337,6 +1649,60 @@ function App() {
           </div>
         </div>
 
+        {/* Batch Queue */}
+        {batchItems.length > 0 && (
+          <BatchQueue
+            items={batchItems}
+            isRunning={isBatchRunning}
+            canStart={providerReady && !isRunActive}
+            concurrency={processingSettings.batchConcurrency}
+            onConcurrencyChange={batchConcurrency => handleProcessingSettingsChange({ ...processingSettings, batchConcurrency })}
+            onAddFiles={addBatchFiles}
+            onMove={moveBatchItem}
+            onRemove={id => updateBatchItems(prev => prev.filter(item => item.id !== id))}
+            onClearFinished={() => updateBatchItems(prev => prev.filter(item => item.status !== 'completed'))}
+            onStart={startBatch}
+            onStop={stopBatch}
+            onOpen={openBatchItem}
+            onDownloadZip={downloadBatchZip}
+          />
+        )}
+
+        {/* Video Preview */}
+        {videoFile && (
+          <VideoPlayer
+            file={videoFile}
+            transcripts={transcripts}
+            subtitleMode={subtitleMode}
+            seekRequest={seekRequest}
+            onActiveIndexChange={setPlayingIndex}
+          />
+        )}
+
+        {/* Speaker Manager */}
+        {transcripts.length > 0 && (
+          <SpeakerPanel
+            transcripts={transcripts}
+            speakerColors={speakerColors}
+            onRename={handleRenameSpeaker}
+            onColorChange={handleSpeakerColorChange}
+          />
+        )}
+
+        {/* Meeting Minutes */}
+        {transcripts.length > 0 && (
+          <MinutesPanel
+            minutes={minutes}
+            isGenerating={isGeneratingMinutes}
+            progressMessage={minutesProgress}
+            error={minutesError}
+            canGenerate={!!provider.draftMinutes && !isRunActive}
+            onGenerate={generateMinutes}
+            onDownload={downloadMinutes}
+            onJumpToTime={jumpToTime}
+          />
+        )}
+
         {/* Transcript Results */}
         {transcripts.length > 0 && (
           <div className="bg-white rounded-xl shadow-lg border border-slate-200 overflow-hidden">
@@ -372,13 +1738,67 @@ function App() {
                 </button>
               </div>
             </div>
+
+            <TranslationBar
+              targetLanguage={translationLanguage}
+              onTargetLanguageChange={setTranslationLanguage}
+              subtitleMode={subtitleMode}
+              onSubtitleModeChange={setSubtitleMode}
+              onTranslate={translateSegments}
+              isTranslating={isTranslating}
+              progress={translationProgress}
+              hasTranslation={transcripts.some(segment => segment.translation !== undefined)}
+              canTranslate={!!provider.translateTexts && !isRunActive}
+              error={translationError}
+            />
+
+            <RetranscribePanel
+              transcripts={transcripts}
+              hasSourceAudio={!!file}
+              onAttachSourceFile={attachSourceFile}
+              onRetranscribe={retranscribe}
+              providerConfig={providerConfig}
+              transcriptionSettings={transcriptionSettings}
+              isRetranscribing={isRetranscribing}
+              progress={retranscribeProgress}
+              disabled={isRunActive}
+              error={retranscribeError}
+            />
+
+            <ChapterToc
+              chapters={chapters}
+              isGenerating={isGeneratingChapters}
+              progressMessage={chaptersProgress}
+              error={chaptersError}
+              canGenerate={!!provider.detectChapters && !isRunActive}
+              onGenerate={generateChapterList}
+              onJumpToTime={jumpToTime}
+              onDownloadYouTube={downloadYouTubeChapters}
+              onDownloadVtt={downloadVttChapters}
+            />
             
             <div className="divide-y divide-slate-100 max-h-[600px] overflow-y-auto p-4 space-y-4">
               {transcripts.map((segment, idx) => (
-                <div key={idx} className="flex gap-4 group items-start hover:bg-slate-50/50 transition-colors">
+                <div
+                  key={idx}
+                  id={`segment-${idx}`}
+                  className={`flex gap-4 group items-start transition-colors ${
+                    highlightedIndex === idx ? 'bg-amber-50' : playingIndex === idx ? 'bg-indigo-50' : 'hover:bg-slate-50/50'
+                  }`}
+                >
                    <div className="flex-shrink-0 w-24 text-right pt-2">
                       <div className="inline-flex items-center gap-1 bg-slate-100 px-2 py-0.5 rounded border border-transparent focus-within:border-indigo-300 focus-within:bg-white focus-within:ring-2 focus-within:ring-indigo-100 transition-all">
-                        <Clock className="w-3 h-3 text-slate-400" />
+                        {videoFile ? (
+                          <button
+                            onClick={() => seekVideo(segment.startTimeSeconds)}
+                            className="text-slate-400 hover:text-indigo-600"
+                            title="從這裡播放影片"
+                          >
+                            <Play className="w-3 h-3" />
+                          </button>
+                        ) : (
+                          <Clock className="w-3 h-3 text-slate-400" />
+                        )}
                         <input 
                           type="text"
                           defaultValue={formatTime(segment.startTimeSeconds)}
@@ -404,12 +1824,13 @@ function App() {
                    </div>
                    <div className="flex-grow min-w-0">
                       <div className="flex items-center gap-2 mb-1">
-                        <User className="w-3 h-3 text-slate-400" />
+                        <User className="w-3 h-3" style={{ color: getSpeakerColor(segment.speaker, speakerColors) }} />
                         <input 
                           type="text"
                           value={segment.speaker}
                           onChange={(e) => updateTranscriptSegment(idx, 'speaker', e.target.value)}
-                          className="text-xs font-bold text-slate-600 uppercase tracking-wide bg-transparent border-b border-transparent hover:border-slate-200 focus:border-indigo-400 focus:outline-none transition-colors w-full max-w-[200px]"
+                          style={{ color: getSpeakerColor(segment.speaker, speakerColors) }}
+                          className="text-xs font-bold uppercase tracking-wide bg-transparent border-b border-transparent hover:border-slate-200 focus:border-indigo-400 focus:outline-none transition-colors w-full max-w-[200px]"
                           placeholder="說話者"
                         />
                       </div>
@@ -418,11 +1839,19 @@ function App() {
                         onChange={(e) => updateTranscriptSegment(idx, 'text', e.target.value)}
                         className="w-full text-slate-800 leading-relaxed bg-transparent border border-transparent hover:bg-white hover:border-slate-200 focus:bg-white focus:border-indigo-300 focus:ring-2 focus:ring-indigo-50 rounded p-2 -ml-2 focus:outline-none transition-all resize-y min-h-[60px]"
                       />
+                      {segment.translation !== undefined && (
+                        <textarea
+                          value={segment.translation}
+                          onChange={(e) => updateTranscriptSegment(idx, 'translation', e.target.value)}
+                          className="w-full text-sm text-slate-500 leading-relaxed bg-transparent border border-transparent hover:bg-white hover:border-slate-200 focus:bg-white focus:border-indigo-300 focus:ring-2 focus:ring-indigo-50 rounded p-2 -ml-2 focus:outline-none transition-all resize-y min-h-[40px]"
+                          placeholder="譯文"
+                        />
+                      )}
                    </div>
                 </div>
               ))}
               
-              {(status === AppStatus.PROCESSING || status === AppStatus.PREPARING) && (
+              {isRunning && (
                  <div className="flex justify-center py-8">
                    <Loader2 className="w-8 h-8 text-indigo-400 animate-spin" />
                  </div>
@@ -1,33 +1,77 @@
 import React, { useState, useEffect } from 'react';
-import { Key, Save, X, Eye, EyeOff } from 'lucide-react';
+import { Key, Save, X, Eye, EyeOff, Plus, Trash2 } from 'lucide-react';
+import { ApiKeyEntry, getKeyHealth } from '../utils/apiKeyPool';
+import { DailyUsageLog, PricingSettings, estimateCost, formatCost, getGeminiUsageKeyId, getKeyUsage, getTodayKey, getTotalTokens } from '../utils/usageTracking';
 
 interface ApiKeyModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (key: string) => void;
-  currentKey: string;
+  onSave: (keys: ApiKeyEntry[]) => void;
+  currentKeys: ApiKeyEntry[];
+  usageLog: DailyUsageLog;
+  pricing: PricingSettings;
 }
 
-const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, onSave, currentKey }) => {
-  const [inputValue, setInputValue] = useState('');
+const inputClass = "w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all text-sm";
+
+const describeHealth = (entry: ApiKeyEntry) => {
+  if (entry.disabled) return { text: '已停用', className: 'bg-slate-100 text-slate-500' };
+  const health = getKeyHealth(entry);
+  if (health.state === 'invalid') return { text: '金鑰無效', className: 'bg-red-50 text-red-600' };
+  if (health.state === 'cooling') {
+    const seconds = Math.ceil((health.until - Date.now()) / 1000);
+    return { text: `冷卻中 ${seconds} 秒`, className: 'bg-amber-50 text-amber-700' };
+  }
+  return { text: '可用', className: 'bg-green-50 text-green-700' };
+};
+
+const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, onSave, currentKeys, usageLog, pricing }) => {
+  const [drafts, setDrafts] = useState<ApiKeyEntry[]>([]);
+  const [newLabel, setNewLabel] = useState('');
+  const [newKey, setNewKey] = useState('');
   const [showKey, setShowKey] = useState(false);
 
   useEffect(() => {
     if (isOpen) {
-      setInputValue(currentKey || '');
+      setDrafts(currentKeys);
+      setNewLabel('');
+      setNewKey('');
     }
-  }, [isOpen, currentKey]);
+  }, [isOpen, currentKeys]);
 
   if (!isOpen) return null;
 
+  const updateDraft = (id: string, changes: Partial<ApiKeyEntry>) => {
+    setDrafts(prev => prev.map(entry => entry.id === id ? { ...entry, ...changes } : entry));
+  };
+
+  const addKey = () => {
+    const key = newKey.trim();
+    if (!key) return;
+    setDrafts(prev => [...prev, {
+      id: crypto.randomUUID(),
+      label: newLabel.trim() || `金鑰 ${prev.length + 1}`,
+      key,
+      disabled: false
+    }]);
+    setNewLabel('');
+    setNewKey('');
+  };
+
   const handleSave = () => {
-    onSave(inputValue.trim());
+    // 输入框中尚未按「新增」的金钥也一并保存
+    const pending = newKey.trim()
+      ? [{ id: crypto.randomUUID(), label: newLabel.trim() || `金鑰 ${drafts.length + 1}`, key: newKey.trim(), disabled: false }]
+      : [];
+    onSave([...drafts, ...pending]);
     onClose();
   };
 
+  const today = getTodayKey();
+
   return (
     <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
-      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md overflow-hidden animate-fade-in">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl overflow-hidden animate-fade-in">
         <div className="bg-indigo-600 px-6 py-4 flex justify-between items-center">
           <h3 className="text-white font-bold text-lg flex items-center gap-2">
             <Key className="w-5 h-5" />
@@ -37,14 +81,14 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, onSave, curr
             <X className="w-6 h-6" />
           </button>
         </div>
-        
+
         <div className="p-6">
           <p className="text-slate-600 text-sm mb-4">
-            請輸入您的 Google Gemini API Key。此金鑰僅會儲存於您的瀏覽器 LocalStorage 中，不會傳送至其他伺服器。
+            可加入多組 Google Gemini API Key，轉錄時依序使用；某組金鑰達到配額限制或失效時會自動換下一組。金鑰僅會儲存於您的瀏覽器 LocalStorage 中，不會傳送至其他伺服器。
             <br />
-            <a 
-              href="https://aistudio.google.com/app/apikey" 
-              target="_blank" 
+            <a
+              href="https://aistudio.google.com/app/apikey"
+              target="_blank"
               rel="noreferrer"
               className="text-indigo-600 hover:underline mt-1 inline-block"
             >
@@ -52,19 +96,83 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, onSave, curr
             </a>
           </p>
 
-          <div className="relative mb-6">
+          <div className="max-h-[40vh] overflow-y-auto divide-y divide-slate-100 mb-4">
+            {drafts.length === 0 && (
+              <p className="text-sm text-slate-400 text-center py-6">尚未加入任何金鑰</p>
+            )}
+            {drafts.map(entry => {
+              const health = describeHealth(entry);
+              const keyId = getGeminiUsageKeyId(entry.id);
+              const todayUsage = usageLog[today]?.[keyId];
+              const totalUsage = getKeyUsage(usageLog, keyId);
+              return (
+                <div key={entry.id} className="py-2 flex items-center gap-3">
+                  <input
+                    type="checkbox"
+                    checked={!entry.disabled}
+                    onChange={(e) => updateDraft(entry.id, { disabled: !e.target.checked })}
+                    className="accent-indigo-600"
+                    title="啟用"
+                  />
+                  <div className="flex-grow min-w-0">
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        value={entry.label}
+                        onChange={(e) => updateDraft(entry.id, { label: e.target.value })}
+                        className="font-medium text-sm text-slate-800 border-b border-transparent hover:border-slate-200 focus:border-indigo-400 focus:outline-none min-w-0"
+                      />
+                      <span className="font-mono text-xs bg-slate-100 px-1 rounded text-slate-600">...{entry.key.slice(-4)}</span>
+                      <span className={`text-xs px-2 py-0.5 rounded-full whitespace-nowrap ${health.className}`}>{health.text}</span>
+                    </div>
+                    <div className="text-xs text-slate-400 mt-0.5">
+                      今日 {todayUsage ? `${getTotalTokens(todayUsage).toLocaleString()} tokens (${formatCost(estimateCost(todayUsage, pricing))})` : '尚未使用'}
+                      {' · '}累計 {getTotalTokens(totalUsage).toLocaleString()} tokens ({formatCost(estimateCost(totalUsage, pricing))})
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => setDrafts(prev => prev.filter(item => item.id !== entry.id))}
+                    className="text-slate-400 hover:text-red-500"
+                    title="刪除"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="grid grid-cols-12 gap-2 mb-6">
             <input
-              type={showKey ? "text" : "password"}
-              value={inputValue}
-              onChange={(e) => setInputValue(e.target.value)}
-              placeholder="貼上您的 API Key"
-              className="w-full pl-4 pr-12 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+              type="text"
+              value={newLabel}
+              onChange={(e) => setNewLabel(e.target.value)}
+              placeholder="標籤（選填）"
+              className={`${inputClass} col-span-4`}
             />
+            <div className="relative col-span-6">
+              <input
+                type={showKey ? "text" : "password"}
+                value={newKey}
+                onChange={(e) => setNewKey(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addKey()}
+                placeholder="貼上您的 API Key"
+                className={`${inputClass} pr-10`}
+              />
+              <button
+                onClick={() => setShowKey(!showKey)}
+                className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600"
+              >
+                {showKey ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+              </button>
+            </div>
             <button
-              onClick={() => setShowKey(!showKey)}
-              className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600"
+              onClick={addKey}
+              disabled={!newKey.trim()}
+              className="col-span-2 text-sm text-indigo-600 bg-indigo-50 hover:bg-indigo-100 disabled:opacity-50 rounded-lg flex items-center justify-center gap-1"
             >
-              {showKey ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+              <Plus className="w-4 h-4" />
+              新增
             </button>
           </div>
 
@@ -77,7 +185,6 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, onSave, curr
             </button>
             <button
               onClick={handleSave}
-              disabled={!inputValue.trim()}
               className="px-6 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white rounded-lg shadow-md transition-colors font-medium flex items-center gap-2"
             >
               <Save className="w-4 h-4" />
@@ -0,0 +1,215 @@
+import React, { useRef, useState } from 'react';
+import { ListOrdered, ChevronUp, ChevronDown, X, Plus, Play, StopCircle, FolderArchive, ExternalLink, Loader2 } from 'lucide-react';
+import { TranscriptSegment } from '../types';
+import { MAX_BATCH_CONCURRENCY } from '../utils/processingSettings';
+
+export type BatchItemStatus = 'queued' | 'processing' | 'completed' | 'error' | 'stopped';
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  status: BatchItemStatus;
+  processedChunks: number;
+  totalChunks: number;
+  message?: string; // 目前的步骤或重试讯息
+  error?: string;
+  projectId?: string;
+  transcripts?: TranscriptSegment[]; // 完成后的逐字稿，供打包下载
+}
+
+interface BatchQueueProps {
+  items: BatchItem[];
+  isRunning: boolean;
+  canStart: boolean;
+  concurrency: number;
+  onConcurrencyChange: (concurrency: number) => void;
+  onAddFiles: (files: File[]) => void;
+  onMove: (id: string, offset: number) => void;
+  onRemove: (id: string) => void;
+  onClearFinished: () => void;
+  onStart: () => void;
+  onStop: () => void;
+  onOpen: (item: BatchItem) => void;
+  onDownloadZip: () => void;
+}
+
+const STATUS_LABELS: Record<BatchItemStatus, { label: string; className: string }> = {
+  queued: { label: '等待中', className: 'bg-slate-100 text-slate-600' },
+  processing: { label: '轉錄中', className: 'bg-indigo-100 text-indigo-700' },
+  completed: { label: '完成', className: 'bg-green-100 text-green-700' },
+  error: { label: '失敗', className: 'bg-red-100 text-red-700' },
+  stopped: { label: '已停止', className: 'bg-amber-100 text-amber-700' }
+};
+
+const iconButtonClass = "p-1 rounded text-slate-400 hover:text-indigo-600 hover:bg-slate-100 disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-slate-400";
+
+const BatchQueue: React.FC<BatchQueueProps> = ({
+  items,
+  isRunning,
+  canStart,
+  concurrency,
+  onConcurrencyChange,
+  onAddFiles,
+  onMove,
+  onRemove,
+  onClearFinished,
+  onStart,
+  onStop,
+  onOpen,
+  onDownloadZip
+}) => {
+  const [isDragOver, setDragOver] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const completedCount = items.filter(item => item.status === 'completed').length;
+  const pendingCount = items.length - completedCount;
+  const hasResults = items.some(item => item.transcripts && item.transcripts.length > 0);
+
+  return (
+    <div
+      onDragOver={(e) => {
+        e.preventDefault();
+        setDragOver(true);
+      }}
+      onDragLeave={() => setDragOver(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setDragOver(false);
+        onAddFiles(Array.from(e.dataTransfer.files));
+      }}
+      className={`bg-white rounded-xl shadow-sm border p-4 transition-colors ${isDragOver ? 'border-indigo-400 bg-indigo-50' : 'border-slate-200'}`}
+    >
+      <div className="flex flex-wrap items-center gap-3 mb-3">
+        <h3 className="font-bold text-slate-700 flex items-center gap-2">
+          <ListOrdered className="w-5 h-5 text-indigo-600" />
+          批次佇列
+          <span className="text-xs font-normal text-slate-400">
+            {completedCount} / {items.length} 完成，使用目前的轉錄設定
+          </span>
+        </h3>
+        <div className="ml-auto flex flex-wrap items-center gap-2 text-sm">
+          <label className="flex items-center gap-2 text-slate-600">
+            同時處理
+            <select
+              value={concurrency}
+              onChange={(e) => onConcurrencyChange(Number(e.target.value))}
+              disabled={isRunning}
+              className="border border-slate-300 rounded-lg px-2 py-1 text-sm focus:ring-2 focus:ring-indigo-500 outline-none disabled:bg-slate-100"
+            >
+              {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, i) => i + 1).map(n => (
+                <option key={n} value={n}>{n === 1 ? '1 個 (依序)' : `${n} 個檔案`}</option>
+              ))}
+            </select>
+          </label>
+          <input
+            type="file"
+            ref={fileInputRef}
+            multiple
+            accept="audio/*,video/*"
+            onChange={(e) => {
+              onAddFiles(e.target.files ? Array.from(e.target.files) : []);
+              e.target.value = '';
+            }}
+            className="hidden"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 py-1.5 border border-slate-200 rounded-lg text-slate-700 hover:bg-slate-50 flex items-center gap-1"
+          >
+            <Plus className="w-4 h-4" />
+            加入檔案
+          </button>
+          <button
+            onClick={onDownloadZip}
+            disabled={!hasResults}
+            className="px-3 py-1.5 border border-slate-200 rounded-lg text-slate-700 hover:bg-slate-50 disabled:opacity-50 flex items-center gap-1"
+          >
+            <FolderArchive className="w-4 h-4" />
+            下載 ZIP (TXT + SRT)
+          </button>
+          {isRunning ? (
+            <button
+              onClick={onStop}
+              className="px-3 py-1.5 bg-red-500 hover:bg-red-600 text-white rounded-lg flex items-center gap-1"
+            >
+              <StopCircle className="w-4 h-4" />
+              停止
+            </button>
+          ) : (
+            <button
+              onClick={onStart}
+              disabled={!canStart || pendingCount === 0}
+              className="px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 disabled:cursor-not-allowed text-white rounded-lg flex items-center gap-1"
+            >
+              <Play className="w-4 h-4 fill-current" />
+              開始批次轉錄 ({pendingCount})
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="divide-y divide-slate-100">
+        {items.map((item, index) => {
+          const status = STATUS_LABELS[item.status];
+          return (
+            <div key={item.id} className="flex items-center gap-3 py-2 text-sm">
+              <span className="w-6 text-right text-xs text-slate-400 font-mono">{index + 1}</span>
+              <div className="flex-grow min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="truncate font-medium text-slate-700" title={item.file.name}>{item.file.name}</span>
+                  <span className="text-xs text-slate-400 whitespace-nowrap">{(item.file.size / 1024 / 1024).toFixed(1)} MB</span>
+                </div>
+                {item.status === 'processing' && item.totalChunks > 0 && (
+                  <div className="w-full bg-slate-100 rounded-full h-1.5 mt-1">
+                    <div
+                      className="bg-indigo-600 h-1.5 rounded-full transition-all duration-500"
+                      style={{ width: `${(item.processedChunks / item.totalChunks) * 100}%` }}
+                    />
+                  </div>
+                )}
+                {item.error ? (
+                  <p className="text-xs text-red-500 mt-0.5">{item.error}</p>
+                ) : item.message && (
+                  <p className="text-xs text-slate-500 mt-0.5">{item.message}</p>
+                )}
+              </div>
+              <span className={`text-xs px-2 py-0.5 rounded-full whitespace-nowrap flex items-center gap-1 ${status.className}`}>
+                {item.status === 'processing' && <Loader2 className="w-3 h-3 animate-spin" />}
+                {status.label}
+              </span>
+              <button
+                onClick={() => onOpen(item)}
+                disabled={!item.projectId || isRunning}
+                className={iconButtonClass}
+                title="在主畫面開啟結果"
+              >
+                <ExternalLink className="w-4 h-4" />
+              </button>
+              {/* 处理中可调整等待中的档案，下一个档案依当下的顺序开始 */}
+              <button onClick={() => onMove(item.id, -1)} disabled={index === 0} className={iconButtonClass} title="上移">
+                <ChevronUp className="w-4 h-4" />
+              </button>
+              <button onClick={() => onMove(item.id, 1)} disabled={index === items.length - 1} className={iconButtonClass} title="下移">
+                <ChevronDown className="w-4 h-4" />
+              </button>
+              <button onClick={() => onRemove(item.id)} disabled={item.status === 'processing'} className={iconButtonClass} title="移除">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      {completedCount > 0 && !isRunning && (
+        <div className="mt-2 text-right">
+          <button onClick={onClearFinished} className="text-xs text-slate-500 hover:text-indigo-600">
+            移除已完成的檔案
+          </button>
+        </div>
+      )}
+      <p className="text-xs text-slate-400 mt-2">可將多個音檔或影片拖曳到這裡加入佇列</p>
+    </div>
+  );
+};
+
+export default BatchQueue;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { ListTree, Loader2, Youtube, FileDown } from 'lucide-react';
+import { Chapter } from '../types';
+import { formatTime } from '../utils/audioUtils';
+
+interface ChapterTocProps {
+  chapters: Chapter[];
+  isGenerating: boolean;
+  progressMessage: string;
+  error: string | null;
+  canGenerate: boolean;
+  onGenerate: () => void;
+  onJumpToTime: (seconds: number) => void;
+  onDownloadYouTube: () => void;
+  onDownloadVtt: () => void;
+}
+
+const ChapterToc: React.FC<ChapterTocProps> = ({
+  chapters,
+  isGenerating,
+  progressMessage,
+  error,
+  canGenerate,
+  onGenerate,
+  onJumpToTime,
+  onDownloadYouTube,
+  onDownloadVtt
+}) => (
+  <div className="px-6 py-3 border-b border-slate-100">
+    <div className="flex items-center gap-3 flex-wrap text-xs sm:text-sm text-slate-600">
+      <ListTree className="w-4 h-4 text-indigo-600" />
+      <span className="font-medium text-slate-700">章節目錄</span>
+      <button
+        onClick={onGenerate}
+        disabled={!canGenerate || isGenerating}
+        className="text-indigo-600 hover:text-indigo-800 font-medium px-3 py-1 bg-indigo-50 rounded-lg hover:bg-indigo-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-1"
+      >
+        {isGenerating && <Loader2 className="w-4 h-4 animate-spin" />}
+        {isGenerating ? progressMessage || '分析中...' : chapters.length > 0 ? '重新產生' : '產生章節'}
+      </button>
+      {chapters.length > 0 && (
+        <div className="flex items-center gap-2 ml-auto">
+          <button
+            onClick={onDownloadYouTube}
+            className="text-slate-600 hover:text-indigo-700 flex items-center gap-1"
+            title="YouTube 說明欄章節格式"
+          >
+            <Youtube className="w-4 h-4" />
+            YouTube 章節
+          </button>
+          <button
+            onClick={onDownloadVtt}
+            className="text-slate-600 hover:text-indigo-700 flex items-center gap-1"
+            title="WebVTT 章節軌"
+          >
+            <FileDown className="w-4 h-4" />
+            .vtt
+          </button>
+        </div>
+      )}
+    </div>
+    {error && <p className="text-xs text-red-500 mt-2">{error}</p>}
+    {chapters.length > 0 && (
+      <ol className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+        {chapters.map((chapter, index) => (
+          <li key={index}>
+            <button
+              onClick={() => onJumpToTime(chapter.startTimeSeconds)}
+              className="w-full text-left flex items-baseline gap-2 hover:text-indigo-700 text-slate-700"
+            >
+              <span className="font-mono text-xs text-indigo-600 w-14 flex-shrink-0">{formatTime(chapter.startTimeSeconds)}</span>
+              <span className="truncate">{chapter.title}</span>
+            </button>
+          </li>
+        ))}
+      </ol>
+    )}
+  </div>
+);
+
+export default ChapterToc;
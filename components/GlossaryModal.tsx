@@ -0,0 +1,164 @@
+import React, { useState, useEffect } from 'react';
+import { BookOpen, Save, X, Plus, Trash2, Wand2 } from 'lucide-react';
+import { GlossaryTerm } from '../types';
+
+interface GlossaryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (glossary: GlossaryTerm[]) => void;
+  onApplyToTranscript: (glossary: GlossaryTerm[]) => void;
+  currentGlossary: GlossaryTerm[];
+  hasTranscript: boolean;
+}
+
+// 编辑时别名以逗号分隔的字串呈现
+interface DraftTerm {
+  id: string;
+  term: string;
+  aliases: string;
+  description: string;
+}
+
+const inputClass = "w-full px-2 py-1.5 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all text-sm";
+
+const toDraft = (term: GlossaryTerm): DraftTerm => ({ ...term, aliases: term.aliases.join(', ') });
+
+const fromDraft = (draft: DraftTerm): GlossaryTerm => ({
+  id: draft.id,
+  term: draft.term.trim(),
+  aliases: draft.aliases.split(/[,，、]/).map(alias => alias.trim()).filter(alias => alias && alias !== draft.term.trim()),
+  description: draft.description.trim()
+});
+
+const GlossaryModal: React.FC<GlossaryModalProps> = ({ isOpen, onClose, onSave, onApplyToTranscript, currentGlossary, hasTranscript }) => {
+  const [drafts, setDrafts] = useState<DraftTerm[]>([]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setDrafts(currentGlossary.map(toDraft));
+    }
+  }, [isOpen, currentGlossary]);
+
+  if (!isOpen) return null;
+
+  const updateDraft = (id: string, field: keyof Omit<DraftTerm, 'id'>, value: string) => {
+    setDrafts(prev => prev.map(draft => draft.id === id ? { ...draft, [field]: value } : draft));
+  };
+
+  const addDraft = () => {
+    setDrafts(prev => [...prev, { id: crypto.randomUUID(), term: '', aliases: '', description: '' }]);
+  };
+
+  const removeDraft = (id: string) => {
+    setDrafts(prev => prev.filter(draft => draft.id !== id));
+  };
+
+  const collect = () => drafts.map(fromDraft).filter(term => term.term);
+
+  const handleSave = () => {
+    onSave(collect());
+    onClose();
+  };
+
+  const handleApply = () => {
+    const glossary = collect();
+    onSave(glossary);
+    onApplyToTranscript(glossary);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl overflow-hidden animate-fade-in">
+        <div className="bg-indigo-600 px-6 py-4 flex justify-between items-center">
+          <h3 className="text-white font-bold text-lg flex items-center gap-2">
+            <BookOpen className="w-5 h-5" />
+            專有名詞詞彙表
+          </h3>
+          <button onClick={onClose} className="text-white/80 hover:text-white transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6">
+          <p className="text-slate-600 text-sm mb-4">
+            詞彙表會提供給模型參考，並在轉錄後將別名統一為標準寫法。資料僅儲存於瀏覽器 LocalStorage。
+          </p>
+
+          <div className="max-h-[50vh] overflow-y-auto space-y-2 mb-4">
+            {drafts.length === 0 && (
+              <p className="text-sm text-slate-400 text-center py-6">尚未加入任何詞彙</p>
+            )}
+            {drafts.map(draft => (
+              <div key={draft.id} className="grid grid-cols-12 gap-2 items-center">
+                <input
+                  type="text"
+                  value={draft.term}
+                  onChange={(e) => updateDraft(draft.id, 'term', e.target.value)}
+                  placeholder="標準寫法"
+                  className={`${inputClass} col-span-3`}
+                />
+                <input
+                  type="text"
+                  value={draft.aliases}
+                  onChange={(e) => updateDraft(draft.id, 'aliases', e.target.value)}
+                  placeholder="別名，以逗號分隔"
+                  className={`${inputClass} col-span-4`}
+                />
+                <input
+                  type="text"
+                  value={draft.description}
+                  onChange={(e) => updateDraft(draft.id, 'description', e.target.value)}
+                  placeholder="說明（選填）"
+                  className={`${inputClass} col-span-4`}
+                />
+                <button
+                  onClick={() => removeDraft(draft.id)}
+                  className="col-span-1 text-slate-400 hover:text-red-500 flex justify-center"
+                  title="刪除"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <button
+            onClick={addDraft}
+            className="text-sm text-indigo-600 hover:text-indigo-800 flex items-center gap-1 mb-6"
+          >
+            <Plus className="w-4 h-4" />
+            新增詞彙
+          </button>
+
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors font-medium"
+            >
+              取消
+            </button>
+            {hasTranscript && (
+              <button
+                onClick={handleApply}
+                className="px-4 py-2 text-indigo-600 bg-indigo-50 hover:bg-indigo-100 rounded-lg transition-colors font-medium flex items-center gap-2"
+              >
+                <Wand2 className="w-4 h-4" />
+                儲存並套用至逐字稿
+              </button>
+            )}
+            <button
+              onClick={handleSave}
+              className="px-6 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white rounded-lg shadow-md transition-colors font-medium flex items-center gap-2"
+            >
+              <Save className="w-4 h-4" />
+              儲存
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GlossaryModal;
@@ -0,0 +1,119 @@
+import React from 'react';
+import { ClipboardList, Loader2, FileDown } from 'lucide-react';
+import { MeetingMinutes, MinutesItem } from '../types';
+import { formatTime } from '../utils/audioUtils';
+
+interface MinutesPanelProps {
+  minutes: MeetingMinutes | null;
+  isGenerating: boolean;
+  progressMessage: string;
+  error: string | null;
+  canGenerate: boolean;
+  onGenerate: () => void;
+  onDownload: () => void;
+  onJumpToTime: (seconds: number) => void;
+}
+
+const SourceLinks: React.FC<{ times: number[]; onJumpToTime: (seconds: number) => void }> = ({ times, onJumpToTime }) => (
+  <span className="inline-flex flex-wrap gap-1 ml-2 align-middle">
+    {times.map(time => (
+      <button
+        key={time}
+        onClick={() => onJumpToTime(time)}
+        className="text-[11px] font-mono text-indigo-600 bg-indigo-50 hover:bg-indigo-100 px-1.5 rounded"
+        title="跳至逐字稿"
+      >
+        {formatTime(time)}
+      </button>
+    ))}
+  </span>
+);
+
+const ItemList: React.FC<{ title: string; items: MinutesItem[]; onJumpToTime: (seconds: number) => void }> = ({ title, items, onJumpToTime }) => (
+  <div>
+    <h4 className="text-sm font-semibold text-slate-700 mb-1">{title}</h4>
+    {items.length === 0 ? (
+      <p className="text-sm text-slate-400">無</p>
+    ) : (
+      <ul className="list-disc pl-5 space-y-1 text-sm text-slate-700">
+        {items.map((item, index) => (
+          <li key={index}>
+            {item.text}
+            <SourceLinks times={item.sourceTimes} onJumpToTime={onJumpToTime} />
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+const MinutesPanel: React.FC<MinutesPanelProps> = ({
+  minutes,
+  isGenerating,
+  progressMessage,
+  error,
+  canGenerate,
+  onGenerate,
+  onDownload,
+  onJumpToTime
+}) => (
+  <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4">
+    <div className="flex items-center justify-between gap-2 flex-wrap">
+      <h3 className="font-bold text-slate-700 flex items-center gap-2">
+        <ClipboardList className="w-5 h-5 text-indigo-600" />
+        會議記錄
+      </h3>
+      <div className="flex items-center gap-2">
+        {minutes && (
+          <button
+            onClick={onDownload}
+            className="text-xs sm:text-sm text-indigo-600 hover:text-indigo-800 font-medium px-3 py-1.5 bg-indigo-50 rounded-lg hover:bg-indigo-100 transition-colors flex items-center gap-1"
+          >
+            <FileDown className="w-4 h-4" />
+            下載 .md
+          </button>
+        )}
+        <button
+          onClick={onGenerate}
+          disabled={!canGenerate || isGenerating}
+          className="text-xs sm:text-sm text-white hover:bg-indigo-700 font-medium px-3 py-1.5 bg-indigo-600 rounded-lg transition-colors flex items-center gap-1 shadow-sm disabled:bg-slate-300 disabled:cursor-not-allowed"
+        >
+          {isGenerating && <Loader2 className="w-4 h-4 animate-spin" />}
+          {isGenerating ? progressMessage || '產生中...' : minutes ? '重新產生' : '產生會議記錄'}
+        </button>
+      </div>
+    </div>
+
+    {error && <p className="text-xs text-red-500 mt-2">{error}</p>}
+
+    {minutes && (
+      <div className="mt-4 space-y-4">
+        <div>
+          <h4 className="text-sm font-semibold text-slate-700 mb-1">摘要</h4>
+          <p className="text-sm text-slate-700 whitespace-pre-wrap leading-relaxed">{minutes.summary}</p>
+        </div>
+        <ItemList title="決議事項" items={minutes.decisions} onJumpToTime={onJumpToTime} />
+        <div>
+          <h4 className="text-sm font-semibold text-slate-700 mb-1">待辦事項</h4>
+          {minutes.actionItems.length === 0 ? (
+            <p className="text-sm text-slate-400">無</p>
+          ) : (
+            <ul className="space-y-1 text-sm text-slate-700">
+              {minutes.actionItems.map((item, index) => (
+                <li key={index} className="flex flex-wrap items-baseline gap-x-2">
+                  <span>☐ {item.text}</span>
+                  {item.owner && <span className="text-xs bg-slate-100 px-1.5 rounded">負責人：{item.owner}</span>}
+                  {item.dueDate && <span className="text-xs bg-amber-50 text-amber-700 px-1.5 rounded">期限：{item.dueDate}</span>}
+                  <SourceLinks times={item.sourceTimes} onJumpToTime={onJumpToTime} />
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <ItemList title="待釐清問題" items={minutes.openQuestions} onJumpToTime={onJumpToTime} />
+      </div>
+    )}
+  </div>
+);
+
+export default MinutesPanel;
@@ -0,0 +1,98 @@
+import React, { useState, useEffect } from 'react';
+import { SlidersHorizontal, Save, X } from 'lucide-react';
+import { DEFAULT_PRICING, PricingSettings } from '../utils/usageTracking';
+
+interface PricingModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (pricing: PricingSettings) => void;
+  currentPricing: PricingSettings;
+}
+
+const FIELDS: { key: keyof PricingSettings; label: string }[] = [
+  { key: 'audioInputPerMillion', label: '音訊輸入 (每百萬 tokens, USD)' },
+  { key: 'textInputPerMillion', label: '文字輸入 (每百萬 tokens, USD)' },
+  { key: 'outputPerMillion', label: '輸出 (每百萬 tokens, USD)' },
+  { key: 'dailyBudget', label: '每日預算 (USD，0 = 不限制)' }
+];
+
+const inputClass = "w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all text-sm";
+
+const PricingModal: React.FC<PricingModalProps> = ({ isOpen, onClose, onSave, currentPricing }) => {
+  const [draft, setDraft] = useState<PricingSettings>(currentPricing);
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(currentPricing);
+    }
+  }, [isOpen, currentPricing]);
+
+  if (!isOpen) return null;
+
+  const handleSave = () => {
+    onSave(draft);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md overflow-hidden animate-fade-in">
+        <div className="bg-indigo-600 px-6 py-4 flex justify-between items-center">
+          <h3 className="text-white font-bold text-lg flex items-center gap-2">
+            <SlidersHorizontal className="w-5 h-5" />
+            價格與預算
+          </h3>
+          <button onClick={onClose} className="text-white/80 hover:text-white transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-slate-600 text-sm">
+            用量依 API 回傳的實際 token 數計算，費用為依下列單價的估算值。超過每日預算前會先提醒。
+          </p>
+
+          {FIELDS.map(field => (
+            <div key={field.key}>
+              <label className="block text-xs font-medium text-slate-600 mb-1">{field.label}</label>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={draft[field.key]}
+                onChange={(e) => setDraft(prev => ({ ...prev, [field.key]: Math.max(0, Number(e.target.value) || 0) }))}
+                className={inputClass}
+              />
+            </div>
+          ))}
+
+          <div className="flex justify-between gap-3 pt-2">
+            <button
+              onClick={() => setDraft(DEFAULT_PRICING)}
+              className="px-4 py-2 text-slate-500 hover:bg-slate-100 rounded-lg transition-colors text-sm"
+            >
+              恢復預設
+            </button>
+            <div className="flex gap-3">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors font-medium"
+              >
+                取消
+              </button>
+              <button
+                onClick={handleSave}
+                className="px-6 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white rounded-lg shadow-md transition-colors font-medium flex items-center gap-2"
+              >
+                <Save className="w-4 h-4" />
+                儲存
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PricingModal;
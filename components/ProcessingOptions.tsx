@@ -0,0 +1,123 @@
+import React from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { ProcessingSettings, ChunkingMode, UploadFormat, MAX_CONCURRENCY } from '../utils/processingSettings';
+
+interface ProcessingOptionsProps {
+  settings: ProcessingSettings;
+  onChange: (settings: ProcessingSettings) => void;
+  disabled: boolean;
+}
+
+const selectClass = "border border-slate-300 rounded-lg px-2 py-1 text-sm focus:ring-2 focus:ring-indigo-500 outline-none disabled:bg-slate-100";
+
+const ProcessingOptions: React.FC<ProcessingOptionsProps> = ({ settings, onChange, disabled }) => {
+  const update = <K extends keyof ProcessingSettings>(field: K, value: ProcessingSettings[K]) => {
+    onChange({ ...settings, [field]: value });
+  };
+
+  return (
+    <div className="mt-4 flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-slate-600">
+      <SlidersHorizontal className="w-4 h-4 text-slate-400" />
+      <label className="flex items-center gap-2">
+        並行片段數
+        <select
+          value={settings.concurrency}
+          onChange={(e) => update('concurrency', Number(e.target.value))}
+          disabled={disabled}
+          className={selectClass}
+        >
+          {Array.from({ length: MAX_CONCURRENCY }, (_, i) => i + 1).map(n => (
+            <option key={n} value={n}>{n}</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-2">
+        切割方式
+        <select
+          value={settings.chunkingMode}
+          onChange={(e) => update('chunkingMode', e.target.value as ChunkingMode)}
+          disabled={disabled}
+          className={selectClass}
+        >
+          <option value="fixed">固定長度</option>
+          <option value="silence">對齊停頓</option>
+          <option value="overlap">重疊去重</option>
+        </select>
+      </label>
+      {settings.chunkingMode === 'silence' && (
+        <label className="flex items-center gap-2">
+          搜尋範圍 ±
+          <input
+            type="number"
+            min={1}
+            max={60}
+            value={settings.silenceSearchSeconds}
+            onChange={(e) => update('silenceSearchSeconds', Math.min(60, Math.max(1, Number(e.target.value) || 1)))}
+            disabled={disabled}
+            className={`${selectClass} w-16`}
+          />
+          秒
+        </label>
+      )}
+      {settings.chunkingMode === 'overlap' && (
+        <label className="flex items-center gap-2">
+          重疊
+          <input
+            type="number"
+            min={1}
+            max={30}
+            value={settings.overlapSeconds}
+            onChange={(e) => update('overlapSeconds', Math.min(30, Math.max(1, Number(e.target.value) || 1)))}
+            disabled={disabled}
+            className={`${selectClass} w-16`}
+          />
+          秒
+        </label>
+      )}
+      <label className="flex items-center gap-1.5 cursor-pointer select-none" title="將前一片段的說話者與結尾內容提供給模型，並在完成後比對統一標籤">
+        <input
+          type="checkbox"
+          checked={settings.speakerContinuity}
+          onChange={(e) => update('speakerContinuity', e.target.checked)}
+          disabled={disabled}
+          className="accent-indigo-600 w-4 h-4"
+        />
+        跨片段統一說話者
+      </label>
+      <label className="flex items-center gap-2" title="上傳前一律轉為單聲道 16 kHz">
+        上傳格式
+        <select
+          value={settings.uploadFormat}
+          onChange={(e) => update('uploadFormat', e.target.value as UploadFormat)}
+          disabled={disabled}
+          className={selectClass}
+        >
+          <option value="flac">FLAC (無損壓縮)</option>
+          <option value="wav">WAV</option>
+        </select>
+      </label>
+      <label className="flex items-center gap-1.5 cursor-pointer select-none" title="將說話音量調整到一致的響度，適合收音較小聲的錄音">
+        <input
+          type="checkbox"
+          checked={settings.normalizeLoudness}
+          onChange={(e) => update('normalizeLoudness', e.target.checked)}
+          disabled={disabled}
+          className="accent-indigo-600 w-4 h-4"
+        />
+        音量正規化
+      </label>
+      <label className="flex items-center gap-1.5 cursor-pointer select-none" title="濾除 80 Hz 以下的低頻噪音，例如冷氣聲與麥克風碰撞聲">
+        <input
+          type="checkbox"
+          checked={settings.highPassFilter}
+          onChange={(e) => update('highPassFilter', e.target.checked)}
+          disabled={disabled}
+          className="accent-indigo-600 w-4 h-4"
+        />
+        低頻濾波
+      </label>
+    </div>
+  );
+};
+
+export default ProcessingOptions;
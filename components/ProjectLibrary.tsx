@@ -0,0 +1,170 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { FolderOpen, X, Copy, Trash2, Pencil, Loader2 } from 'lucide-react';
+import { Project, listProjects, renameProject, duplicateProject, deleteProject } from '../utils/projectStore';
+
+interface ProjectLibraryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onOpenProject: (project: Project) => void;
+  onProjectRenamed: (id: string, name: string) => void;
+  onProjectDeleted: (id: string) => void;
+  currentProjectId: string | null;
+}
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString('zh-TW', { hour12: false });
+
+const ProjectLibrary: React.FC<ProjectLibraryProps> = ({
+  isOpen,
+  onClose,
+  onOpenProject,
+  onProjectRenamed,
+  onProjectDeleted,
+  currentProjectId
+}) => {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [isLoading, setLoading] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      setProjects(await listProjects());
+      setError(null);
+    } catch (err) {
+      console.error('Failed to list projects:', err);
+      setError('無法讀取專案庫，瀏覽器可能停用了 IndexedDB');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      refresh();
+    }
+  }, [isOpen, refresh]);
+
+  if (!isOpen) return null;
+
+  const handleRename = async (project: Project, value: string) => {
+    setEditingId(null);
+    const name = value.trim();
+    if (!name || name === project.name) return;
+    try {
+      await renameProject(project.id, name);
+      onProjectRenamed(project.id, name);
+      refresh();
+    } catch (err) {
+      console.error('Failed to rename project:', err);
+      setError(`無法重新命名專案「${project.name}」，請稍後再試`);
+    }
+  };
+
+  const handleDuplicate = async (project: Project) => {
+    try {
+      await duplicateProject(project.id);
+      refresh();
+    } catch (err) {
+      console.error('Failed to duplicate project:', err);
+      setError(`無法複製專案「${project.name}」，瀏覽器的儲存空間可能已滿`);
+    }
+  };
+
+  const handleDelete = async (project: Project) => {
+    if (!window.confirm(`確定要刪除專案「${project.name}」嗎？此動作無法復原。`)) return;
+    try {
+      await deleteProject(project.id);
+      onProjectDeleted(project.id);
+      refresh();
+    } catch (err) {
+      console.error('Failed to delete project:', err);
+      setError(`無法刪除專案「${project.name}」，請稍後再試`);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl overflow-hidden animate-fade-in">
+        <div className="bg-indigo-600 px-6 py-4 flex justify-between items-center">
+          <h3 className="text-white font-bold text-lg flex items-center gap-2">
+            <FolderOpen className="w-5 h-5" />
+            專案庫
+          </h3>
+          <button onClick={onClose} className="text-white/80 hover:text-white transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 max-h-[70vh] overflow-y-auto">
+          {error && <p className="text-sm text-red-500 mb-4">{error}</p>}
+          {isLoading && projects.length === 0 ? (
+            <div className="flex justify-center py-10">
+              <Loader2 className="w-6 h-6 text-indigo-400 animate-spin" />
+            </div>
+          ) : projects.length === 0 ? (
+            <p className="text-sm text-slate-400 text-center py-10">尚無專案，完成或中斷的轉錄都會自動保存在這裡。</p>
+          ) : (
+            <div className="divide-y divide-slate-100">
+              {projects.map(project => (
+                <div key={project.id} className={`py-3 flex items-center gap-3 ${project.id === currentProjectId ? 'bg-indigo-50/50' : ''}`}>
+                  <div className="flex-grow min-w-0">
+                    {editingId === project.id ? (
+                      <input
+                        autoFocus
+                        type="text"
+                        defaultValue={project.name}
+                        onBlur={(e) => handleRename(project, e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') e.currentTarget.blur();
+                          if (e.key === 'Escape') setEditingId(null);
+                        }}
+                        className="w-full font-medium text-slate-800 border-b border-indigo-400 focus:outline-none"
+                      />
+                    ) : (
+                      <button
+                        onClick={() => {
+                          onOpenProject(project);
+                          onClose();
+                        }}
+                        className="font-medium text-slate-800 hover:text-indigo-700 truncate block max-w-full text-left"
+                      >
+                        {project.name}
+                      </button>
+                    )}
+                    <div className="text-xs text-slate-500 flex flex-wrap gap-x-3 mt-0.5">
+                      <span className="truncate max-w-[200px]">{project.fileName}</span>
+                      <span>{(project.fileSize / 1024 / 1024).toFixed(1)} MB</span>
+                      <span>{project.transcripts.length} 句</span>
+                      <span>更新於 {formatDate(project.updatedAt)}</span>
+                    </div>
+                  </div>
+                  <span className={`text-xs px-2 py-0.5 rounded-full whitespace-nowrap ${
+                    project.status === 'completed' ? 'bg-green-50 text-green-700' : 'bg-amber-50 text-amber-700'
+                  }`}>
+                    {project.status === 'completed'
+                      ? '已完成'
+                      : `進行中 ${project.completedChunks.length}/${project.totalChunks || '?'}`}
+                  </span>
+                  <div className="flex items-center gap-1 text-slate-400">
+                    <button onClick={() => setEditingId(project.id)} className="p-1 hover:text-indigo-600" title="重新命名">
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => handleDuplicate(project)} className="p-1 hover:text-indigo-600" title="建立副本">
+                      <Copy className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => handleDelete(project)} className="p-1 hover:text-red-500" title="刪除">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectLibrary;
@@ -0,0 +1,176 @@
+import React, { useState, useEffect } from 'react';
+import { Server, Save, X } from 'lucide-react';
+import { ProviderConfig, ProviderType } from '../services/transcriptionProvider';
+import { MODEL_NAME } from '../services/geminiService';
+
+interface ProviderSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (config: ProviderConfig) => void;
+  currentConfig: ProviderConfig;
+}
+
+export const PROVIDER_OPTIONS: { value: ProviderType; label: string; description: string }[] = [
+  { value: 'gemini', label: 'Google Gemini', description: '使用 Gemini API 轉錄並辨識說話者（需 API Key）' },
+  { value: 'openai-compatible', label: 'OpenAI 相容 API', description: '連線至 OpenAI 或自建的 Whisper 類伺服器 (/audio/transcriptions)' },
+  { value: 'mock', label: '離線模擬', description: '不連網、不耗額度，產生固定的模擬逐字稿，供開發測試使用' }
+];
+
+const inputClass = "w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all text-sm";
+
+const ProviderSettingsModal: React.FC<ProviderSettingsModalProps> = ({ isOpen, onClose, onSave, currentConfig }) => {
+  const [draft, setDraft] = useState<ProviderConfig>(currentConfig);
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(currentConfig);
+    }
+  }, [isOpen, currentConfig]);
+
+  if (!isOpen) return null;
+
+  const update = <K extends keyof ProviderConfig>(field: K, value: ProviderConfig[K]) => {
+    setDraft(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSave = () => {
+    onSave({
+      ...draft,
+      geminiModel: draft.geminiModel.trim(),
+      openAiBaseUrl: draft.openAiBaseUrl.trim(),
+      openAiModel: draft.openAiModel.trim()
+    });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md overflow-hidden animate-fade-in">
+        <div className="bg-indigo-600 px-6 py-4 flex justify-between items-center">
+          <h3 className="text-white font-bold text-lg flex items-center gap-2">
+            <Server className="w-5 h-5" />
+            轉錄引擎設定
+          </h3>
+          <button onClick={onClose} className="text-white/80 hover:text-white transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="space-y-2">
+            {PROVIDER_OPTIONS.map(option => (
+              <label
+                key={option.value}
+                className={`flex items-start gap-3 p-3 border rounded-lg cursor-pointer transition-colors ${
+                  draft.type === option.value ? 'border-indigo-500 bg-indigo-50' : 'border-slate-200 hover:bg-slate-50'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="provider"
+                  checked={draft.type === option.value}
+                  onChange={() => update('type', option.value)}
+                  className="accent-indigo-600 mt-1"
+                />
+                <div>
+                  <div className="font-medium text-slate-800 text-sm">{option.label}</div>
+                  <div className="text-xs text-slate-500">{option.description}</div>
+                </div>
+              </label>
+            ))}
+          </div>
+
+          {draft.type === 'gemini' && (
+            <div>
+              <label className="block text-xs font-medium text-slate-600 mb-1">轉錄模型</label>
+              <input
+                type="text"
+                value={draft.geminiModel}
+                onChange={(e) => update('geminiModel', e.target.value)}
+                placeholder={MODEL_NAME}
+                className={inputClass}
+              />
+            </div>
+          )}
+
+          {draft.type === 'openai-compatible' && (
+            <div className="space-y-3">
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">Base URL</label>
+                <input
+                  type="text"
+                  value={draft.openAiBaseUrl}
+                  onChange={(e) => update('openAiBaseUrl', e.target.value)}
+                  placeholder="http://localhost:8000/v1"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">模型名稱</label>
+                <input
+                  type="text"
+                  value={draft.openAiModel}
+                  onChange={(e) => update('openAiModel', e.target.value)}
+                  placeholder="whisper-1"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">API Key（自建伺服器可留空）</label>
+                <input
+                  type="password"
+                  value={draft.openAiApiKey}
+                  onChange={(e) => update('openAiApiKey', e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          )}
+
+          {draft.type === 'mock' && (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">模擬延遲 (ms)</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={draft.mockLatencyMs}
+                  onChange={(e) => update('mockLatencyMs', Math.max(0, Number(e.target.value) || 0))}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">每 N 個片段失敗一次</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={draft.mockFailEvery}
+                  onChange={(e) => update('mockFailEvery', Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors font-medium"
+            >
+              取消
+            </button>
+            <button
+              onClick={handleSave}
+              className="px-6 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white rounded-lg shadow-md transition-colors font-medium flex items-center gap-2"
+            >
+              <Save className="w-4 h-4" />
+              儲存
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProviderSettingsModal;
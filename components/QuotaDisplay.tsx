@@ -1,19 +1,28 @@
 import React from 'react';
-import { CreditCard, AlertTriangle } from 'lucide-react';
+import { CreditCard, AlertTriangle, SlidersHorizontal } from 'lucide-react';
+import { TokenUsage } from '../types';
+import { PricingSettings, estimateCost, formatCost, getTotalTokens } from '../utils/usageTracking';
 
 interface QuotaDisplayProps {
-  quotaPercentage: number; // 0 to 100
   apiKey: string;
+  todayUsage: TokenUsage; // 今日所有金钥合计
+  projectUsage: TokenUsage | null; // 目前专案累计，没有开启专案时为 null
+  pricing: PricingSettings;
+  usageUnavailable?: boolean; // 目前的后端只回报请求次数，没有 token 用量
+  onEditPricing: () => void;
 }
 
-const QuotaDisplay: React.FC<QuotaDisplayProps> = ({ quotaPercentage, apiKey }) => {
+const QuotaDisplay: React.FC<QuotaDisplayProps> = ({ apiKey, todayUsage, projectUsage, pricing, usageUnavailable, onEditPricing }) => {
   // Safe extraction of last 4 digits
   const lastFour = apiKey && apiKey.length > 4 ? apiKey.slice(-4) : '****';
-  
+
+  const todayCost = estimateCost(todayUsage, pricing);
+  const usedPercentage = pricing.dailyBudget > 0 ? Math.min(100, (todayCost / pricing.dailyBudget) * 100) : 0;
+
   // Determine color based on usage
   let colorClass = "bg-green-500";
-  if (quotaPercentage < 30) colorClass = "bg-orange-500";
-  if (quotaPercentage < 10) colorClass = "bg-red-600";
+  if (usedPercentage > 70) colorClass = "bg-orange-500";
+  if (usedPercentage > 90) colorClass = "bg-red-600";
 
   return (
     <div className="bg-white rounded-lg shadow-sm border border-slate-200 p-4 flex flex-col gap-3">
@@ -22,20 +31,47 @@ const QuotaDisplay: React.FC<QuotaDisplayProps> = ({ quotaPercentage, apiKey })
           <CreditCard className="w-4 h-4" />
           API Key: <span className="font-mono bg-slate-100 px-1 rounded text-slate-800">...{lastFour}</span>
         </span>
-        <span className="font-medium">{quotaPercentage}% 額度</span>
+        <button onClick={onEditPricing} className="text-slate-400 hover:text-indigo-600" title="價格與預算">
+          <SlidersHorizontal className="w-4 h-4" />
+        </button>
       </div>
 
-      <div className="h-2.5 w-full bg-slate-100 rounded-full overflow-hidden">
-        <div 
-          className={`h-full ${colorClass} transition-all duration-500`} 
-          style={{ width: `${quotaPercentage}%` }}
-        />
+      <div className="text-sm text-slate-600">
+        <div className="flex justify-between">
+          <span>今日用量</span>
+          <span className="font-medium text-slate-800">
+            {formatCost(todayCost)}
+            {pricing.dailyBudget > 0 && <span className="text-slate-400 font-normal"> / {formatCost(pricing.dailyBudget)}</span>}
+          </span>
+        </div>
+        <div className="text-xs text-slate-400 mt-0.5">
+          {getTotalTokens(todayUsage).toLocaleString()} tokens · {todayUsage.requests} 次請求
+        </div>
+        {usageUnavailable && (
+          <div className="text-xs text-amber-600 mt-0.5">目前的轉錄 API 未回報用量，費用僅供參考</div>
+        )}
       </div>
 
-      {quotaPercentage < 20 && (
+      {pricing.dailyBudget > 0 && (
+        <div className="h-2.5 w-full bg-slate-100 rounded-full overflow-hidden">
+          <div
+            className={`h-full ${colorClass} transition-all duration-500`}
+            style={{ width: `${usedPercentage}%` }}
+          />
+        </div>
+      )}
+
+      {projectUsage && projectUsage.requests > 0 && (
+        <div className="text-xs text-slate-500 border-t border-slate-100 pt-2">
+          此專案：{formatCost(estimateCost(projectUsage, pricing))} ·
+          音訊 {projectUsage.audioTokens.toLocaleString()} / 文字 {projectUsage.inputTokens.toLocaleString()} / 輸出 {projectUsage.outputTokens.toLocaleString()} tokens
+        </div>
+      )}
+
+      {usedPercentage >= 80 && (
         <div className="flex items-start gap-2 text-xs text-red-600 bg-red-50 p-2 rounded animate-pulse">
           <AlertTriangle className="w-4 h-4 shrink-0" />
-          <span>API 額度即將不足，請留意您的使用量或切換 Key。</span>
+          <span>今日用量即將超過預算，請留意您的使用量或切換 Key。</span>
         </div>
       )}
     </div>
@@ -0,0 +1,201 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { RotateCcw, Loader2, FileAudio } from 'lucide-react';
+import { TranscriptSegment, TranscriptionSettings } from '../types';
+import { ProviderConfig, ProviderType } from '../services/transcriptionProvider';
+import { formatTime, parseTimeStringToSeconds } from '../utils/audioUtils';
+import { PROVIDER_OPTIONS } from './ProviderSettingsModal';
+import TranscriptionSettingsForm from './TranscriptionSettingsForm';
+
+export type RetranscribeTarget =
+  | { kind: 'chunk'; chunkIndex: number; startTimeSeconds: number }
+  | { kind: 'range'; startSeconds: number; endSeconds: number };
+
+export interface RetranscribeOverrides {
+  providerConfig?: ProviderConfig;
+  transcriptionSettings?: TranscriptionSettings;
+}
+
+interface RetranscribePanelProps {
+  transcripts: TranscriptSegment[];
+  hasSourceAudio: boolean;
+  onAttachSourceFile: (file: File) => void;
+  onRetranscribe: (target: RetranscribeTarget, overrides: RetranscribeOverrides) => void;
+  providerConfig: ProviderConfig;
+  transcriptionSettings: TranscriptionSettings;
+  isRetranscribing: boolean;
+  progress: string;
+  disabled: boolean; // 整份转录进行中时不可使用
+  error: string | null;
+}
+
+const inputClass = "w-24 border border-slate-300 rounded-lg px-2 py-1 text-sm font-mono focus:ring-2 focus:ring-indigo-500 outline-none disabled:bg-slate-100";
+
+const getModelName = (config: ProviderConfig) =>
+  config.type === 'openai-compatible' ? config.openAiModel : config.type === 'gemini' ? config.geminiModel : '';
+
+const RetranscribePanel: React.FC<RetranscribePanelProps> = ({
+  transcripts,
+  hasSourceAudio,
+  onAttachSourceFile,
+  onRetranscribe,
+  providerConfig,
+  transcriptionSettings,
+  isRetranscribing,
+  progress,
+  disabled,
+  error
+}) => {
+  const [rangeStart, setRangeStart] = useState('');
+  const [rangeEnd, setRangeEnd] = useState('');
+  const [useOverrides, setUseOverrides] = useState(false);
+  const [overrideConfig, setOverrideConfig] = useState<ProviderConfig>(providerConfig);
+  const [overrideSettings, setOverrideSettings] = useState<TranscriptionSettings>(transcriptionSettings);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const failedChunks = useMemo(() => transcripts
+    .filter(segment => segment.speaker === 'System' && segment.chunkIndex !== undefined)
+    .map(segment => ({ chunkIndex: segment.chunkIndex!, startTimeSeconds: segment.startTimeSeconds })), [transcripts]);
+
+  const startSeconds = parseTimeStringToSeconds(rangeStart);
+  const endSeconds = parseTimeStringToSeconds(rangeEnd);
+  const isRangeValid = rangeStart.trim() !== '' && rangeEnd.trim() !== '' && endSeconds > startSeconds;
+  const isBusy = disabled || isRetranscribing;
+
+  const overrides = (): RetranscribeOverrides => useOverrides
+    ? { providerConfig: overrideConfig, transcriptionSettings: overrideSettings }
+    : {};
+
+  const setOverrideModel = (model: string) => {
+    setOverrideConfig(prev => prev.type === 'openai-compatible'
+      ? { ...prev, openAiModel: model }
+      : { ...prev, geminiModel: model });
+  };
+
+  return (
+    <details className="px-6 py-3 border-b border-slate-100 text-sm text-slate-600" open={failedChunks.length > 0}>
+      <summary className="cursor-pointer select-none flex items-center gap-2 font-medium">
+        <RotateCcw className="w-4 h-4 text-indigo-600" />
+        重新轉錄
+        {failedChunks.length > 0 && (
+          <span className="text-xs bg-red-50 text-red-600 px-2 py-0.5 rounded-full">{failedChunks.length} 個片段失敗</span>
+        )}
+      </summary>
+
+      <div className="mt-3 space-y-3">
+        {!hasSourceAudio && (
+          <div className="flex items-center gap-3 text-xs text-amber-700 bg-amber-50 rounded-lg px-3 py-2">
+            <span>需要原始音檔或影片才能重新轉錄。</span>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-1 font-medium text-indigo-600 hover:text-indigo-800"
+            >
+              <FileAudio className="w-4 h-4" />
+              選擇音檔
+            </button>
+            <input
+              type="file"
+              ref={fileInputRef}
+              accept="audio/*,video/*"
+              className="hidden"
+              onChange={(e) => {
+                if (e.target.files && e.target.files[0]) onAttachSourceFile(e.target.files[0]);
+                e.target.value = '';
+              }}
+            />
+          </div>
+        )}
+
+        {failedChunks.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {failedChunks.map(chunk => (
+              <button
+                key={chunk.chunkIndex}
+                onClick={() => onRetranscribe({ kind: 'chunk', ...chunk }, overrides())}
+                disabled={isBusy || !hasSourceAudio}
+                className="text-xs text-red-600 bg-red-50 hover:bg-red-100 px-3 py-1 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                重新轉錄片段 {chunk.chunkIndex + 1} ({formatTime(chunk.startTimeSeconds)})
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <span>時間範圍</span>
+          <input
+            type="text"
+            value={rangeStart}
+            onChange={(e) => setRangeStart(e.target.value)}
+            placeholder="00:00"
+            disabled={isBusy}
+            className={inputClass}
+          />
+          <span>至</span>
+          <input
+            type="text"
+            value={rangeEnd}
+            onChange={(e) => setRangeEnd(e.target.value)}
+            placeholder="05:00"
+            disabled={isBusy}
+            className={inputClass}
+          />
+          <button
+            onClick={() => onRetranscribe({ kind: 'range', startSeconds, endSeconds }, overrides())}
+            disabled={isBusy || !hasSourceAudio || !isRangeValid}
+            className="text-indigo-600 hover:text-indigo-800 font-medium px-3 py-1 bg-indigo-50 rounded-lg hover:bg-indigo-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-1"
+          >
+            {isRetranscribing && <Loader2 className="w-4 h-4 animate-spin" />}
+            {isRetranscribing ? progress || '轉錄中...' : '重新轉錄此範圍'}
+          </button>
+        </div>
+        <p className="text-xs text-slate-400">只會取代範圍內的句子，其他段落的編輯會保留。</p>
+
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={useOverrides}
+            onChange={(e) => {
+              setUseOverrides(e.target.checked);
+              setOverrideConfig(providerConfig);
+              setOverrideSettings(transcriptionSettings);
+            }}
+            disabled={isBusy}
+            className="accent-indigo-600"
+          />
+          使用不同的引擎或設定
+        </label>
+        {useOverrides && (
+          <div className="pl-6 space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                value={overrideConfig.type}
+                onChange={(e) => setOverrideConfig(prev => ({ ...prev, type: e.target.value as ProviderType }))}
+                disabled={isBusy}
+                className="border border-slate-300 rounded-lg px-2 py-1 text-sm focus:ring-2 focus:ring-indigo-500 outline-none disabled:bg-slate-100"
+              >
+                {PROVIDER_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              {overrideConfig.type !== 'mock' && (
+                <input
+                  type="text"
+                  value={getModelName(overrideConfig)}
+                  onChange={(e) => setOverrideModel(e.target.value)}
+                  placeholder="模型名稱"
+                  disabled={isBusy}
+                  className="border border-slate-300 rounded-lg px-2 py-1 text-sm font-mono focus:ring-2 focus:ring-indigo-500 outline-none disabled:bg-slate-100"
+                />
+              )}
+            </div>
+            <TranscriptionSettingsForm settings={overrideSettings} onChange={setOverrideSettings} disabled={isBusy} />
+          </div>
+        )}
+
+        {error && <p className="text-xs text-red-500">{error}</p>}
+      </div>
+    </details>
+  );
+};
+
+export default RetranscribePanel;
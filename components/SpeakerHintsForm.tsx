@@ -0,0 +1,93 @@
+import React from 'react';
+import { UserPlus, X } from 'lucide-react';
+import { SpeakerHints, KnownSpeaker } from '../types';
+
+interface SpeakerHintsFormProps {
+  hints: SpeakerHints;
+  onChange: (hints: SpeakerHints) => void;
+  disabled: boolean;
+}
+
+const inputClass = "border border-slate-300 rounded-lg px-2 py-1 text-sm focus:ring-2 focus:ring-indigo-500 outline-none disabled:bg-slate-100";
+
+const SpeakerHintsForm: React.FC<SpeakerHintsFormProps> = ({ hints, onChange, disabled }) => {
+  const updateSpeaker = (index: number, field: keyof KnownSpeaker, value: string) => {
+    const speakers = hints.speakers.map((speaker, i) => i === index ? { ...speaker, [field]: value } : speaker);
+    onChange({ ...hints, speakers });
+  };
+
+  const addSpeaker = () => {
+    onChange({ ...hints, speakers: [...hints.speakers, { role: '', name: '' }] });
+  };
+
+  const removeSpeaker = (index: number) => {
+    onChange({ ...hints, speakers: hints.speakers.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <details className="mt-4 text-sm text-slate-600 group">
+      <summary className="cursor-pointer select-none hover:text-slate-900">
+        說話者提示
+        {(hints.expectedCount > 0 || hints.speakers.length > 0) && (
+          <span className="ml-2 text-xs text-indigo-600">
+            {hints.expectedCount > 0 ? `${hints.expectedCount} 位` : ''}
+            {hints.speakers.length > 0 ? ` · 已知 ${hints.speakers.length} 人` : ''}
+          </span>
+        )}
+      </summary>
+      <div className="mt-3 space-y-3 pl-1">
+        <label className="flex items-center gap-2">
+          預計說話者人數
+          <input
+            type="number"
+            min={0}
+            max={20}
+            value={hints.expectedCount || ''}
+            placeholder="不確定"
+            onChange={(e) => onChange({ ...hints, expectedCount: Math.min(20, Math.max(0, Math.floor(Number(e.target.value) || 0))) })}
+            disabled={disabled}
+            className={`${inputClass} w-24`}
+          />
+        </label>
+        {hints.speakers.map((speaker, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={speaker.role}
+              onChange={(e) => updateSpeaker(index, 'role', e.target.value)}
+              placeholder="角色 (例如: 主持人)"
+              disabled={disabled}
+              className={`${inputClass} w-36`}
+            />
+            <input
+              type="text"
+              value={speaker.name}
+              onChange={(e) => updateSpeaker(index, 'name', e.target.value)}
+              placeholder="姓名 (例如: 王小明)"
+              disabled={disabled}
+              className={`${inputClass} flex-grow min-w-0`}
+            />
+            <button
+              onClick={() => removeSpeaker(index)}
+              disabled={disabled}
+              className="text-slate-400 hover:text-red-500 disabled:opacity-40"
+              title="移除"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={addSpeaker}
+          disabled={disabled}
+          className="text-xs text-indigo-600 hover:text-indigo-800 flex items-center gap-1 disabled:opacity-40"
+        >
+          <UserPlus className="w-4 h-4" />
+          新增已知說話者
+        </button>
+      </div>
+    </details>
+  );
+};
+
+export default SpeakerHintsForm;
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Users, Merge } from 'lucide-react';
+import { TranscriptSegment } from '../types';
+import { formatTime } from '../utils/audioUtils';
+import { summarizeSpeakers, getSpeakerColor } from '../utils/speakerUtils';
+
+interface SpeakerPanelProps {
+  transcripts: TranscriptSegment[];
+  speakerColors: Record<string, string>;
+  onRename: (from: string, to: string) => void;
+  onColorChange: (speaker: string, color: string) => void;
+}
+
+const SpeakerPanel: React.FC<SpeakerPanelProps> = ({ transcripts, speakerColors, onRename, onColorChange }) => {
+  const [mergeSource, setMergeSource] = useState<string | null>(null);
+  const speakers = summarizeSpeakers(transcripts);
+
+  if (speakers.length === 0) return null;
+
+  const commitRename = (from: string, value: string) => {
+    const to = value.trim();
+    if (to && to !== from) {
+      onRename(from, to);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4">
+      <h3 className="font-bold text-slate-700 flex items-center gap-2 mb-3">
+        <Users className="w-5 h-5 text-indigo-600" />
+        說話者
+        <span className="text-xs font-normal text-slate-400">修改名稱會套用到整份逐字稿</span>
+      </h3>
+      <div className="divide-y divide-slate-100">
+        {speakers.map(({ speaker, segmentCount, talkSeconds }) => (
+          <div key={speaker} className="flex items-center gap-3 py-2 text-sm">
+            <input
+              type="color"
+              value={getSpeakerColor(speaker, speakerColors)}
+              onChange={(e) => onColorChange(speaker, e.target.value)}
+              className="w-6 h-6 rounded cursor-pointer border-0 p-0 bg-transparent"
+              title="設定顏色"
+            />
+            <input
+              type="text"
+              defaultValue={speaker}
+              onBlur={(e) => commitRename(speaker, e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.currentTarget.blur();
+                }
+              }}
+              className="flex-grow min-w-0 font-medium text-slate-700 bg-transparent border-b border-transparent hover:border-slate-200 focus:border-indigo-400 focus:outline-none"
+            />
+            <span className="text-xs text-slate-500 whitespace-nowrap">{segmentCount} 句</span>
+            <span className="text-xs text-slate-500 font-mono whitespace-nowrap w-16 text-right">{formatTime(talkSeconds)}</span>
+            {mergeSource === speaker ? (
+              <select
+                autoFocus
+                defaultValue=""
+                onChange={(e) => {
+                  if (e.target.value) {
+                    onRename(speaker, e.target.value);
+                  }
+                  setMergeSource(null);
+                }}
+                onBlur={() => setMergeSource(null)}
+                className="border border-slate-300 rounded-lg px-2 py-1 text-xs focus:ring-2 focus:ring-indigo-500 outline-none"
+              >
+                <option value="">合併至...</option>
+                {speakers.filter(s => s.speaker !== speaker).map(s => (
+                  <option key={s.speaker} value={s.speaker}>{s.speaker}</option>
+                ))}
+              </select>
+            ) : (
+              <button
+                onClick={() => setMergeSource(speaker)}
+                disabled={speakers.length < 2}
+                className="text-xs text-slate-500 hover:text-indigo-600 disabled:opacity-40 flex items-center gap-1"
+                title="合併到另一位說話者"
+              >
+                <Merge className="w-3.5 h-3.5" />
+                合併
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SpeakerPanel;
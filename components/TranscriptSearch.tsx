@@ -0,0 +1,107 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Search, X, Loader2 } from 'lucide-react';
+import { listProjects } from '../utils/projectStore';
+import { SearchIndex, buildSearchIndex, searchTranscripts } from '../utils/transcriptSearch';
+import { formatTime } from '../utils/audioUtils';
+
+interface TranscriptSearchProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onOpenResult: (projectId: string, segmentIndex: number) => void;
+}
+
+const TranscriptSearch: React.FC<TranscriptSearchProps> = ({ isOpen, onClose, onOpenResult }) => {
+  const [index, setIndex] = useState<SearchIndex | null>(null);
+  const [query, setQuery] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // 每次开启时重建索引，以涵盖最新保存的专案
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setIndex(null);
+    listProjects()
+      .then(projects => {
+        if (!cancelled) setIndex(buildSearchIndex(projects));
+      })
+      .catch(err => {
+        console.error('Failed to build search index:', err);
+        if (!cancelled) setError('無法讀取專案庫，瀏覽器可能停用了 IndexedDB');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen]);
+
+  const hits = useMemo(() => index ? searchTranscripts(index, query) : [], [index, query]);
+
+  if (!isOpen) return null;
+
+  const projectCount = index ? new Set(index.documents.map(document => document.projectId)).size : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl overflow-hidden animate-fade-in">
+        <div className="bg-indigo-600 px-6 py-4 flex justify-between items-center">
+          <h3 className="text-white font-bold text-lg flex items-center gap-2">
+            <Search className="w-5 h-5" />
+            搜尋逐字稿
+          </h3>
+          <button onClick={onClose} className="text-white/80 hover:text-white transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6">
+          <input
+            autoFocus
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="輸入關鍵字，例如：第三季預算"
+            className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+          />
+          {error && <p className="text-sm text-red-500 mt-2">{error}</p>}
+          {index && (
+            <p className="text-xs text-slate-400 mt-2">
+              已索引 {projectCount} 個專案、{index.documents.length} 句
+              {query.trim() && ` · 找到 ${hits.length} 筆結果`}
+            </p>
+          )}
+
+          <div className="max-h-[55vh] overflow-y-auto mt-4 divide-y divide-slate-100">
+            {!index && !error && (
+              <div className="flex justify-center py-10">
+                <Loader2 className="w-6 h-6 text-indigo-400 animate-spin" />
+              </div>
+            )}
+            {hits.map(hit => (
+              <button
+                key={`${hit.document.projectId}-${hit.document.segmentIndex}`}
+                onClick={() => {
+                  onOpenResult(hit.document.projectId, hit.document.segmentIndex);
+                  onClose();
+                }}
+                className="w-full text-left py-3 px-2 hover:bg-slate-50 rounded-lg transition-colors"
+              >
+                <div className="text-xs text-slate-500 flex gap-3 mb-1">
+                  <span className="font-medium text-indigo-600 truncate">{hit.document.projectName}</span>
+                  <span className="font-mono">{formatTime(hit.document.startTimeSeconds)}</span>
+                  <span>{hit.document.speaker}</span>
+                </div>
+                <p className="text-sm text-slate-700">
+                  {hit.snippet.map((part, i) => part.highlight
+                    ? <mark key={i} className="bg-amber-100 text-slate-900 rounded px-0.5">{part.text}</mark>
+                    : <span key={i}>{part.text}</span>
+                  )}
+                </p>
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptSearch;
@@ -0,0 +1,75 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { OutputLanguage, SourceLanguage, TranscriptionSettings, TranscriptionStyle } from '../types';
+import { SOURCE_LANGUAGE_OPTIONS, OUTPUT_LANGUAGE_OPTIONS, STYLE_OPTIONS } from '../utils/transcriptionSettings';
+
+interface TranscriptionSettingsFormProps {
+  settings: TranscriptionSettings;
+  onChange: (settings: TranscriptionSettings) => void;
+  disabled: boolean;
+}
+
+const selectClass = "border border-slate-300 rounded-lg px-2 py-1 text-sm focus:ring-2 focus:ring-indigo-500 outline-none disabled:bg-slate-100";
+
+const TranscriptionSettingsForm: React.FC<TranscriptionSettingsFormProps> = ({ settings, onChange, disabled }) => {
+  const update = <K extends keyof TranscriptionSettings>(field: K, value: TranscriptionSettings[K]) => {
+    onChange({ ...settings, [field]: value });
+  };
+
+  return (
+    <div className="mt-4 flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-slate-600">
+      <Languages className="w-4 h-4 text-slate-400" />
+      <label className="flex items-center gap-2">
+        音訊語言
+        <select
+          value={settings.sourceLanguage}
+          onChange={(e) => update('sourceLanguage', e.target.value as SourceLanguage)}
+          disabled={disabled}
+          className={selectClass}
+        >
+          {SOURCE_LANGUAGE_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-2">
+        輸出
+        <select
+          value={settings.outputLanguage}
+          onChange={(e) => update('outputLanguage', e.target.value as OutputLanguage)}
+          disabled={disabled}
+          className={selectClass}
+        >
+          {OUTPUT_LANGUAGE_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-2">
+        風格
+        <select
+          value={settings.style}
+          onChange={(e) => update('style', e.target.value as TranscriptionStyle)}
+          disabled={disabled}
+          className={selectClass}
+        >
+          {STYLE_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-1.5 cursor-pointer select-none">
+        <input
+          type="checkbox"
+          checked={settings.keepFillerWords}
+          onChange={(e) => update('keepFillerWords', e.target.checked)}
+          disabled={disabled}
+          className="accent-indigo-600 w-4 h-4"
+        />
+        保留語助詞
+      </label>
+    </div>
+  );
+};
+
+export default TranscriptionSettingsForm;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { Languages, Loader2 } from 'lucide-react';
+import { SubtitleMode, TranslationLanguage } from '../types';
+
+interface TranslationBarProps {
+  targetLanguage: TranslationLanguage;
+  onTargetLanguageChange: (language: TranslationLanguage) => void;
+  subtitleMode: SubtitleMode;
+  onSubtitleModeChange: (mode: SubtitleMode) => void;
+  onTranslate: () => void;
+  isTranslating: boolean;
+  progress: { done: number; total: number };
+  hasTranslation: boolean;
+  canTranslate: boolean; // 目前的后端是否支援翻译且未在转录中
+  error: string | null;
+}
+
+export const TRANSLATION_LANGUAGE_OPTIONS: { value: TranslationLanguage; label: string }[] = [
+  { value: 'en', label: '英文' },
+  { value: 'zh-Hant', label: '繁體中文' },
+  { value: 'zh-Hans', label: '簡體中文' },
+  { value: 'ja', label: '日文' }
+];
+
+const selectClass = "border border-slate-300 rounded-lg px-2 py-1 text-xs sm:text-sm focus:ring-2 focus:ring-indigo-500 outline-none disabled:bg-slate-100";
+
+const TranslationBar: React.FC<TranslationBarProps> = ({
+  targetLanguage,
+  onTargetLanguageChange,
+  subtitleMode,
+  onSubtitleModeChange,
+  onTranslate,
+  isTranslating,
+  progress,
+  hasTranslation,
+  canTranslate,
+  error
+}) => (
+  <div className="px-6 py-3 border-b border-slate-100 flex flex-wrap items-center gap-3 text-xs sm:text-sm text-slate-600">
+    <Languages className="w-4 h-4 text-indigo-600" />
+    <label className="flex items-center gap-2">
+      翻譯為
+      <select
+        value={targetLanguage}
+        onChange={(e) => onTargetLanguageChange(e.target.value as TranslationLanguage)}
+        disabled={isTranslating}
+        className={selectClass}
+      >
+        {TRANSLATION_LANGUAGE_OPTIONS.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+    </label>
+    <button
+      onClick={onTranslate}
+      disabled={!canTranslate || isTranslating}
+      className="text-indigo-600 hover:text-indigo-800 font-medium px-3 py-1 bg-indigo-50 rounded-lg hover:bg-indigo-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-1"
+    >
+      {isTranslating && <Loader2 className="w-4 h-4 animate-spin" />}
+      {isTranslating ? `翻譯中 ${progress.done} / ${progress.total}` : hasTranslation ? '重新翻譯' : '翻譯逐字稿'}
+    </button>
+    {hasTranslation && (
+      <label className="flex items-center gap-2 ml-auto">
+        匯出內容
+        <select
+          value={subtitleMode}
+          onChange={(e) => onSubtitleModeChange(e.target.value as SubtitleMode)}
+          className={selectClass}
+        >
+          <option value="original">僅原文</option>
+          <option value="translation">僅譯文</option>
+          <option value="bilingual">雙語對照</option>
+        </select>
+      </label>
+    )}
+    {error && <span className="w-full text-xs text-red-500">{error}</span>}
+  </div>
+);
+
+export default TranslationBar;
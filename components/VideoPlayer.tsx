@@ -0,0 +1,85 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Film } from 'lucide-react';
+import { SubtitleMode, TranscriptSegment } from '../types';
+import { findSegmentAtTime } from '../utils/audioUtils';
+
+export interface SeekRequest {
+  seconds: number;
+  nonce: number; // 同一个时间点也能再次跳转
+}
+
+interface VideoPlayerProps {
+  file: File;
+  transcripts: TranscriptSegment[];
+  subtitleMode: SubtitleMode;
+  seekRequest: SeekRequest | null;
+  // 正在播放的句子改变时才通知，播放时间本身不离开这个元件
+  onActiveIndexChange: (index: number) => void;
+}
+
+const VideoPlayer: React.FC<VideoPlayerProps> = ({ file, transcripts, subtitleMode, seekRequest, onActiveIndexChange }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [url, setUrl] = useState<string | null>(null);
+  // 开始播放前为 null，不标示任何句子
+  const [currentTime, setCurrentTime] = useState<number | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    setCurrentTime(null);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !seekRequest) return;
+    video.currentTime = seekRequest.seconds;
+    video.play().catch(() => { /* 浏览器不允许自动播放时只跳转 */ });
+  }, [seekRequest]);
+
+  const activeIndex = currentTime === null ? -1 : findSegmentAtTime(transcripts, currentTime);
+
+  useEffect(() => {
+    onActiveIndexChange(activeIndex);
+  }, [activeIndex, onActiveIndexChange]);
+
+  useEffect(() => () => onActiveIndexChange(-1), [onActiveIndexChange]);
+  const activeSegment = activeIndex >= 0 ? transcripts[activeIndex] : null;
+  const caption = activeSegment && (
+    subtitleMode === 'translation' && activeSegment.translation ? activeSegment.translation : activeSegment.text
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-3 border-b border-slate-100 bg-slate-50 flex items-center gap-2">
+        <Film className="w-5 h-5 text-indigo-600" />
+        <h3 className="font-bold text-slate-700">影片預覽</h3>
+        <span className="text-xs text-slate-400 truncate">{file.name}</span>
+      </div>
+      <div className="relative bg-black">
+        {url && (
+          <video
+            ref={videoRef}
+            src={url}
+            controls
+            className="w-full max-h-[420px]"
+            onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+          />
+        )}
+        {activeSegment && (
+          <div className="absolute bottom-14 inset-x-0 flex justify-center px-6 pointer-events-none">
+            <div className="bg-black/70 text-white text-sm px-3 py-1.5 rounded max-w-full text-center">
+              <span className="font-bold mr-1">{activeSegment.speaker}:</span>
+              {caption}
+              {subtitleMode === 'bilingual' && activeSegment.translation && (
+                <div className="text-xs text-white/80 mt-0.5">{activeSegment.translation}</div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VideoPlayer;
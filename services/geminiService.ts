@@ -1,6 +1,18 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { TranscriptSegment } from "../types";
-import { blobToBase64 } from "../utils/audioUtils";
+import { GenerateContentResponse, GoogleGenAI, MediaModality, Type } from "@google/genai";
+import { MeetingMinutes, OutputLanguage, SourceLanguage, TranscriptSegment, TranslationLanguage } from "../types";
+import { blobToBase64 } from "../utils/audioWorkerClient";
+import { DEFAULT_TRANSCRIPTION_SETTINGS } from "../utils/transcriptionSettings";
+import { formatTimedLines } from "../utils/transcriptSections";
+import {
+  ChapterMarker,
+  SpeakerLine,
+  TimedLine,
+  TranscribeOptions,
+  TranscriptionContext,
+  TranscriptionProvider,
+  transcribeWithRetry,
+  toAbsoluteSeconds
+} from "./transcriptionProvider";
 
 export const MODEL_NAME = 'gemini-3-flash-preview';
 
@@ -10,37 +22,135 @@ interface GeminiResponseItem {
   text: string;
 }
 
-interface TranscribeOptions {
-  maxRetries?: number;
-  retryDelay?: number;
+interface SpeakerMappingItem {
+  from: string;
+  to: string;
 }
 
 /**
- * 带重试机制的转录函数
+ * 由回应的 usageMetadata 回报实际 token 用量
  */
-const transcribeWithRetry = async (
-  fn: () => Promise<TranscriptSegment[]>,
-  chunkIndex: number,
-  options: TranscribeOptions = {}
-): Promise<TranscriptSegment[]> => {
-  const { maxRetries = 3, retryDelay = 1000 } = options;
-  let lastError: Error | null = null;
-
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
-    try {
-      return await fn();
-    } catch (error) {
-      lastError = error as Error;
+const reportUsage = (response: GenerateContentResponse, options?: TranscribeOptions) => {
+  const metadata = response.usageMetadata;
+  if (!metadata || !options?.onUsage) return;
+
+  const audioTokens = (metadata.promptTokensDetails ?? [])
+    .filter(detail => detail.modality === MediaModality.AUDIO)
+    .reduce((sum, detail) => sum + (detail.tokenCount ?? 0), 0);
+  options.onUsage({
+    inputTokens: Math.max(0, (metadata.promptTokenCount ?? 0) - audioTokens),
+    audioTokens,
+    outputTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0),
+    requests: 1
+  });
+};
+
+/**
+ * 解析模型回传的 JSON，格式错误时转为明确的错误而不是 SyntaxError
+ */
+const parseJsonResponse = <T>(responseText: string): T => {
+  try {
+    return JSON.parse(responseText);
+  } catch (e) {
+    console.error("Failed to parse Gemini JSON", e);
+    throw new Error("Gemini returned invalid JSON");
+  }
+};
+
+const formatLines = (lines: SpeakerLine[]): string =>
+  lines.map(line => `${line.speaker}: ${line.text}`).join('\n');
+
+const SOURCE_LANGUAGE_PROMPTS: Record<SourceLanguage, string> = {
+  auto: '請自動判斷音訊使用的語言。',
+  zh: '音訊主要使用中文 (華語)。',
+  yue: '音訊主要使用粵語。',
+  en: '音訊主要使用英文。',
+  ja: '音訊主要使用日文。'
+};
+
+const OUTPUT_LANGUAGE_PROMPTS: Record<OutputLanguage, string> = {
+  'zh-Hant': '使用繁體中文 (Traditional Chinese) 輸出；非中文內容請翻譯為繁體中文，保留專有名詞原文。',
+  'zh-Hans': '使用簡體中文 (Simplified Chinese) 輸出；非中文內容請翻譯為簡體中文，保留專有名詞原文。',
+  'yue-Hant': '以繁體字的粵語口語書寫 (例如「係」「唔」「嘅」) 忠實呈現粵語內容，不要改寫為書面語。',
+  en: 'Write the transcript in English; translate non-English speech into English and keep proper nouns in their original form.',
+  ja: '日本語で出力してください。日本語以外の発話は日本語に翻訳し、固有名詞は原文のまま残してください。',
+  original: '使用說話者實際使用的語言與文字輸出，不要翻譯；中文內容使用繁體中文。'
+};
+
+/**
+ * 组合转录提示，依设定与上下文附加语言、风格及说话者延续的说明
+ */
+const buildTranscriptionPrompt = (context: TranscriptionContext = {}): string => {
+  const settings = context.transcriptionSettings ?? DEFAULT_TRANSCRIPTION_SETTINGS;
+  const styleRule = settings.style === 'clean'
+    ? '將口語整理為通順易讀的文句，去除重複與口誤，但不得增減或改變原意。'
+    : '逐字轉錄，保留口語用詞、重複與自我修正，不要改寫。';
+  // 逐字风格下关闭语助词时，明确说明这是唯一的例外，避免与上一条互相矛盾
+  const fillerRule = settings.keepFillerWords
+    ? '保留語助詞與停頓詞 (例如: 嗯、呃、那個、um、uh)。'
+    : settings.style === 'verbatim'
+      ? '唯一的例外：刪除無意義的語助詞與停頓詞 (例如: 嗯、呃、um、uh)，其餘內容仍逐字保留。'
+      : '刪除無意義的語助詞與停頓詞 (例如: 嗯、呃、um、uh)。';
+
+  const sections = [`
+      你是一位專業的逐字稿聽寫員。
+      請將這段音訊轉錄為逐字稿。
       
-      if (attempt < maxRetries) {
-        console.log(`Retry ${attempt + 1}/${maxRetries} for chunk ${chunkIndex + 1}`);
-        // 指数退避策略
-        await new Promise(resolve => setTimeout(resolve, retryDelay * Math.pow(2, attempt)));
-      }
+      要求：
+      1. ${SOURCE_LANGUAGE_PROMPTS[settings.sourceLanguage]}
+      2. ${OUTPUT_LANGUAGE_PROMPTS[settings.outputLanguage]}
+      3. ${styleRule}
+      4. ${fillerRule}
+      5. 辨識說話者 (例如: 講者 1, 講者 2)。
+      6. 提供每一句話相對於音訊開頭的時間點 (格式: MM:SS)。
+      7. 輸出格式必須是嚴格的 JSON 陣列。
+    `];
+
+  const hints = context.speakerHints;
+  const namedSpeakers = hints?.speakers.filter(speaker => speaker.name.trim()) ?? [];
+  if (hints && (hints.expectedCount > 0 || namedSpeakers.length > 0)) {
+    const lines: string[] = [];
+    if (hints.expectedCount > 0) {
+      lines.push(`整段錄音預計共有 ${hints.expectedCount} 位說話者。`);
+    }
+    if (namedSpeakers.length > 0) {
+      lines.push(`已知的說話者：${namedSpeakers.map(s => s.role.trim() ? `${s.role.trim()}: ${s.name.trim()}` : s.name.trim()).join('、')}。`);
+      lines.push('請依說話內容（例如自我介紹、被點名、主持流程）判斷身分，speaker 欄位直接使用對應的姓名；無法判斷時才使用「講者 N」。');
     }
+    sections.push(`
+      ${lines.join('\n      ')}
+    `);
+  }
+
+  if (context.glossary && context.glossary.length > 0) {
+    const terms = context.glossary.map(({ term, aliases, description }) => {
+      const details = [
+        description.trim(),
+        aliases.length > 0 ? `常被誤寫為 ${aliases.join('、')}` : ''
+      ].filter(Boolean).join('；');
+      return details ? `- ${term}（${details}）` : `- ${term}`;
+    });
+    sections.push(`
+      以下專有名詞請使用指定的寫法：
+      ${terms.join('\n      ')}
+    `);
+  }
+
+  if (context.knownSpeakers && context.knownSpeakers.length > 0) {
+    sections.push(`
+      這段音訊是一段長錄音的後續部分，前面已出現的說話者標籤為：${context.knownSpeakers.join('、')}。
+      同一位說話者請沿用相同的標籤；新出現的說話者才使用新的編號。
+    `);
+  }
+
+  if (context.previousLines && context.previousLines.length > 0) {
+    sections.push(`
+      前一段音訊結尾的內容如下（僅供辨識說話者參考，請勿重複轉錄）：
+      ${formatLines(context.previousLines)}
+    `);
   }
 
-  throw lastError || new Error('Transcription failed after retries');
+  return sections.join('\n');
 };
 
 export const transcribeChunk = async (
@@ -48,32 +158,24 @@ export const transcribeChunk = async (
   apiKey: string,
   chunkIndex: number,
   startTimeOffset: number,
-  options?: TranscribeOptions
+  options?: TranscribeOptions,
+  context?: TranscriptionContext,
+  model: string = MODEL_NAME
 ): Promise<TranscriptSegment[]> => {
   return transcribeWithRetry(async () => {
   try {
     const ai = new GoogleGenAI({ apiKey });
-    const base64Audio = await blobToBase64(audioBlob);
+    const base64Audio = await blobToBase64(audioBlob, options?.signal);
 
-    const prompt = `
-      你是一位專業的繁體中文逐字稿聽寫員。
-      請將這段音訊轉錄為逐字稿。
-      
-      要求：
-      1. 使用繁體中文 (Traditional Chinese)。
-      2. 辨識說話者 (例如: 講者 1, 講者 2)。
-      3. 提供每一句話相對於音訊開頭的時間點 (格式: MM:SS)。
-      4. 如果音訊包含多種語言，請主要轉錄為中文，保留專有名詞原文。
-      5. 輸出格式必須是嚴格的 JSON 陣列。
-    `;
+    const prompt = buildTranscriptionPrompt(context);
 
     const response = await ai.models.generateContent({
-      model: MODEL_NAME,
+      model,
       contents: {
         parts: [
           {
             inlineData: {
-              mimeType: 'audio/wav',
+              mimeType: audioBlob.type || 'audio/wav',
               data: base64Audio
             }
           },
@@ -81,6 +183,7 @@ export const transcribeChunk = async (
         ]
       },
       config: {
+        abortSignal: options?.signal,
         responseMimeType: "application/json",
         responseSchema: {
           type: Type.ARRAY,
@@ -96,37 +199,303 @@ export const transcribeChunk = async (
         }
       }
     });
+    reportUsage(response, options);
 
     const responseText = response.text;
     if (!responseText) {
       throw new Error("No response from Gemini");
     }
 
-    let parsed: GeminiResponseItem[] = [];
-    try {
-      parsed = JSON.parse(responseText);
-    } catch (e) {
-      console.error("Failed to parse Gemini JSON", e);
-      throw new Error("Gemini returned invalid JSON");
-    }
+    const parsed = parseJsonResponse<GeminiResponseItem[]>(responseText);
 
     // Process timestamps to be absolute based on chunk offset
-    return parsed.map(item => {
-      const [mm, ss] = item.timestamp.split(':').map(Number);
-      const segmentSeconds = (isNaN(mm) ? 0 : mm * 60) + (isNaN(ss) ? 0 : ss);
-      const absoluteSeconds = startTimeOffset + segmentSeconds;
-      
-      return {
-        speaker: item.speaker,
-        timestamp: item.timestamp, // Keep original relative string for reference if needed
-        startTimeSeconds: absoluteSeconds,
-        text: item.text
-      };
-    });
+    return parsed.map(item => ({
+      speaker: item.speaker,
+      timestamp: item.timestamp, // Keep original relative string for reference if needed
+      startTimeSeconds: toAbsoluteSeconds(item.timestamp, startTimeOffset),
+      text: item.text
+    }));
 
   } catch (error) {
     console.error(`Error transcribing chunk ${chunkIndex}:`, error);
     throw error;
   }
-  }, chunkIndex, options);
-};
\ No newline at end of file
+  }, options);
+};
+
+/**
+ * 依前后两段逐字稿的内容判断说话者对应关系（纯文字请求）
+ */
+export const matchSpeakerLabels = async (
+  apiKey: string,
+  previousLines: SpeakerLine[],
+  nextLines: SpeakerLine[],
+  options?: TranscribeOptions
+): Promise<Record<string, string>> => {
+  return transcribeWithRetry(async () => {
+    const ai = new GoogleGenAI({ apiKey });
+    const prompt = `
+      以下是同一場錄音中相鄰的兩段逐字稿，兩段的說話者標籤是分別辨識的，可能不一致。
+      請根據說話內容、語氣與對話脈絡，判斷「後段」的每個說話者標籤對應到「前段」的哪個標籤。
+      無法確定或是新出現的說話者請不要列出。
+
+      前段結尾：
+      ${formatLines(previousLines)}
+
+      後段開頭：
+      ${formatLines(nextLines)}
+    `;
+
+    const response = await ai.models.generateContent({
+      model: MODEL_NAME,
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              from: { type: Type.STRING },
+              to: { type: Type.STRING }
+            },
+            required: ["from", "to"]
+          }
+        },
+        abortSignal: options?.signal
+      }
+    });
+    reportUsage(response, options);
+
+    const parsed = parseJsonResponse<SpeakerMappingItem[]>(response.text || '[]');
+    return Object.fromEntries(parsed.map(item => [item.from, item.to]));
+  }, options);
+};
+
+const TRANSLATION_LANGUAGE_NAMES: Record<TranslationLanguage, string> = {
+  en: '英文 (English)',
+  'zh-Hant': '繁體中文 (Traditional Chinese)',
+  'zh-Hans': '簡體中文 (Simplified Chinese)',
+  ja: '日文 (Japanese)'
+};
+
+interface TranslationItem {
+  id: number;
+  translation: string;
+}
+
+/**
+ * 批次翻译逐字稿句子，以 id 对应确保句子边界不变（纯文字请求）
+ */
+export const translateTexts = async (
+  apiKey: string,
+  texts: string[],
+  targetLanguage: TranslationLanguage,
+  options?: TranscribeOptions
+): Promise<string[]> => {
+  return transcribeWithRetry(async () => {
+    const ai = new GoogleGenAI({ apiKey });
+    const prompt = `
+      請將以下逐字稿的每一句翻譯為${TRANSLATION_LANGUAGE_NAMES[targetLanguage]}。
+      要求：
+      1. 每一個 id 都必須輸出且只輸出一筆翻譯，不可合併或拆分句子。
+      2. 保持口語語氣，專有名詞可保留原文。
+      3. 輸出格式必須是嚴格的 JSON 陣列。
+
+      ${JSON.stringify(texts.map((text, id) => ({ id, text })))}
+    `;
+
+    const response = await ai.models.generateContent({
+      model: MODEL_NAME,
+      contents: prompt,
+      config: {
+        abortSignal: options?.signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              id: { type: Type.INTEGER },
+              translation: { type: Type.STRING }
+            },
+            required: ["id", "translation"]
+          }
+        }
+      }
+    });
+
+    reportUsage(response, options);
+    const parsed = parseJsonResponse<TranslationItem[]>(response.text || '[]');
+    const byId = new Map(parsed.map(item => [item.id, item.translation]));
+    if (texts.some((_, id) => !byId.has(id))) {
+      throw new Error("Gemini translation response is missing segments");
+    }
+    return texts.map((_, id) => byId.get(id)!);
+  }, options);
+};
+
+const minutesItemSchema = {
+  type: Type.OBJECT,
+  properties: {
+    text: { type: Type.STRING },
+    sourceTimes: { type: Type.ARRAY, items: { type: Type.NUMBER } }
+  },
+  required: ["text", "sourceTimes"]
+};
+
+const minutesSchema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    decisions: { type: Type.ARRAY, items: minutesItemSchema },
+    actionItems: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          text: { type: Type.STRING },
+          owner: { type: Type.STRING },
+          dueDate: { type: Type.STRING },
+          sourceTimes: { type: Type.ARRAY, items: { type: Type.NUMBER } }
+        },
+        required: ["text", "owner", "dueDate", "sourceTimes"]
+      }
+    },
+    openQuestions: { type: Type.ARRAY, items: minutesItemSchema }
+  },
+  required: ["summary", "decisions", "actionItems", "openQuestions"]
+};
+
+const MINUTES_RULES = `
+      各欄位說明：
+      - summary: 300 字以內的會議摘要。
+      - decisions: 會議中達成的決議。
+      - actionItems: 待辦事項，owner 為負責人（未提及則留空），dueDate 為期限（照原話記錄，未提及則留空）。
+      - openQuestions: 尚未解決、需要後續討論的問題。
+      - sourceTimes: 支持該項目的逐字稿句子開頭的秒數（即每行 [t=秒數] 中的數字），至少一個。
+      請使用繁體中文，輸出格式必須是嚴格的 JSON。
+    `;
+
+const generateMinutesJson = async (apiKey: string, prompt: string, options?: TranscribeOptions): Promise<MeetingMinutes> => {
+  const ai = new GoogleGenAI({ apiKey });
+  const response = await ai.models.generateContent({
+    model: MODEL_NAME,
+    contents: prompt,
+    config: {
+      abortSignal: options?.signal,
+      responseMimeType: "application/json",
+      responseSchema: minutesSchema
+    }
+  });
+  reportUsage(response, options);
+
+  const responseText = response.text;
+  if (!responseText) {
+    throw new Error("No response from Gemini");
+  }
+  return parseJsonResponse(responseText);
+};
+
+/**
+ * 由一段逐字稿产生会议记录草稿（纯文字请求）
+ */
+export const draftMinutes = async (
+  apiKey: string,
+  lines: TimedLine[],
+  options?: TranscribeOptions
+): Promise<MeetingMinutes> => {
+  return transcribeWithRetry(() => generateMinutesJson(apiKey, `
+      你是一位專業的會議記錄秘書。請根據以下逐字稿整理會議記錄。
+      ${MINUTES_RULES}
+
+      逐字稿：
+      ${formatTimedLines(lines)}
+    `, options), options);
+};
+
+/**
+ * 合并长会议各段的会议记录草稿为一份完整记录（纯文字请求）
+ */
+export const mergeMinutes = async (
+  apiKey: string,
+  partials: MeetingMinutes[],
+  options?: TranscribeOptions
+): Promise<MeetingMinutes> => {
+  return transcribeWithRetry(() => generateMinutesJson(apiKey, `
+      你是一位專業的會議記錄秘書。以下是同一場長會議依時間順序分段整理的會議記錄草稿，
+      請合併為一份完整的會議記錄：重寫整體摘要，合併重複的決議、待辦與問題，
+      已在後段得到解答的問題請移除。sourceTimes 請沿用草稿中的數值。
+      ${MINUTES_RULES}
+
+      分段草稿：
+      ${JSON.stringify(partials)}
+    `, options), options);
+};
+
+/**
+ * 依主题将一段逐字稿切分为章节（纯文字请求）
+ */
+export const detectChapters = async (
+  apiKey: string,
+  lines: TimedLine[],
+  options?: TranscribeOptions
+): Promise<ChapterMarker[]> => {
+  return transcribeWithRetry(async () => {
+    const ai = new GoogleGenAI({ apiKey });
+    const prompt = `
+      請依主題轉換將以下逐字稿切分為章節，適用於講座或 Podcast 的目錄。
+      要求：
+      1. 每個章節至少涵蓋約 2 分鐘的內容，避免切得過碎。
+      2. title 為 20 字以內、能概括該段主題的繁體中文標題。
+      3. startTimeSeconds 為該章節第一句的秒數（即每行 [t=秒數] 中的數字）。
+      4. 依時間順序輸出，格式必須是嚴格的 JSON 陣列。
+
+      逐字稿：
+      ${formatTimedLines(lines)}
+    `;
+
+    const response = await ai.models.generateContent({
+      model: MODEL_NAME,
+      contents: prompt,
+      config: {
+        abortSignal: options?.signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              title: { type: Type.STRING },
+              startTimeSeconds: { type: Type.NUMBER }
+            },
+            required: ["title", "startTimeSeconds"]
+          }
+        }
+      }
+    });
+    reportUsage(response, options);
+
+    const responseText = response.text;
+    if (!responseText) {
+      throw new Error("No response from Gemini");
+    }
+    return parseJsonResponse(responseText);
+  }, options);
+};
+
+/**
+ * 以 Gemini 作为转录后端。model 只影响音讯转录，其余文字任务固定使用 MODEL_NAME
+ */
+export const createGeminiProvider = (apiKey: string, model: string = MODEL_NAME): TranscriptionProvider => ({
+  type: 'gemini',
+  label: 'Google Gemini',
+  modelName: model,
+  transcribeChunk: ({ audioBlob, chunkIndex, startTimeOffset, context }, options) =>
+    transcribeChunk(audioBlob, apiKey, chunkIndex, startTimeOffset, options, context, model),
+  matchSpeakers: (previousLines, nextLines, options) => matchSpeakerLabels(apiKey, previousLines, nextLines, options),
+  translateTexts: (texts, targetLanguage, options) => translateTexts(apiKey, texts, targetLanguage, options),
+  draftMinutes: (lines, options) => draftMinutes(apiKey, lines, options),
+  mergeMinutes: (partials, options) => mergeMinutes(apiKey, partials, options),
+  detectChapters: (lines, options) => detectChapters(apiKey, lines, options)
+});
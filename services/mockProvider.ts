@@ -0,0 +1,91 @@
+import { TranscriptSegment } from "../types";
+import { formatTime } from "../utils/audioUtils";
+import { AUDIO_TOKENS_PER_SECOND } from "../utils/usageTracking";
+import { abortableSleep } from "../utils/abort";
+import { TimedLine, TranscriptionProvider, transcribeWithRetry } from "./transcriptionProvider";
+
+export const MOCK_MODEL_NAME = 'mock-transcriber';
+
+// 每个模拟片段的间隔秒数
+const MOCK_SEGMENT_SECONDS = 30;
+const MOCK_CHAPTER_SECONDS = 600;
+
+interface MockProviderOptions {
+  latencyMs: number;
+  failEvery: number; // 每 N 个片段失败一次，0 = 不失败
+}
+
+/**
+ * 离线模拟后端：不需网络与 API 额度，输出只取决于片段序号与长度，
+ * 方便开发和测试分割、续传、错误处理与汇出流程
+ */
+export const createMockProvider = ({ latencyMs, failEvery }: MockProviderOptions): TranscriptionProvider => ({
+  type: 'mock',
+  label: '離線模擬',
+  modelName: MOCK_MODEL_NAME,
+  transcribeChunk: ({ chunkIndex, startTimeOffset, durationSeconds }, options) =>
+    transcribeWithRetry(async () => {
+      await abortableSleep(latencyMs, options?.signal);
+
+      if (failEvery > 0 && (chunkIndex + 1) % failEvery === 0) {
+        throw new Error(`Mock provider: simulated network failure on chunk ${chunkIndex + 1}`);
+      }
+
+      const segments: TranscriptSegment[] = [];
+      for (let offset = 0, line = 1; offset < Math.max(durationSeconds, 1); offset += MOCK_SEGMENT_SECONDS, line++) {
+        segments.push({
+          speaker: `講者 ${(line % 2) + 1}`,
+          timestamp: formatTime(offset),
+          startTimeSeconds: startTimeOffset + offset,
+          text: `[模擬轉錄] 第 ${chunkIndex + 1} 片段第 ${line} 句`
+        });
+      }
+      // 模拟用量，方便检查用量统计与预算流程
+      options?.onUsage?.({
+        inputTokens: 500,
+        audioTokens: Math.round(durationSeconds * AUDIO_TOKENS_PER_SECOND),
+        outputTokens: segments.length * 20,
+        requests: 1
+      });
+      return segments;
+    }, { ...options, retryDelay: 0 }),
+  translateTexts: async (texts, targetLanguage, options) => {
+    await abortableSleep(latencyMs, options?.signal);
+    return texts.map(text => `[${targetLanguage}] ${text}`);
+  },
+  draftMinutes: async (lines, options) => {
+    await abortableSleep(latencyMs, options?.signal);
+    const first = lines[0];
+    const last = lines[lines.length - 1];
+    return {
+      summary: `[模擬摘要] ${formatTime(first.startTimeSeconds)} - ${formatTime(last.startTimeSeconds)}，共 ${lines.length} 句。`,
+      decisions: [{ text: `[模擬決議] ${first.text}`, sourceTimes: [first.startTimeSeconds] }],
+      actionItems: [{ text: `[模擬待辦] ${last.text}`, owner: last.speaker, dueDate: '', sourceTimes: [last.startTimeSeconds] }],
+      openQuestions: lines
+        .filter(line => /[?？]$/.test(line.text))
+        .map(line => ({ text: line.text, sourceTimes: [line.startTimeSeconds] }))
+    };
+  },
+  mergeMinutes: async (partials, options) => {
+    await abortableSleep(latencyMs, options?.signal);
+    return {
+      summary: partials.map(partial => partial.summary).join('\n'),
+      decisions: partials.flatMap(partial => partial.decisions),
+      actionItems: partials.flatMap(partial => partial.actionItems),
+      openQuestions: partials.flatMap(partial => partial.openQuestions)
+    };
+  },
+  detectChapters: async (lines, options) => {
+    await abortableSleep(latencyMs, options?.signal);
+    // 每 MOCK_CHAPTER_SECONDS 秒一个章节，以该段第一句为标题
+    const markers = new Map<number, TimedLine>();
+    lines.forEach(line => {
+      const bucket = Math.floor(line.startTimeSeconds / MOCK_CHAPTER_SECONDS);
+      if (!markers.has(bucket)) markers.set(bucket, line);
+    });
+    return Array.from(markers.values()).map(line => ({
+      title: `[模擬章節] ${line.text.slice(0, 20)}`,
+      startTimeSeconds: line.startTimeSeconds
+    }));
+  }
+});
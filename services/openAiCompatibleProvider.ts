@@ -0,0 +1,158 @@
+import { SourceLanguage, TokenUsage, TranscriptionSettings, TranscriptSegment } from "../types";
+import { formatTime } from "../utils/audioUtils";
+import { HttpError, parseRetryAfterHeader } from "../utils/errorHandling";
+import { DEFAULT_TRANSCRIPTION_SETTINGS } from "../utils/transcriptionSettings";
+import { EMPTY_USAGE } from "../utils/usageTracking";
+import { TranscriptionProvider, transcribeWithRetry } from "./transcriptionProvider";
+
+interface OpenAiProviderOptions {
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+}
+
+// verbose_json 回应格式 (OpenAI / faster-whisper-server / whisper.cpp server)
+interface VerboseTranscriptionResponse {
+  text: string;
+  segments?: {
+    start: number;
+    end: number;
+    text: string;
+  }[];
+  // gpt-4o-transcribe 等模型回报 token 用量；whisper-1 只回报音讯秒数，自建服务器通常没有
+  usage?: {
+    type?: 'tokens' | 'duration';
+    input_tokens?: number;
+    output_tokens?: number;
+    input_token_details?: {
+      audio_tokens?: number;
+      text_tokens?: number;
+    };
+  };
+}
+
+/**
+ * 由回应的 usage 换算 token 用量；没有 token 资讯时只计入请求次数
+ */
+const toTokenUsage = (usage: VerboseTranscriptionResponse['usage']): TokenUsage => {
+  if (!usage || usage.type === 'duration' || usage.input_tokens === undefined) {
+    return { ...EMPTY_USAGE, requests: 1 };
+  }
+  const audioTokens = usage.input_token_details?.audio_tokens ?? 0;
+  return {
+    inputTokens: usage.input_token_details?.text_tokens ?? Math.max(0, usage.input_tokens - audioTokens),
+    audioTokens,
+    outputTokens: usage.output_tokens ?? 0,
+    requests: 1
+  };
+};
+
+// 多数 Whisper 相容服务只接受 ISO 639-1 代码，粤语以 zh 送出，
+// 再以粤语口语的 prompt 引导模型输出粤语用字
+const CANTONESE_PROMPT = '以下係廣東話對話，用粵語口語字記錄。';
+
+const toWhisperLanguage = (language: Exclude<SourceLanguage, 'auto'>): string =>
+  language === 'yue' ? 'zh' : language;
+
+type WhisperScript = 'zh-Hant' | 'zh-Hans' | 'yue-Hant' | 'en' | 'ja';
+
+// Whisper 类模型不依指示改写，而是延续 prompt 的用字与写法：以目标文字写成的例句引导输出的文字，
+// 例句保留自我修正或语助词时，输出也较会保留 (无法翻译成与音讯不同的语言)
+const WHISPER_STYLE_EXAMPLES: Record<WhisperScript, { intro: string; verbatim: string; fillers: string }> = {
+  'zh-Hant': { intro: '以下是會議的逐字稿。', verbatim: '我們下週，不對，下個月再討論。', fillers: '嗯，那個，呃，我們先開始吧。' },
+  'zh-Hans': { intro: '以下是会议的逐字稿。', verbatim: '我们下周，不对，下个月再讨论。', fillers: '嗯，那个，呃，我们先开始吧。' },
+  'yue-Hant': { intro: CANTONESE_PROMPT, verbatim: '我哋下個禮拜，唔係，下個月再傾。', fillers: '嗯，即係，呃，我哋開始先啦。' },
+  en: { intro: 'The following is a meeting transcript.', verbatim: "Let's discuss it next week, no, next month.", fillers: "Um, so, uh, let's get started." },
+  ja: { intro: '以下は会議の書き起こしです。', verbatim: '来週、いや、来月に話しましょう。', fillers: 'えーと、あの、じゃあ始めましょう。' }
+};
+
+// 「与原音相同」依音讯语言决定文字，自动侦测时不加例句以免影响语言判断
+const ORIGINAL_SCRIPTS: Partial<Record<SourceLanguage, WhisperScript>> = {
+  zh: 'zh-Hant',
+  yue: 'yue-Hant',
+  en: 'en',
+  ja: 'ja'
+};
+
+/**
+ * 依输出语言与风格组合 Whisper 的 prompt 例句
+ */
+const buildStylePrompt = ({ sourceLanguage, outputLanguage, style, keepFillerWords }: TranscriptionSettings): string => {
+  const script = outputLanguage === 'original' ? ORIGINAL_SCRIPTS[sourceLanguage] : outputLanguage;
+  if (!script) return '';
+  const examples = WHISPER_STYLE_EXAMPLES[script];
+  return [
+    examples.intro,
+    style === 'verbatim' ? examples.verbatim : '',
+    keepFillerWords ? examples.fillers : ''
+  ].filter(Boolean).join(' ');
+};
+
+/**
+ * OpenAI 相容的 /audio/transcriptions 后端，可指向自建的 Whisper 类服务器。
+ * 此类 API 不做说话者辨识，所有片段都标为「講者 1」
+ */
+export const createOpenAiCompatibleProvider = ({ baseUrl, model, apiKey }: OpenAiProviderOptions): TranscriptionProvider => ({
+  type: 'openai-compatible',
+  label: 'OpenAI 相容 API',
+  modelName: model,
+  transcribeChunk: ({ audioBlob, chunkIndex, startTimeOffset, context }, options) =>
+    transcribeWithRetry(async () => {
+      const form = new FormData();
+      form.append('file', audioBlob, `chunk-${chunkIndex + 1}.${audioBlob.type === 'audio/flac' ? 'flac' : 'wav'}`);
+      form.append('model', model);
+      form.append('response_format', 'verbose_json');
+      const settings = context?.transcriptionSettings ?? DEFAULT_TRANSCRIPTION_SETTINGS;
+      if (settings.sourceLanguage !== 'auto') {
+        form.append('language', toWhisperLanguage(settings.sourceLanguage));
+      }
+      // Whisper 类模型会参考 prompt 中出现的拼写与用字
+      const vocabulary = [
+        ...(context?.glossary ?? []).map(entry => entry.term),
+        ...(context?.speakerHints?.speakers ?? []).map(speaker => speaker.name.trim()).filter(Boolean)
+      ];
+      const prompt = [
+        buildStylePrompt(settings),
+        vocabulary.join(', ')
+      ].filter(Boolean).join(' ');
+      if (prompt) {
+        form.append('prompt', prompt);
+      }
+
+      const headers: Record<string, string> = {};
+      if (apiKey) {
+        headers['Authorization'] = `Bearer ${apiKey}`;
+      }
+
+      const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/audio/transcriptions`, {
+        method: 'POST',
+        headers,
+        body: form,
+        signal: options?.signal
+      });
+
+      if (!response.ok) {
+        const body = await response.text().catch(() => '');
+        throw new HttpError(
+          response.status,
+          `OpenAI-compatible API error ${response.status}: ${body || response.statusText}`,
+          parseRetryAfterHeader(response.headers.get('Retry-After'))
+        );
+      }
+
+      const result: VerboseTranscriptionResponse = await response.json();
+      options?.onUsage?.(toTokenUsage(result.usage));
+      const rawSegments = result.segments && result.segments.length > 0
+        ? result.segments
+        : [{ start: 0, end: 0, text: result.text }];
+
+      return rawSegments
+        .filter(segment => segment.text.trim())
+        .map((segment): TranscriptSegment => ({
+          speaker: '講者 1',
+          timestamp: formatTime(segment.start),
+          startTimeSeconds: startTimeOffset + segment.start,
+          text: segment.text.trim()
+        }));
+    }, options)
+});
@@ -0,0 +1,41 @@
+import { createGeminiProvider } from "./geminiService";
+import { createMockProvider } from "./mockProvider";
+import { createOpenAiCompatibleProvider } from "./openAiCompatibleProvider";
+import { ProviderConfig, TranscriptionProvider } from "./transcriptionProvider";
+
+/**
+ * 依设定建立对应的转录后端
+ */
+export const createTranscriptionProvider = (config: ProviderConfig, geminiApiKey: string): TranscriptionProvider => {
+  switch (config.type) {
+    case 'openai-compatible':
+      return createOpenAiCompatibleProvider({
+        baseUrl: config.openAiBaseUrl,
+        model: config.openAiModel,
+        apiKey: config.openAiApiKey
+      });
+    case 'mock':
+      return createMockProvider({
+        latencyMs: config.mockLatencyMs,
+        failEvery: config.mockFailEvery
+      });
+    case 'gemini':
+    default:
+      return createGeminiProvider(geminiApiKey, config.geminiModel.trim() || undefined);
+  }
+};
+
+/**
+ * 检查后端是否已具备开始转录所需的设定
+ */
+export const isProviderReady = (config: ProviderConfig, geminiApiKey: string): boolean => {
+  switch (config.type) {
+    case 'openai-compatible':
+      return config.openAiBaseUrl.trim() !== '' && config.openAiModel.trim() !== '';
+    case 'mock':
+      return true;
+    case 'gemini':
+    default:
+      return geminiApiKey !== '';
+  }
+};
@@ -0,0 +1,135 @@
+import { GlossaryTerm, MeetingMinutes, SpeakerHints, TokenUsage, TranscriptionSettings, TranscriptSegment, TranslationLanguage } from "../types";
+import { AppError, parseGeminiError } from "../utils/errorHandling";
+import { abortableSleep } from "../utils/abort";
+
+// 重试等待时间额外加上 0 ~ 25% 的随机延迟，避免并行请求同时重试
+const RETRY_JITTER = 0.25;
+
+/**
+ * 可用的转录后端类型
+ */
+export type ProviderType = 'gemini' | 'openai-compatible' | 'mock';
+
+/**
+ * 转录后端设定（保存在 localStorage）
+ */
+export interface ProviderConfig {
+  type: ProviderType;
+  geminiModel: string;
+  openAiBaseUrl: string; // e.g. http://localhost:8000/v1
+  openAiModel: string;
+  openAiApiKey: string; // 自建服务器可留空
+  mockLatencyMs: number;
+  mockFailEvery: number; // 每 N 个片段模拟一次失败，0 = 不失败
+}
+
+export interface TranscribeOptions {
+  maxRetries?: number;
+  retryDelay?: number;
+  onUsage?: (usage: TokenUsage) => void; // 每次成功的请求回报实际用量
+  onRetry?: (status: RetryStatus) => void; // 每次重试等待前回报，用于显示进度
+  shouldRetry?: (error: AppError) => boolean; // 进一步限制哪些可重试的错误要在此重试
+  signal?: AbortSignal; // 取消进行中的请求与重试等待
+}
+
+export interface RetryStatus {
+  attempt: number; // 第几次重试，从 1 开始
+  maxRetries: number;
+  delayMs: number;
+  error: AppError;
+}
+
+export interface SpeakerLine {
+  speaker: string;
+  text: string;
+}
+
+export interface TimedLine extends SpeakerLine {
+  startTimeSeconds: number;
+}
+
+export interface ChapterMarker {
+  title: string;
+  startTimeSeconds: number;
+}
+
+/**
+ * 附加在转录提示中的上下文
+ */
+export interface TranscriptionContext {
+  transcriptionSettings?: TranscriptionSettings; // 语言、输出文字与风格
+  knownSpeakers?: string[]; // 前面片段已出现的说话者标签
+  previousLines?: SpeakerLine[]; // 前一片段结尾的几句话
+  speakerHints?: SpeakerHints; // 使用者提供的说话者人数与名单
+  glossary?: GlossaryTerm[]; // 专有名词的标准写法
+}
+
+/**
+ * 单个片段的转录请求
+ */
+export interface TranscribeChunkRequest {
+  audioBlob: Blob;
+  chunkIndex: number;
+  startTimeOffset: number; // 片段在整个音档中的起始秒数
+  durationSeconds: number;
+  context?: TranscriptionContext;
+}
+
+/**
+ * 转录后端接口，处理流程只依赖此接口
+ */
+export interface TranscriptionProvider {
+  type: ProviderType;
+  label: string;
+  modelName: string;
+  transcribeChunk: (request: TranscribeChunkRequest, options?: TranscribeOptions) => Promise<TranscriptSegment[]>;
+  // 比对前后两段文字，回传后段说话者标签对应到前段标签的映射；不支援的后端可省略
+  matchSpeakers?: (previousLines: SpeakerLine[], nextLines: SpeakerLine[], options?: TranscribeOptions) => Promise<Record<string, string>>;
+  // 逐句翻译，回传的阵列与输入一一对应；不支援的后端可省略
+  translateTexts?: (texts: string[], targetLanguage: TranslationLanguage, options?: TranscribeOptions) => Promise<string[]>;
+  // 由一段逐字稿产生会议记录草稿，以及合并多段草稿；不支援的后端可省略
+  draftMinutes?: (lines: TimedLine[], options?: TranscribeOptions) => Promise<MeetingMinutes>;
+  mergeMinutes?: (partials: MeetingMinutes[], options?: TranscribeOptions) => Promise<MeetingMinutes>;
+  // 将一段逐字稿依主题切分为章节；不支援的后端可省略
+  detectChapters?: (lines: TimedLine[], options?: TranscribeOptions) => Promise<ChapterMarker[]>;
+}
+
+/**
+ * 带重试机制的转录函数，依错误分类决定是否重试及等待多久
+ */
+export const transcribeWithRetry = async <T>(
+  fn: () => Promise<T>,
+  options: TranscribeOptions = {}
+): Promise<T> => {
+  const { maxRetries = 3, retryDelay = 1000, onRetry, shouldRetry, signal } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+    try {
+      return await fn();
+    } catch (error) {
+      // 取消时不重试，原样抛出 AbortError
+      signal?.throwIfAborted();
+      const appError = parseGeminiError(error);
+      // 金钥无效、请求格式错误等不可重试的错误直接抛出
+      if (attempt >= maxRetries || !appError.retryable || (shouldRetry && !shouldRetry(appError))) {
+        throw appError;
+      }
+
+      // 优先采用服务器建议的等待时间，否则指数退避
+      const baseDelay = appError.retryAfterMs ?? retryDelay * Math.pow(2, attempt);
+      const delayMs = Math.round(baseDelay * (1 + Math.random() * RETRY_JITTER));
+      onRetry?.({ attempt: attempt + 1, maxRetries, delayMs, error: appError });
+      await abortableSleep(delayMs, signal);
+    }
+  }
+};
+
+/**
+ * 将片段内的相对时间 (MM:SS) 转换为整个音档的绝对秒数
+ */
+export const toAbsoluteSeconds = (relativeTimestamp: string, startTimeOffset: number): number => {
+  const [mm, ss] = relativeTimestamp.split(':').map(Number);
+  const segmentSeconds = (isNaN(mm) ? 0 : mm * 60) + (isNaN(ss) ? 0 : ss);
+  return startTimeOffset + segmentSeconds;
+};
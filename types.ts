@@ -3,12 +3,86 @@ export interface TranscriptSegment {
   timestamp: string; // Original timestamp string from AI (e.g. "00:15")
   startTimeSeconds: number; // Calculated absolute seconds
   text: string;
+  chunkIndex?: number; // Index of the audio chunk this segment came from
+  translation?: string; // Translated text, same boundaries and timestamp as the original
+}
+
+// 音讯资料保存在 audio worker 中，片段只记录在整个档案中的取样范围
+export interface AudioChunk {
+  startFrame: number;
+  endFrame: number; // exclusive
+  startTimeSeconds: number; // Real offset of this chunk within the whole file
+  durationSeconds: number;
+}
+
+export interface KnownSpeaker {
+  role: string; // e.g. "主持人"
+  name: string; // e.g. "王小明"
+}
+
+export interface SpeakerHints {
+  expectedCount: number; // 0 = unknown
+  speakers: KnownSpeaker[];
+}
+
+export interface GlossaryTerm {
+  id: string;
+  term: string; // Preferred spelling
+  aliases: string[]; // Known misspellings / variants to normalize
+  description: string; // Optional context for the model (e.g. "公司內部專案代號")
+}
+
+export type SourceLanguage = 'auto' | 'zh' | 'en' | 'ja' | 'yue';
+export type OutputLanguage = 'original' | 'zh-Hant' | 'zh-Hans' | 'en' | 'ja' | 'yue-Hant';
+export type TranscriptionStyle = 'verbatim' | 'clean';
+
+export type TranslationLanguage = 'en' | 'zh-Hant' | 'zh-Hans' | 'ja';
+export type SubtitleMode = 'original' | 'translation' | 'bilingual';
+
+export interface TranscriptionSettings {
+  sourceLanguage: SourceLanguage;
+  outputLanguage: OutputLanguage; // Output language and script
+  style: TranscriptionStyle; // verbatim = 逐字, clean = 潤飾為易讀文句
+  keepFillerWords: boolean;
+}
+
+export interface MinutesItem {
+  text: string;
+  sourceTimes: number[]; // startTimeSeconds of supporting transcript segments
+}
+
+export interface ActionItem extends MinutesItem {
+  owner: string;
+  dueDate: string; // Free-form as spoken, e.g. "下週五", empty if not mentioned
+}
+
+export interface MeetingMinutes {
+  summary: string;
+  decisions: MinutesItem[];
+  actionItems: ActionItem[];
+  openQuestions: MinutesItem[];
+}
+
+export interface Chapter {
+  title: string;
+  startTimeSeconds: number;
+  endTimeSeconds: number;
+}
+
+// 实际回报的 token 用量，audioTokens 另计是因为音讯输入单价较高
+export interface TokenUsage {
+  inputTokens: number; // 文字输入 (提示词)
+  audioTokens: number;
+  outputTokens: number; // 含思考 token
+  requests: number;
 }
 
 export interface ProcessingStats {
   totalChunks: number;
-  processedChunks: number;
+  processedChunks: number; // Number of completed chunks (in any order)
   currentAction: string;
+  uploadBytes?: number; // 已上传的音讯大小 (前处理与压缩后)
+  sourceBytes?: number; // 相同片段未经前处理的 WAV 大小
 }
 
 export enum AppStatus {
@@ -17,5 +91,7 @@ export enum AppStatus {
   PROCESSING = 'PROCESSING', // Uploading/Transcribing
   COMPLETED = 'COMPLETED',
   ERROR = 'ERROR',
-  STOPPED = 'STOPPED'
+  STOPPED = 'STOPPED',
+  PAUSED = 'PAUSED', // 可在本次开启的页面中继续
+  RECORDING = 'RECORDING' // 麦克风录音中，片段录满即转录
 }
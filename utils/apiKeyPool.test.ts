@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApiKeyEntry, resetKeyHealth, withKeyRotation } from './apiKeyPool';
+import { runChunkPool } from './chunkPool';
+import { AppError, ErrorType } from './errorHandling';
+
+const keys: ApiKeyEntry[] = ['a', 'b'].map(id => ({ id, label: id, key: `key-${id}`, disabled: false }));
+
+const quotaError = (retryAfterMs?: number) => new AppError(ErrorType.QUOTA_EXCEEDED, '429', 'quota', true, { status: 429, retryAfterMs });
+const invalidKeyError = () => new AppError(ErrorType.INVALID_API_KEY, '401', 'invalid', false, { status: 401 });
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date(2024, 0, 1));
+});
+
+afterEach(() => {
+  keys.forEach(entry => resetKeyHealth(entry.id));
+  vi.useRealTimers();
+});
+
+describe('withKeyRotation', () => {
+  it('rotates to the next key on a quota error', async () => {
+    const used: string[] = [];
+    const result = await withKeyRotation(keys, async entry => {
+      used.push(entry.id);
+      if (entry.id === 'a') throw quotaError();
+      return entry.id;
+    });
+    expect(result).toBe('b');
+    expect(used).toEqual(['a', 'b']);
+  });
+
+  it('reports when the earliest key recovers once every key is cooling down', async () => {
+    const run = withKeyRotation(keys, async entry => {
+      throw entry.id === 'a' ? quotaError(10_000) : quotaError();
+    });
+    await expect(run).rejects.toMatchObject({ type: ErrorType.QUOTA_EXCEEDED, retryable: true, retryAfterMs: 10_000 });
+
+    vi.advanceTimersByTime(4_000);
+    await expect(withKeyRotation(keys, async () => 'unreachable'))
+      .rejects.toMatchObject({ type: ErrorType.QUOTA_EXCEEDED, retryAfterMs: 6_000 });
+  });
+
+  it('waits for the default cool-down with a single rate-limited key', async () => {
+    await expect(withKeyRotation(keys.slice(0, 1), async () => { throw quotaError(); }))
+      .rejects.toMatchObject({ type: ErrorType.QUOTA_EXCEEDED, retryAfterMs: 60_000 });
+  });
+
+  it('does not ask to retry when every key is invalid', async () => {
+    await expect(withKeyRotation(keys, async () => { throw invalidKeyError(); }))
+      .rejects.toMatchObject({ type: ErrorType.INVALID_API_KEY, retryable: false, retryAfterMs: undefined });
+    await expect(withKeyRotation(keys, async () => 'unreachable'))
+      .rejects.toMatchObject({ type: ErrorType.INVALID_API_KEY, retryable: false });
+  });
+});
+
+describe('runChunkPool with withKeyRotation', () => {
+  it('keeps the chunk queued until the cooling keys recover', async () => {
+    let calls = 0;
+    const done: number[] = [];
+    const errors: ErrorType[] = [];
+    const pool = runChunkPool({
+      chunkIndices: [0],
+      concurrency: 1,
+      shouldStop: () => false,
+      worker: () => withKeyRotation(keys, async entry => {
+        calls++;
+        if (calls <= 2) throw quotaError();
+        return entry.id;
+      }),
+      onResult: i => done.push(i),
+      onError: (_, error) => errors.push(error.type)
+    });
+
+    // 两个金钥都在冷却：默认的 5 秒冷却与 5 次重试上限都不会提早放弃
+    await vi.advanceTimersByTimeAsync(59_000);
+    expect(done).toEqual([]);
+    expect(calls).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    await pool;
+    expect(done).toEqual([0]);
+    expect(errors).toEqual([]);
+  });
+});
@@ -0,0 +1,181 @@
+import { AppError, ErrorType, parseGeminiError } from "./errorHandling";
+
+const STORAGE_KEY = 'gemini_api_keys';
+const LEGACY_STORAGE_KEY = 'gemini_api_key';
+
+// 配额用尽且服务器未提供建议等待时间时，暂停使用该金钥的时间
+const QUOTA_COOLDOWN_MS = 60 * 1000;
+
+export interface ApiKeyEntry {
+  id: string;
+  label: string;
+  key: string;
+  disabled: boolean;
+}
+
+export type KeyHealth =
+  | { state: 'ready' }
+  | { state: 'cooling'; until: number }
+  | { state: 'invalid' };
+
+// 冷却状态只保存在本次开启的页面中：金钥 id -> 可再次使用的时间 (Infinity = 金钥无效)。
+// 每次变更都换成新的物件，让 React 以 useSyncExternalStore 订阅
+let cooldowns: Readonly<Record<string, number>> = {};
+const listeners = new Set<() => void>();
+let expiryTimer: ReturnType<typeof setTimeout> | undefined;
+
+const setCooldowns = (next: Readonly<Record<string, number>>) => {
+  cooldowns = next;
+  scheduleExpiry();
+  listeners.forEach(listener => listener());
+};
+
+// 在最早结束的冷却到期时清除它并通知订阅者，画面才会改回使用恢复的金钥
+const scheduleExpiry = () => {
+  clearTimeout(expiryTimer);
+  const now = Date.now();
+  const pending = Object.values(cooldowns).filter(until => until > now && until !== Infinity);
+  if (pending.length === 0) return;
+  expiryTimer = setTimeout(() => {
+    const expiredAt = Date.now();
+    setCooldowns(Object.fromEntries(Object.entries(cooldowns).filter(([, until]) => until > expiredAt)));
+  }, Math.min(...pending) - now);
+};
+
+/**
+ * 订阅金钥冷却状态的变更 (开始冷却、冷却结束、重设)
+ */
+export const subscribeKeyHealth = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getKeyHealthSnapshot = () => cooldowns;
+
+/**
+ * 从 localStorage 读取金钥池，并迁移旧版单一金钥
+ */
+export const loadApiKeys = (): ApiKeyEntry[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) return JSON.parse(saved);
+
+    const legacyKey = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (legacyKey) {
+      const migrated = [{ id: crypto.randomUUID(), label: '預設', key: legacyKey, disabled: false }];
+      saveApiKeys(migrated);
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+      return migrated;
+    }
+  } catch (error) {
+    console.error('Failed to load API keys:', error);
+  }
+  return [];
+};
+
+/**
+ * 保存金钥池到 localStorage
+ */
+export const saveApiKeys = (keys: ApiKeyEntry[]): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(keys));
+  } catch (error) {
+    console.error('Failed to save API keys:', error);
+  }
+};
+
+export const getKeyHealth = (entry: ApiKeyEntry, now: number = Date.now()): KeyHealth => {
+  const until = cooldowns[entry.id];
+  if (until === undefined || until <= now) return { state: 'ready' };
+  return until === Infinity ? { state: 'invalid' } : { state: 'cooling', until };
+};
+
+/**
+ * 依顺序取得第一个启用且未在冷却中的金钥
+ */
+export const getActiveKey = (keys: ApiKeyEntry[]): ApiKeyEntry | undefined => {
+  const now = Date.now();
+  return keys.find(entry => !entry.disabled && getKeyHealth(entry, now).state === 'ready');
+};
+
+/**
+ * 除了指定的金钥之外，是否还有其他可用的金钥
+ */
+export const hasOtherActiveKey = (keys: ApiKeyEntry[], current: ApiKeyEntry): boolean =>
+  getActiveKey(keys.filter(entry => entry.id !== current.id)) !== undefined;
+
+/**
+ * 清除金钥的冷却状态，例如使用者修改了金钥内容之后
+ */
+export const resetKeyHealth = (id: string) => {
+  if (!(id in cooldowns)) return;
+  const { [id]: _removed, ...rest } = cooldowns;
+  setCooldowns(rest);
+};
+
+// 启用的金钥中最早结束冷却的剩余时间；没有会恢复的金钥 (全部停用或无效) 时为 undefined
+const getRecoveryDelay = (keys: ApiKeyEntry[], now: number = Date.now()): number | undefined => {
+  const pending = keys
+    .filter(entry => !entry.disabled)
+    .map(entry => cooldowns[entry.id])
+    .filter((until): until is number => until !== undefined && until !== Infinity && until > now);
+  return pending.length > 0 ? Math.min(...pending) - now : undefined;
+};
+
+// 没有可用的金钥：仍有金钥在冷却时回报配额错误并附上等待时间，让呼叫端冷却到那时再重试
+const noKeyAvailableError = (keys: ApiKeyEntry[], cause?: AppError): AppError => {
+  const retryAfterMs = getRecoveryDelay(keys);
+  if (retryAfterMs === undefined) {
+    return cause ?? new AppError(
+      ErrorType.INVALID_API_KEY,
+      'No API key available: all keys are disabled or invalid',
+      '沒有可用的 API Key，所有金鑰都已停用或無效',
+      false
+    );
+  }
+  return new AppError(
+    ErrorType.QUOTA_EXCEEDED,
+    cause?.message ?? 'No API key available: all keys are cooling down',
+    '所有 API Key 都已達到配額限制，冷卻結束後會自動重試',
+    true,
+    { status: cause?.status, retryAfterMs }
+  );
+};
+
+/**
+ * 以可用的金钥执行请求；遇到配额用尽或金钥无效时将该金钥冷却，改用下一个金钥重试。
+ * 所有金钥都不可用时抛出错误，仍有金钥在冷却时 retryAfterMs 为最早恢复的剩余时间
+ */
+export const withKeyRotation = async <T>(
+  keys: ApiKeyEntry[],
+  run: (entry: ApiKeyEntry) => Promise<T>,
+  onRotate?: (from: ApiKeyEntry, to: ApiKeyEntry, reason: ErrorType) => void
+): Promise<T> => {
+  let entry = getActiveKey(keys);
+  if (!entry) throw noKeyAvailableError(keys);
+
+  while (true) {
+    try {
+      return await run(entry);
+    } catch (error) {
+      const appError = parseGeminiError(error);
+      if (appError.type !== ErrorType.QUOTA_EXCEEDED && appError.type !== ErrorType.INVALID_API_KEY) {
+        throw error;
+      }
+
+      setCooldowns({
+        ...cooldowns,
+        [entry.id]: appError.type === ErrorType.INVALID_API_KEY
+          ? Infinity
+          : Date.now() + (appError.retryAfterMs ?? QUOTA_COOLDOWN_MS)
+      });
+      const next = getActiveKey(keys);
+      if (!next) throw noKeyAvailableError(keys, appError);
+
+      onRotate?.(entry, next, appError.type);
+      entry = next;
+    }
+  }
+};
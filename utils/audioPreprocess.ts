@@ -0,0 +1,140 @@
+import { UploadFormat } from "./processingSettings";
+
+// 语音辨识不需要更高的取样率
+export const TARGET_SAMPLE_RATE = 16000;
+// 高通滤波的截止频率，去除低频的嗡嗡声与麦克风碰撞声
+const HIGH_PASS_CUTOFF_HZ = 80;
+// 响度正规化的目标 RMS (约 -20 dBFS) 与最大增益 (+20 dB)
+const TARGET_RMS = 0.1;
+const MAX_GAIN = 10;
+const PEAK_LIMIT = 0.98;
+// 计算响度时的窗口长度 (秒) 与忽略的静音门槛 (约 -50 dBFS)
+const LOUDNESS_WINDOW_SECONDS = 0.4;
+const SILENCE_GATE_RMS = 0.003;
+
+export interface AudioPreprocessOptions {
+  normalizeLoudness: boolean;
+  highPassFilter: boolean;
+  format: UploadFormat;
+}
+
+/**
+ * 将 [startFrame, endFrame) 的所有声道平均为单声道
+ */
+export const downmixToMono = (channels: Float32Array[], startFrame: number, endFrame: number): Float32Array => {
+  const mono = new Float32Array(endFrame - startFrame);
+  for (const data of channels) {
+    for (let i = 0; i < mono.length; i++) {
+      mono[i] += data[startFrame + i];
+    }
+  }
+  if (channels.length > 1) {
+    for (let i = 0; i < mono.length; i++) {
+      mono[i] /= channels.length;
+    }
+  }
+  return mono;
+};
+
+type BiquadKind = 'lowpass' | 'highpass';
+
+/**
+ * 二阶 (RBJ) 滤波器，直接修改 samples
+ */
+const applyBiquad = (samples: Float32Array, sampleRate: number, kind: BiquadKind, cutoffHz: number) => {
+  const w0 = 2 * Math.PI * cutoffHz / sampleRate;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * Math.SQRT1_2);
+  const a0 = 1 + alpha;
+  const b0 = (kind === 'lowpass' ? (1 - cos) / 2 : (1 + cos) / 2) / a0;
+  const b1 = (kind === 'lowpass' ? 1 - cos : -(1 + cos)) / a0;
+  const b2 = b0;
+  const a1 = -2 * cos / a0;
+  const a2 = (1 - alpha) / a0;
+
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const x = samples[i];
+    const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = y;
+    samples[i] = y;
+  }
+};
+
+/**
+ * 降低取样率：先以两级低通滤波避免混叠，再线性内插
+ */
+export const resample = (samples: Float32Array, fromRate: number, toRate: number): Float32Array => {
+  if (fromRate === toRate) return samples;
+
+  if (toRate < fromRate) {
+    const filtered = samples.slice();
+    applyBiquad(filtered, fromRate, 'lowpass', toRate * 0.45);
+    applyBiquad(filtered, fromRate, 'lowpass', toRate * 0.45);
+    samples = filtered;
+  }
+
+  const ratio = fromRate / toRate;
+  const output = new Float32Array(Math.floor(samples.length / ratio));
+  for (let i = 0; i < output.length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, samples.length - 1);
+    const fraction = position - index;
+    output[i] = samples[index] * (1 - fraction) + samples[next] * fraction;
+  }
+  return output;
+};
+
+/**
+ * 以非静音部分的平均 RMS 调整音量，并限制峰值不超过 PEAK_LIMIT
+ */
+export const normalizeLoudness = (samples: Float32Array, sampleRate: number) => {
+  const windowSize = Math.max(1, Math.floor(LOUDNESS_WINDOW_SECONDS * sampleRate));
+  let energy = 0;
+  let counted = 0;
+  let peak = 0;
+
+  for (let start = 0; start < samples.length; start += windowSize) {
+    const end = Math.min(samples.length, start + windowSize);
+    let sum = 0;
+    for (let i = start; i < end; i++) {
+      sum += samples[i] * samples[i];
+      peak = Math.max(peak, Math.abs(samples[i]));
+    }
+    if (Math.sqrt(sum / (end - start)) >= SILENCE_GATE_RMS) {
+      energy += sum;
+      counted += end - start;
+    }
+  }
+  if (counted === 0 || peak === 0) return;
+
+  const gain = Math.min(TARGET_RMS / Math.sqrt(energy / counted), MAX_GAIN, PEAK_LIMIT / peak);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] *= gain;
+  }
+};
+
+/**
+ * 上传前的前处理：单声道、16 kHz (来源较低时维持原取样率)，可选高通滤波与响度正规化
+ */
+export const preprocessForUpload = (
+  channels: Float32Array[],
+  sampleRate: number,
+  startFrame: number,
+  endFrame: number,
+  options: AudioPreprocessOptions
+): { samples: Float32Array; sampleRate: number } => {
+  const targetRate = Math.min(sampleRate, TARGET_SAMPLE_RATE);
+  const samples = resample(downmixToMono(channels, startFrame, endFrame), sampleRate, targetRate);
+  if (options.highPassFilter) {
+    applyBiquad(samples, targetRate, 'highpass', HIGH_PASS_CUTOFF_HZ);
+  }
+  if (options.normalizeLoudness) {
+    normalizeLoudness(samples, targetRate);
+  }
+  return { samples, sampleRate: targetRate };
+};
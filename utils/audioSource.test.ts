@@ -0,0 +1,394 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { openAudioSource } from './audioSource';
+import { ErrorType } from './errorHandling';
+
+// ---------- 测试用的档案 ----------
+
+const concat = (...parts: Uint8Array[]) => {
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let pos = 0;
+  parts.forEach(part => {
+    output.set(part, pos);
+    pos += part.length;
+  });
+  return output;
+};
+
+const ascii = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+
+const u32 = (...values: number[]) => {
+  const bytes = new Uint8Array(values.length * 4);
+  values.forEach((value, i) => new DataView(bytes.buffer).setInt32(i * 4, value));
+  return bytes;
+};
+
+const toFile = (bytes: Uint8Array, name: string) => new File([bytes], name);
+
+const wavFile = (channels: number[][], bitsPerSample: 16 | 24) => {
+  const bytesPerSample = bitsPerSample / 8;
+  const frames = channels[0].length;
+  const blockAlign = channels.length * bytesPerSample;
+  const view = new DataView(new ArrayBuffer(44 + frames * blockAlign));
+  const text = (offset: number, value: string) => ascii(value).forEach((c, i) => view.setUint8(offset + i, c));
+  text(0, 'RIFF');
+  view.setUint32(4, 36 + frames * blockAlign, true);
+  text(8, 'WAVE');
+  text(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, channels.length, true);
+  view.setUint32(24, 8000, true);
+  view.setUint32(28, 8000 * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitsPerSample, true);
+  text(36, 'data');
+  view.setUint32(40, frames * blockAlign, true);
+  for (let frame = 0; frame < frames; frame++) {
+    channels.forEach((samples, channel) => {
+      const offset = 44 + frame * blockAlign + channel * bytesPerSample;
+      const value = Math.round(samples[frame] * (bitsPerSample === 16 ? 32768 : 8388608));
+      if (bitsPerSample === 16) {
+        view.setInt16(offset, value, true);
+      } else {
+        view.setUint8(offset, value & 0xff);
+        view.setUint8(offset + 1, (value >> 8) & 0xff);
+        view.setUint8(offset + 2, (value >> 16) & 0xff);
+      }
+    });
+  }
+  return toFile(new Uint8Array(view.buffer), 'test.wav');
+};
+
+// MPEG-1 Layer III，44.1 kHz、128 kbps、立体声：每帧 417 bytes、1152 个取样
+const MP3_FRAME_SIZE = 417;
+const MP3_SAMPLES_PER_FRAME = 1152;
+// 测试帧在 side info 之后写入自己的编号，供假的解码器辨识
+const MARKER_OFFSET = 40;
+
+const mp3Frame = (marker?: number) => {
+  const frame = new Uint8Array(MP3_FRAME_SIZE);
+  frame.set([0xff, 0xfb, 0x90, 0x00]);
+  if (marker !== undefined) new DataView(frame.buffer).setUint16(MARKER_OFFSET, marker);
+  return frame;
+};
+
+const mp3File = (frameCount: number, gapless?: { delay: number; padding: number }) => {
+  const parts = [concat(ascii('ID3'), new Uint8Array([4, 0, 0, 0, 0, 0, 0]))]; // 空的 ID3v2 标签
+  if (gapless) {
+    // Info 帧：flags = 帧数，接着是 LAME 标头
+    const info = mp3Frame();
+    info.set(concat(ascii('Info'), u32(1, frameCount)), 36);
+    info.set(ascii('LAME3.100'), 48);
+    info.set([gapless.delay >> 4, ((gapless.delay & 0x0f) << 4) | (gapless.padding >> 8), gapless.padding & 0xff], 48 + 21);
+    parts.push(info);
+  }
+  for (let i = 0; i < frameCount; i++) parts.push(mp3Frame(i));
+  return toFile(concat(...parts), 'test.mp3');
+};
+
+const box = (type: string, ...payload: Uint8Array[]) => {
+  const content = concat(...payload);
+  return concat(u32(8 + content.length), ascii(type), content);
+};
+
+const fullBox = (type: string, ...payload: Uint8Array[]) => box(type, new Uint8Array(4), ...payload);
+
+const fullBoxWithFlags = (type: string, flags: number, ...payload: Uint8Array[]) => box(type, u32(flags), ...payload);
+
+const AAC_SAMPLES_PER_FRAME = 1024;
+const AAC_FRAME_SIZE = 24;
+
+interface Edit {
+  duration: number; // 以 44100 的 movie timescale 计
+  mediaTime: number;
+}
+
+const aacFrames = (from: number, count: number) => Array.from({ length: count }, (_, i) => {
+  const frame = new Uint8Array(AAC_FRAME_SIZE);
+  new DataView(frame.buffer).setUint16(0, from + i);
+  return frame;
+});
+
+const mp4Moov = (frameCount: number, tables: Uint8Array[], edits: Edit[] = [], mvex?: Uint8Array) => {
+  const timescaleBox = (type: string) => fullBox(type, u32(0, 0, 44100, frameCount * AAC_SAMPLES_PER_FRAME), new Uint8Array(8));
+  const mp4a = box('mp4a',
+    new Uint8Array(6), new Uint8Array([0, 1]), // reserved、data reference index
+    new Uint8Array(8), // version、revision、vendor
+    new Uint8Array([0, 1, 0, 16, 0, 0, 0, 0]), // 单声道、16 bits
+    u32(44100 * 65536),
+    fullBox('esds',
+      new Uint8Array([0x03, 24, 0, 1, 0]), // ES_Descriptor
+      new Uint8Array([0x04, 13, 0x40, 0x15, ...new Array(11).fill(0)]), // DecoderConfigDescriptor
+      new Uint8Array([0x05, 2, 0x12, 0x08]) // AAC LC、44.1 kHz、单声道
+    )
+  );
+  const trak = box('trak',
+    fullBox('tkhd', u32(0, 0, 1), new Uint8Array(68)), // track_ID = 1
+    ...(edits.length > 0 ? [box('edts', fullBox('elst', u32(edits.length, ...edits.flatMap(edit => [edit.duration, edit.mediaTime, 0x10000]))))] : []),
+    box('mdia',
+      timescaleBox('mdhd'),
+      fullBox('hdlr', u32(0), ascii('soun'), new Uint8Array(13)),
+      box('minf', box('stbl', fullBox('stsd', u32(1), mp4a), ...tables))
+    )
+  );
+  return box('moov', timescaleBox('mvhd'), trak, ...(mvex ? [mvex] : []));
+};
+
+const mp4File = (frameCount: number, edits: Edit[] = []) => {
+  const ftyp = box('ftyp', ascii('M4A '), u32(0), ascii('isomM4A '));
+  const frames = aacFrames(0, frameCount);
+
+  const buildMoov = (dataOffset: number) => mp4Moov(frameCount, [
+    fullBox('stsz', u32(0, frameCount, ...frames.map(frame => frame.length))),
+    fullBox('stsc', u32(1, 1, frameCount, 1)),
+    fullBox('stts', u32(1, frameCount, AAC_SAMPLES_PER_FRAME)),
+    fullBox('stco', u32(1, dataOffset))
+  ], edits);
+
+  const moovSize = buildMoov(0).length;
+  const moov = buildMoov(ftyp.length + moovSize + 8);
+  return toFile(concat(ftyp, moov, box('mdat', ...frames)), 'test.m4a');
+};
+
+// 没有 ftyp 的 fragmented MP4：每个片段前面放一个影像轨的 traf，检查只取出音轨
+const fragmentedMp4File = (fragmentSizes: number[]) => {
+  const frameCount = fragmentSizes.reduce((sum, count) => sum + count, 0);
+  const moov = mp4Moov(frameCount, [
+    fullBox('stsz', u32(0, 0)),
+    fullBox('stsc', u32(0)),
+    fullBox('stts', u32(0)),
+    fullBox('stco', u32(0))
+  ], [], box('mvex', fullBox('trex', u32(1, 1, AAC_SAMPLES_PER_FRAME, 0, 0))));
+
+  const VIDEO_BYTES = 50;
+  let first = 0;
+  const fragments = fragmentSizes.map(count => {
+    const frames = aacFrames(first, count);
+    first += count;
+    const buildMoof = (dataOffset: number) => box('moof',
+      fullBox('mfhd', u32(1)),
+      box('traf',
+        fullBoxWithFlags('tfhd', 0x020000, u32(2)),
+        fullBoxWithFlags('trun', 0x201, u32(1, dataOffset, VIDEO_BYTES))
+      ),
+      box('traf',
+        fullBoxWithFlags('tfhd', 0x020000, u32(1)),
+        fullBoxWithFlags('trun', 0x201, u32(count, dataOffset + VIDEO_BYTES, ...frames.map(frame => frame.length)))
+      )
+    );
+    const moofSize = buildMoof(0).length;
+    return concat(buildMoof(moofSize + 8), box('mdat', new Uint8Array(VIDEO_BYTES), ...frames));
+  });
+  return toFile(concat(moov, ...fragments), 'test.mp4');
+};
+
+const OPUS_SAMPLES_PER_PACKET = 960; // 20 ms
+const OPUS_PRE_SKIP = 312;
+
+// 串流录影的写法：Segment 与 Cluster 的长度未知，影像 (track 1) 与音讯 (track 2) 交错
+const webmFile = (packetCount: number) => {
+  const UNKNOWN_SIZE = new Uint8Array([0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]);
+  const element = (id: number[], ...payload: Uint8Array[]) => {
+    const content = concat(...payload);
+    return concat(new Uint8Array(id), new Uint8Array([0x10, content.length >> 16, (content.length >> 8) & 0xff, content.length & 0xff]), content);
+  };
+  const uint = (id: number[], value: number) => element(id, new Uint8Array([value]));
+  const opusHead = concat(ascii('OpusHead'), new Uint8Array([1, 1, OPUS_PRE_SKIP & 0xff, OPUS_PRE_SKIP >> 8, 0x80, 0xbb, 0, 0, 0, 0, 0]));
+  const frequency = new Uint8Array(8);
+  new DataView(frequency.buffer).setFloat64(0, 48000);
+
+  const simpleBlock = (track: number, timecode: number, payload: Uint8Array) =>
+    element([0xa3], new Uint8Array([0x80 | track, timecode >> 8, timecode & 0xff, 0x80]), payload);
+  const clusters: Uint8Array[] = [];
+  for (let i = 0; i < packetCount; i += 5) {
+    const blocks: Uint8Array[] = [];
+    for (let j = i; j < Math.min(i + 5, packetCount); j++) {
+      const packet = new Uint8Array(20);
+      packet[0] = 0xf8; // CELT、20 ms、单一帧
+      new DataView(packet.buffer).setUint16(1, j);
+      blocks.push(simpleBlock(1, (j - i) * 20, new Uint8Array(300)), simpleBlock(2, (j - i) * 20, packet));
+    }
+    clusters.push(concat(new Uint8Array([0x1f, 0x43, 0xb6, 0x75]), UNKNOWN_SIZE, uint([0xe7], i * 20), ...blocks));
+  }
+
+  return toFile(concat(
+    element([0x1a, 0x45, 0xdf, 0xa3], element([0x42, 0x82], ascii('webm'))),
+    new Uint8Array([0x18, 0x53, 0x80, 0x67]), UNKNOWN_SIZE,
+    element([0x15, 0x49, 0xa9, 0x66], element([0x2a, 0xd7, 0xb1], new Uint8Array([0x0f, 0x42, 0x40]))),
+    element([0x16, 0x54, 0xae, 0x6b],
+      element([0xae], uint([0xd7], 1), uint([0x83], 1), element([0x86], ascii('V_VP8'))),
+      element([0xae], uint([0xd7], 2), uint([0x83], 2), element([0x86], ascii('A_OPUS')), element([0x63, 0xa2], opusHead),
+        element([0xe1], element([0xb5], frequency), uint([0x9f], 1)))
+    ),
+    ...clusters
+  ), 'test.webm');
+};
+
+// ---------- 假的解码器 ----------
+
+// 读取 EBML 可变长度整数
+const readVint = (bytes: Uint8Array, pos: number, keepMarker: boolean) => {
+  const length = Math.clz32(bytes[pos]) - 23;
+  let value = keepMarker ? bytes[pos] : bytes[pos] & (0xff >> length);
+  for (let i = 1; i < length; i++) value = value * 256 + bytes[pos + i];
+  return { value, length };
+};
+
+// 与 FFmpeg 相同，Opus 解码时裁去标头的 pre-skip
+const decodeWebm = (bytes: Uint8Array): number[] => {
+  const MASTERS = [0x18538067, 0x1f43b675, 0x1654ae6b, 0xae];
+  const output: number[] = [];
+  let preSkip = 0;
+  let pos = 0;
+  while (pos < bytes.length) {
+    const id = readVint(bytes, pos, true);
+    const size = readVint(bytes, pos + id.length, false);
+    const payload = pos + id.length + size.length;
+    if (MASTERS.includes(id.value)) {
+      pos = payload;
+      continue;
+    }
+    if (id.value === 0x63a2) preSkip = bytes[payload + 10] | (bytes[payload + 11] << 8);
+    if (id.value === 0xa3) {
+      expect(bytes[payload]).toBe(0x81); // 重新封装后只有一个音轨
+      const marker = new DataView(bytes.buffer, bytes.byteOffset).getUint16(payload + 5);
+      for (let i = 0; i < OPUS_SAMPLES_PER_PACKET; i++) output.push(marker * OPUS_SAMPLES_PER_PACKET + i);
+    }
+    pos = payload + size.value;
+  }
+  return output.slice(preSkip);
+};
+
+// 把每个帧解码为 [编号 * 每帧取样数, ...] 的递增数列，用于检查取样位置的对应
+const decodeFrames = (bytes: Uint8Array): number[] => {
+  if (bytes[0] === 0x1a && bytes[1] === 0x45) return decodeWebm(bytes);
+  const output: number[] = [];
+  let pos = 0;
+  while (pos < bytes.length) {
+    if (bytes[pos + 1] === 0xfb) {
+      const marker = new DataView(bytes.buffer, bytes.byteOffset).getUint16(pos + MARKER_OFFSET);
+      for (let i = 0; i < MP3_SAMPLES_PER_FRAME; i++) output.push(marker * MP3_SAMPLES_PER_FRAME + i);
+      pos += MP3_FRAME_SIZE;
+    } else {
+      expect(bytes[pos + 1]).toBe(0xf1); // ADTS
+      const frameLength = ((bytes[pos + 3] & 0x03) << 11) | (bytes[pos + 4] << 3) | (bytes[pos + 5] >> 5);
+      const marker = new DataView(bytes.buffer, bytes.byteOffset).getUint16(pos + 7);
+      for (let i = 0; i < AAC_SAMPLES_PER_FRAME; i++) output.push(marker * AAC_SAMPLES_PER_FRAME + i);
+      pos += frameLength;
+    }
+  }
+  return output;
+};
+
+beforeEach(() => {
+  vi.stubGlobal('OfflineAudioContext', class {
+    decodeAudioData = async (buffer: ArrayBuffer) => {
+      const data = Float32Array.from(decodeFrames(new Uint8Array(buffer)));
+      return { numberOfChannels: 1, length: data.length, getChannelData: () => data };
+    };
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+const readRange = async (file: File, start: number, end: number) => {
+  const source = await openAudioSource(file);
+  const [channel] = await source.readFrames(start, end);
+  return { source, samples: Array.from(channel) };
+};
+
+const range = (start: number, count: number) => Array.from({ length: count }, (_, i) => start + i);
+
+// ---------- 测试 ----------
+
+describe('openAudioSource: WAV', () => {
+  it('reads 16-bit stereo PCM by frame range', async () => {
+    const left = range(0, 100).map(i => i / 200);
+    const right = left.map(v => -v);
+    const source = await openAudioSource(wavFile([left, right], 16));
+    expect(source).toMatchObject({ sampleRate: 8000, channelCount: 2, length: 100, segmented: true });
+    const [l, r] = await source.readFrames(10, 13);
+    expect(Array.from(l)).toEqual(left.slice(10, 13).map(v => Math.round(v * 32768) / 32768));
+    expect(Array.from(r)).toEqual(right.slice(10, 13).map(v => Math.round(v * 32768) / 32768));
+  });
+
+  it('reads 24-bit PCM', async () => {
+    const samples = [0, 0.5, -0.25, -1];
+    const [channel] = await (await openAudioSource(wavFile([samples], 24))).readFrames(0, 4);
+    expect(Array.from(channel)).toEqual(samples);
+  });
+});
+
+describe('openAudioSource: MP3', () => {
+  it('maps frames directly without a LAME tag', async () => {
+    const { source, samples } = await readRange(mp3File(10), 5000, 5003);
+    expect(source.length).toBe(10 * MP3_SAMPLES_PER_FRAME);
+    expect(samples).toEqual([5000, 5001, 5002]);
+  });
+
+  it('skips the encoder and decoder delay and trims the padding from the LAME tag', async () => {
+    const file = mp3File(10, { delay: 576, padding: 1200 });
+    const skip = 576 + 529;
+    const { source, samples } = await readRange(file, 0, 3);
+    expect(samples).toEqual(range(skip, 3));
+    expect(source.length).toBe(10 * MP3_SAMPLES_PER_FRAME - 576 - 1200);
+    const [tail] = await source.readFrames(source.length - 2, source.length);
+    expect(Array.from(tail)).toEqual(range(skip + source.length - 2, 2));
+  });
+});
+
+describe('openAudioSource: MP4', () => {
+  it('maps AAC frames through the sample tables', async () => {
+    const { source, samples } = await readRange(mp4File(10), 3000, 3003);
+    expect(source).toMatchObject({ sampleRate: 44100, channelCount: 1, length: 10 * AAC_SAMPLES_PER_FRAME });
+    expect(samples).toEqual([3000, 3001, 3002]);
+  });
+
+  it('starts at the edit list media time and ends with the edit duration', async () => {
+    const { source, samples } = await readRange(mp4File(10, [{ duration: 7828, mediaTime: 2112 }]), 0, 3);
+    expect(samples).toEqual([2112, 2113, 2114]);
+    expect(source.length).toBe(7828);
+  });
+
+  it('pads a leading empty edit with silence', async () => {
+    const file = mp4File(10, [{ duration: 441, mediaTime: -1 }, { duration: 5000, mediaTime: 0 }]);
+    const { source, samples } = await readRange(file, 439, 443);
+    expect(samples).toEqual([0, 0, 0, 1]);
+    expect(source.length).toBe(5441);
+  });
+});
+
+describe('openAudioSource: fragmented MP4', () => {
+  it('reads the audio samples from each moof without a leading ftyp', async () => {
+    const { source, samples } = await readRange(fragmentedMp4File([4, 6]), 4000, 4200);
+    expect(source).toMatchObject({ sampleRate: 44100, length: 10 * AAC_SAMPLES_PER_FRAME, segmented: true });
+    expect(samples).toEqual(range(4000, 200));
+  });
+});
+
+describe('openAudioSource: WebM', () => {
+  it('demuxes the Opus track from interleaved unknown-size clusters and skips the pre-skip', async () => {
+    const { source, samples } = await readRange(webmFile(12), 0, 3);
+    expect(source).toMatchObject({ sampleRate: 48000, channelCount: 1, segmented: true });
+    expect(source.length).toBe(12 * OPUS_SAMPLES_PER_PACKET - OPUS_PRE_SKIP);
+    expect(samples).toEqual(range(OPUS_PRE_SKIP, 3));
+  });
+
+  it('aligns ranges decoded from the middle of the stream', async () => {
+    const source = await openAudioSource(webmFile(12));
+    const [channel] = await source.readFrames(5000, 5003);
+    expect(Array.from(channel)).toEqual(range(5000 + OPUS_PRE_SKIP, 3));
+    const [tail] = await source.readFrames(source.length - 2, source.length);
+    expect(Array.from(tail)).toEqual(range(12 * OPUS_SAMPLES_PER_PACKET - 2, 2));
+  });
+});
+
+describe('openAudioSource: unsupported formats', () => {
+  it('refuses to decode a large file whole', async () => {
+    const file = toFile(new Uint8Array(64), 'test.ogg');
+    Object.defineProperty(file, 'size', { value: 200 * 1024 * 1024 });
+    await expect(openAudioSource(file)).rejects.toMatchObject({ type: ErrorType.AUDIO_DECODE_ERROR });
+  });
+});
@@ -0,0 +1,986 @@
+import { decodeAudio } from "./audioUtils";
+import { isAbortError } from "./abort";
+import { AppError, ErrorType } from "./errorHandling";
+
+/**
+ * 可依取样范围读取的音讯来源。WAV、MP3、M4A/MP4 与 WebM 只读取并解码需要的部分，
+ * 记忆体用量取决于同时处理的片段数而非档案长度；其他格式退回整个档案解码
+ */
+export interface AudioSource {
+  sampleRate: number;
+  channelCount: number;
+  length: number; // 每个声道的总取样数
+  duration: number;
+  segmented: boolean; // false = 整个档案已解码在记忆体中
+  // 读取 [startFrame, endFrame) 的各声道取样，每次都回传新的阵列
+  readFrames: (startFrame: number, endFrame: number, signal?: AbortSignal) => Promise<Float32Array[]>;
+}
+
+// 建立 MP3 帧索引时每次读取的大小
+const SCAN_BLOCK_BYTES = 4 * 1024 * 1024;
+// 解码压缩格式的范围时往前多解码的帧数，让解码器状态 (bit reservoir、MDCT 重叠) 稳定后再取用
+const WARMUP_FRAMES = 2;
+
+const readBytes = async (file: Blob, start: number, end: number): Promise<Uint8Array> =>
+  new Uint8Array(await file.slice(start, end).arrayBuffer());
+
+const readAscii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let pos = 0;
+  parts.forEach(part => {
+    output.set(part, pos);
+    pos += part.length;
+  });
+  return output;
+};
+
+// ---------- 整个档案解码 (其他格式) ----------
+
+const createBufferSource = (audioBuffer: AudioBuffer): AudioSource => ({
+  sampleRate: audioBuffer.sampleRate,
+  channelCount: audioBuffer.numberOfChannels,
+  length: audioBuffer.length,
+  duration: audioBuffer.duration,
+  segmented: false,
+  readFrames: async (startFrame, endFrame) =>
+    Array.from({ length: audioBuffer.numberOfChannels }, (_, channel) => audioBuffer.getChannelData(channel).slice(startFrame, endFrame))
+});
+
+// ---------- WAV：直接依 byte 范围读取 PCM ----------
+
+const openWavSource = async (file: File): Promise<AudioSource | null> => {
+  const riff = await readBytes(file, 0, 12);
+  if (readAscii(riff, 0, 4) !== 'RIFF' || readAscii(riff, 8, 4) !== 'WAVE') return null;
+
+  let format: { formatTag: number; channelCount: number; sampleRate: number; blockAlign: number; bitsPerSample: number } | null = null;
+  let pos = 12;
+  while (pos + 8 <= file.size) {
+    const header = await readBytes(file, pos, pos + 8);
+    const id = readAscii(header, 0, 4);
+    const size = new DataView(header.buffer).getUint32(4, true);
+
+    if (id === 'fmt ') {
+      const fmt = new DataView((await readBytes(file, pos + 8, pos + 8 + Math.min(size, 40))).buffer);
+      let formatTag = fmt.getUint16(0, true);
+      // WAVE_FORMAT_EXTENSIBLE：实际格式在 SubFormat GUID 的前两个 byte
+      if (formatTag === 0xfffe && size >= 26) formatTag = fmt.getUint16(24, true);
+      format = {
+        formatTag,
+        channelCount: fmt.getUint16(2, true),
+        sampleRate: fmt.getUint32(4, true),
+        blockAlign: fmt.getUint16(12, true),
+        bitsPerSample: fmt.getUint16(14, true)
+      };
+    } else if (id === 'data') {
+      if (!format) return null;
+      const { formatTag, channelCount, sampleRate, blockAlign, bitsPerSample } = format;
+      const supported = (formatTag === 1 && [8, 16, 24, 32].includes(bitsPerSample))
+        || (formatTag === 3 && [32, 64].includes(bitsPerSample));
+      if (!supported || channelCount === 0 || blockAlign !== channelCount * bitsPerSample / 8) return null;
+
+      const dataOffset = pos + 8;
+      // 串流录音的 data 长度可能是 0 或 0xFFFFFFFF，以档案实际大小为准
+      const dataSize = size === 0 || dataOffset + size > file.size ? file.size - dataOffset : size;
+      const length = Math.floor(dataSize / blockAlign);
+      const bytesPerSample = bitsPerSample / 8;
+
+      const readSample = (view: DataView, offset: number): number => {
+        if (formatTag === 3) return bitsPerSample === 32 ? view.getFloat32(offset, true) : view.getFloat64(offset, true);
+        switch (bitsPerSample) {
+          case 8: return (view.getUint8(offset) - 128) / 128;
+          case 16: return view.getInt16(offset, true) / 32768;
+          case 24: return ((view.getUint8(offset + 2) << 24 | view.getUint8(offset + 1) << 16 | view.getUint8(offset) << 8) >> 8) / 8388608;
+          default: return view.getInt32(offset, true) / 2147483648;
+        }
+      };
+
+      return {
+        sampleRate,
+        channelCount,
+        length,
+        duration: length / sampleRate,
+        segmented: true,
+        readFrames: async (startFrame, endFrame) => {
+          const bytes = await readBytes(file, dataOffset + startFrame * blockAlign, dataOffset + endFrame * blockAlign);
+          const view = new DataView(bytes.buffer);
+          const frameCount = Math.floor(bytes.length / blockAlign);
+          const channels = Array.from({ length: channelCount }, () => new Float32Array(endFrame - startFrame));
+          for (let frame = 0; frame < frameCount; frame++) {
+            for (let channel = 0; channel < channelCount; channel++) {
+              channels[channel][frame] = readSample(view, frame * blockAlign + channel * bytesPerSample);
+            }
+          }
+          return channels;
+        }
+      };
+    }
+    pos += 8 + size + (size % 2); // chunk 以偶数 byte 对齐
+  }
+  return null;
+};
+
+// ---------- 以压缩帧为单位解码 (MP3、M4A) ----------
+
+interface FrameIndex {
+  sampleRate: number; // 解码输出的取样率
+  channelCount: number;
+  frameCount: number;
+  frameStart: (frame: number) => number; // 第 frame 个压缩帧在解码串流中的起始取样位置，frameStart(frameCount) = 串流长度
+  // 时间轴起点在解码串流中的位置：扣除编码器与解码器延迟 (priming) 或依 edit list 指定；
+  // 负数表示时间轴开头有一段空白 (empty edit)，以静音补上
+  startOffset: number;
+  length: number; // 时间轴的长度，已扣除开头的 priming 与结尾补齐的取样
+  // 取得帧 [from, to) 可直接交给 decodeAudioData 的资料
+  readEncoded: (from: number, to: number) => Promise<Uint8Array>;
+}
+
+// 起始取样位置 <= sample 的最后一个帧
+const findFrame = (index: FrameIndex, sample: number) => {
+  let low = 0;
+  let high = index.frameCount - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (index.frameStart(mid) <= sample) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+};
+
+const createFramedSource = (index: FrameIndex): AudioSource => ({
+  sampleRate: index.sampleRate,
+  channelCount: index.channelCount,
+  length: index.length,
+  duration: index.length / index.sampleRate,
+  segmented: true,
+  readFrames: async (startFrame, endFrame, signal) => {
+    const channels = Array.from({ length: index.channelCount }, () => new Float32Array(endFrame - startFrame));
+    // 换算为解码串流中的范围，超出串流的部分 (empty edit、结尾) 维持静音
+    const streamStart = Math.max(0, startFrame + index.startOffset);
+    const streamEnd = Math.min(index.frameStart(index.frameCount), endFrame + index.startOffset);
+    if (streamEnd <= streamStart) return channels;
+
+    const first = Math.max(0, findFrame(index, streamStart) - WARMUP_FRAMES);
+    const last = Math.min(index.frameCount, findFrame(index, streamEnd - 1) + 1);
+    const encoded = await index.readEncoded(first, last);
+    signal?.throwIfAborted();
+    // 以来源的取样率解码，避免 AudioContext 重新取样
+    const decoded = await new OfflineAudioContext(index.channelCount, 1, index.sampleRate).decodeAudioData(encoded.buffer as ArrayBuffer);
+    signal?.throwIfAborted();
+
+    // 部分解码器会裁去开头的 priming (例如 Opus 的 pre-skip、Vorbis 的第一个封包)，以结尾对齐
+    const trimmed = Math.max(0, index.frameStart(last) - index.frameStart(first) - decoded.length);
+    const decodedOffset = streamStart - index.frameStart(first) - trimmed;
+    // 落在被裁去范围内的取样维持静音
+    const skipped = Math.max(0, -decodedOffset);
+    const outputOffset = streamStart - (startFrame + index.startOffset) + skipped;
+    const count = streamEnd - streamStart - skipped;
+    if (count <= 0) return channels;
+    channels.forEach((output, channel) => {
+      const data = decoded.getChannelData(Math.min(channel, decoded.numberOfChannels - 1));
+      output.set(data.subarray(decodedOffset + skipped, decodedOffset + skipped + count), outputOffset);
+    });
+    return channels;
+  }
+});
+
+// ---------- MP3 ----------
+
+const MP3_BITRATES_V1 = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MP3_BITRATES_V2 = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+const MP3_SAMPLE_RATES: Record<number, number[]> = { 3: [44100, 48000, 32000], 2: [22050, 24000, 16000], 0: [11025, 12000, 8000] };
+
+// MP3 解码器固有的延迟；LAME 标头记录的编码器延迟不含这一段
+const MP3_DECODER_DELAY = 529;
+
+interface Mp3FrameHeader {
+  size: number;
+  sampleRate: number;
+  samplesPerFrame: number;
+  channelCount: number;
+  sideInfoSize: number;
+}
+
+// 只接受 MPEG Layer III
+const parseMp3FrameHeader = (bytes: Uint8Array, offset: number): Mp3FrameHeader | null => {
+  if (offset + 4 > bytes.length || bytes[offset] !== 0xff || (bytes[offset + 1] & 0xe0) !== 0xe0) return null;
+  const version = (bytes[offset + 1] >> 3) & 0x03;
+  const layer = (bytes[offset + 1] >> 1) & 0x03;
+  const bitrateIndex = bytes[offset + 2] >> 4;
+  const sampleRateIndex = (bytes[offset + 2] >> 2) & 0x03;
+  if (version === 1 || layer !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) return null;
+
+  const mpeg1 = version === 3;
+  const bitrate = (mpeg1 ? MP3_BITRATES_V1 : MP3_BITRATES_V2)[bitrateIndex] * 1000;
+  const sampleRate = MP3_SAMPLE_RATES[version][sampleRateIndex];
+  const padding = (bytes[offset + 2] >> 1) & 0x01;
+  const mono = (bytes[offset + 3] >> 6) === 3;
+  return {
+    size: Math.floor((mpeg1 ? 144 : 72) * bitrate / sampleRate) + padding,
+    sampleRate,
+    samplesPerFrame: mpeg1 ? 1152 : 576,
+    channelCount: mono ? 1 : 2,
+    sideInfoSize: mpeg1 ? (mono ? 17 : 32) : (mono ? 9 : 17)
+  };
+};
+
+/**
+ * 读取 Xing/Info 帧中 LAME 标头记录的编码器延迟与结尾补齐的取样数
+ */
+const parseLameGapless = (bytes: Uint8Array, tagOffset: number): { delay: number; padding: number } | null => {
+  if (tagOffset + 8 > bytes.length) return null;
+  const flags = new DataView(bytes.buffer, bytes.byteOffset + tagOffset + 4, 4).getUint32(0);
+  let pos = tagOffset + 8;
+  if (flags & 0x01) pos += 4; // 帧数
+  if (flags & 0x02) pos += 4; // byte 数
+  if (flags & 0x04) pos += 100; // TOC
+  if (flags & 0x08) pos += 4; // 品质
+  // LAME 与 FFmpeg (Lavc/Lavf) 写入相同格式的延迟栏位
+  if (pos + 24 > bytes.length || !['LAME', 'Lavc', 'Lavf'].includes(readAscii(bytes, pos, 4))) return null;
+  return {
+    delay: (bytes[pos + 21] << 4) | (bytes[pos + 22] >> 4),
+    padding: ((bytes[pos + 22] & 0x0f) << 8) | bytes[pos + 23]
+  };
+};
+
+const openMp3Source = async (file: File, onProgress?: (progress: number) => void, signal?: AbortSignal): Promise<AudioSource | null> => {
+  // 略过 ID3v2 标签
+  const head = await readBytes(file, 0, 10);
+  let pos = 0;
+  if (readAscii(head, 0, 3) === 'ID3') {
+    pos = 10 + ((head[6] & 0x7f) << 21 | (head[7] & 0x7f) << 14 | (head[8] & 0x7f) << 7 | (head[9] & 0x7f));
+    if (head[5] & 0x10) pos += 10; // footer
+  }
+
+  // 扫描整个档案建立帧索引，只保留每帧的 byte 位置
+  const offsets: number[] = [];
+  let first: Mp3FrameHeader | null = null;
+  let gapless: { delay: number; padding: number } | null = null;
+  let block = new Uint8Array(0);
+  let blockStart = pos;
+  while (pos + 4 <= file.size) {
+    if (pos + 4 > blockStart + block.length) {
+      signal?.throwIfAborted();
+      blockStart = pos;
+      block = await readBytes(file, pos, pos + SCAN_BLOCK_BYTES);
+      onProgress?.(pos / file.size);
+    }
+    const frame = parseMp3FrameHeader(block, pos - blockStart);
+    if (!frame || (first && frame.sampleRate !== first.sampleRate)) {
+      // 失去同步 (例如档尾的 ID3v1 标签)：逐 byte 寻找下一个帧
+      if (!first) return null;
+      pos++;
+      continue;
+    }
+    if (!first) {
+      first = frame;
+      // Xing/Info 标头帧不含音讯
+      const tagOffset = pos - blockStart + 4 + frame.sideInfoSize;
+      const tag = readAscii(block, tagOffset, 4);
+      if (tag === 'Xing' || tag === 'Info') {
+        gapless = parseLameGapless(block.subarray(0, pos - blockStart + frame.size), tagOffset);
+        pos += frame.size;
+        continue;
+      }
+    }
+    offsets.push(pos);
+    pos += frame.size;
+  }
+  if (!first || offsets.length === 0) return null;
+  const endOffset = Math.min(pos, file.size);
+  const { sampleRate, samplesPerFrame, channelCount } = first;
+  const streamLength = offsets.length * samplesPerFrame;
+  // 有 LAME 标头时与浏览器播放一致：去掉开头的延迟与结尾的补齐
+  const startOffset = gapless ? gapless.delay + MP3_DECODER_DELAY : 0;
+
+  return createFramedSource({
+    sampleRate,
+    channelCount,
+    frameCount: offsets.length,
+    frameStart: frame => frame * samplesPerFrame,
+    startOffset,
+    length: gapless ? Math.max(0, streamLength - gapless.delay - gapless.padding) : streamLength,
+    readEncoded: (from, to) => readBytes(file, offsets[from], offsets[to] ?? endOffset)
+  });
+};
+
+// ---------- M4A / MP4 (AAC)，影片只取出音轨 ----------
+
+interface Mp4Box {
+  type: string;
+  start: number; // 内容起点 (不含标头)
+  end: number;
+}
+
+const readChildBoxes = (data: Uint8Array, start: number, end: number): Mp4Box[] => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const boxes: Mp4Box[] = [];
+  let pos = start;
+  while (pos + 8 <= end) {
+    let size = view.getUint32(pos);
+    let headerSize = 8;
+    if (size === 1) {
+      size = Number(view.getBigUint64(pos + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - pos;
+    }
+    if (size < headerSize) break;
+    boxes.push({ type: readAscii(data, pos + 4, 4), start: pos + headerSize, end: Math.min(end, pos + size) });
+    pos += size;
+  }
+  return boxes;
+};
+
+const findBox = (data: Uint8Array, parent: Mp4Box, path: string[]): Mp4Box | undefined => {
+  let box: Mp4Box | undefined = parent;
+  for (const type of path) {
+    box = readChildBoxes(data, box.start, box.end).find(child => child.type === type);
+    if (!box) return undefined;
+  }
+  return box;
+};
+
+// 读取 MPEG-4 descriptor 的可变长度
+const readDescriptorLength = (data: Uint8Array, pos: number): [number, number] => {
+  let length = 0;
+  for (let i = 0; i < 4; i++) {
+    const byte = data[pos++];
+    length = (length << 7) | (byte & 0x7f);
+    if (!(byte & 0x80)) break;
+  }
+  return [length, pos];
+};
+
+// 从 esds 取出 AudioSpecificConfig 中 ADTS 需要的栏位
+const parseEsds = (data: Uint8Array, box: Mp4Box): { objectType: number; frequencyIndex: number; channelConfig: number } | null => {
+  let pos = box.start + 4; // version + flags
+  while (pos < box.end) {
+    const tag = data[pos];
+    const [length, contentStart] = readDescriptorLength(data, pos + 1);
+    if (tag === 0x03) {
+      const flags = data[contentStart + 2];
+      pos = contentStart + 3;
+      if (flags & 0x80) pos += 2;
+      if (flags & 0x40) pos += 1 + data[pos];
+      if (flags & 0x20) pos += 2;
+    } else if (tag === 0x04) {
+      pos = contentStart + 13;
+    } else if (tag === 0x05) {
+      const config = (data[contentStart] << 8) | data[contentStart + 1];
+      const objectType = config >> 11;
+      const frequencyIndex = (config >> 7) & 0x0f;
+      const channelConfig = (config >> 3) & 0x0f;
+      // 使用明确取样率 (index 15) 或非 AAC 的编码无法转为 ADTS
+      if (frequencyIndex === 15 || ![1, 2, 3, 4, 5, 29].includes(objectType)) return null;
+      return { objectType, frequencyIndex, channelConfig };
+    } else {
+      pos = contentStart + length;
+    }
+  }
+  return null;
+};
+
+/**
+ * 依 edit list (edts/elst) 计算时间轴在媒体中的起点与长度 (皆为 timescale 单位)。
+ * 只处理开头的空白与第一段实际内容，常见于 AAC 的 priming (例如 media_time = 2112)
+ */
+const parseEditList = (
+  data: Uint8Array,
+  trak: Mp4Box,
+  movieTimescale: number,
+  mediaTimescale: number
+): { emptyDuration: number; mediaTime: number; duration: number } | null => {
+  const elst = findBox(data, trak, ['edts', 'elst']);
+  if (!elst) return null;
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const version = data[elst.start];
+  const entryCount = view.getUint32(elst.start + 4);
+  const entrySize = version === 1 ? 20 : 12;
+  let emptyDuration = 0; // 媒体 timescale
+  for (let i = 0; i < entryCount; i++) {
+    const pos = elst.start + 8 + i * entrySize;
+    if (pos + entrySize > elst.end) break;
+    const segmentDuration = version === 1 ? Number(view.getBigUint64(pos)) : view.getUint32(pos);
+    const mediaTime = version === 1 ? Number(view.getBigInt64(pos + 8)) : view.getInt32(pos + 4);
+    const duration = segmentDuration * mediaTimescale / movieTimescale;
+    if (mediaTime === -1) {
+      emptyDuration += duration;
+      continue;
+    }
+    return { emptyDuration, mediaTime, duration };
+  }
+  return null;
+};
+
+interface Mp4SampleTable {
+  sizes: Uint32Array;
+  offsets: Float64Array; // 每个 sample 在档案中的 byte 位置
+  durations: Uint32Array; // 媒体 timescale 单位
+}
+
+// 一般的 MP4：所有 sample 的资讯都在 moov 的 stbl 中
+const readSampleTable = (data: Uint8Array, stbl: Mp4Box): Mp4SampleTable | null => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const table = (type: string) => findBox(data, stbl, [type]);
+  const stsz = table('stsz');
+  const stsc = table('stsc');
+  const stts = table('stts');
+  const chunkOffsetBox = table('stco') ?? table('co64');
+  if (!stsz || !stsc || !stts || !chunkOffsetBox) return null;
+
+  const sampleCount = view.getUint32(stsz.start + 8);
+  const fixedSize = view.getUint32(stsz.start + 4);
+  const sizes = new Uint32Array(sampleCount);
+  for (let i = 0; i < sampleCount; i++) {
+    sizes[i] = fixedSize || view.getUint32(stsz.start + 12 + i * 4);
+  }
+
+  const is64 = chunkOffsetBox.type === 'co64';
+  const chunkCount = view.getUint32(chunkOffsetBox.start + 4);
+  const chunkOffset = (chunk: number) => is64
+    ? Number(view.getBigUint64(chunkOffsetBox.start + 8 + chunk * 8))
+    : view.getUint32(chunkOffsetBox.start + 8 + chunk * 4);
+
+  const offsets = new Float64Array(sampleCount);
+  const stscCount = view.getUint32(stsc.start + 4);
+  let sample = 0;
+  for (let i = 0; i < stscCount && sample < sampleCount; i++) {
+    const firstChunk = view.getUint32(stsc.start + 8 + i * 12) - 1;
+    const samplesPerChunk = view.getUint32(stsc.start + 12 + i * 12);
+    const nextChunk = i + 1 < stscCount ? view.getUint32(stsc.start + 8 + (i + 1) * 12) - 1 : chunkCount;
+    for (let chunk = firstChunk; chunk < nextChunk && sample < sampleCount; chunk++) {
+      let offset = chunkOffset(chunk);
+      for (let j = 0; j < samplesPerChunk && sample < sampleCount; j++) {
+        offsets[sample] = offset;
+        offset += sizes[sample++];
+      }
+    }
+  }
+
+  const durations = new Uint32Array(sampleCount);
+  const sttsCount = view.getUint32(stts.start + 4);
+  sample = 0;
+  for (let i = 0; i < sttsCount; i++) {
+    const count = view.getUint32(stts.start + 8 + i * 8);
+    const delta = view.getUint32(stts.start + 12 + i * 8);
+    for (let j = 0; j < count && sample < sampleCount; j++) durations[sample++] = delta;
+  }
+  return { sizes, offsets, durations };
+};
+
+interface Mp4Fragment {
+  start: number; // moof 在档案中的位置
+  data: Uint8Array; // 整个 moof box
+}
+
+/**
+ * Fragmented MP4 (MediaRecorder、直播或部分会议软体的录影)：
+ * moov 中没有 sample，资讯分散在各个 moof 的 trun 中，未指定的栏位使用 tfhd 或 trex 的预设值
+ */
+const readFragments = (
+  fragments: Mp4Fragment[],
+  trackId: number,
+  defaults: { duration: number; size: number }
+): Mp4SampleTable => {
+  const sizes: number[] = [];
+  const offsets: number[] = [];
+  const durations: number[] = [];
+  fragments.forEach(({ start, data }) => {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const moof = readChildBoxes(data, 0, data.length)[0];
+    let dataEnd = start; // 前一个 traf 的资料结尾，作为未指定 base_data_offset 时的基准
+    readChildBoxes(data, moof.start, moof.end).filter(box => box.type === 'traf').forEach(traf => {
+      const tfhd = findBox(data, traf, ['tfhd']);
+      if (!tfhd || view.getUint32(tfhd.start + 4) !== trackId) return;
+      const tfhdFlags = view.getUint32(tfhd.start) & 0xffffff;
+      let pos = tfhd.start + 8;
+      let base = tfhdFlags & 0x020000 ? start : dataEnd; // default-base-is-moof
+      if (tfhdFlags & 0x01) {
+        base = Number(view.getBigUint64(pos));
+        pos += 8;
+      }
+      if (tfhdFlags & 0x02) pos += 4; // sample description index
+      const defaultDuration = tfhdFlags & 0x08 ? view.getUint32(pos) : defaults.duration;
+      if (tfhdFlags & 0x08) pos += 4;
+      const defaultSize = tfhdFlags & 0x10 ? view.getUint32(pos) : defaults.size;
+
+      let offset = base;
+      readChildBoxes(data, traf.start, traf.end).filter(box => box.type === 'trun').forEach(trun => {
+        const flags = view.getUint32(trun.start) & 0xffffff;
+        const count = view.getUint32(trun.start + 4);
+        let field = trun.start + 8;
+        if (flags & 0x01) {
+          offset = base + view.getInt32(field);
+          field += 4;
+        }
+        if (flags & 0x04) field += 4; // first sample flags
+        for (let i = 0; i < count && field <= trun.end; i++) {
+          let duration = defaultDuration;
+          let size = defaultSize;
+          if (flags & 0x100) {
+            duration = view.getUint32(field);
+            field += 4;
+          }
+          if (flags & 0x200) {
+            size = view.getUint32(field);
+            field += 4;
+          }
+          if (flags & 0x400) field += 4; // sample flags
+          if (flags & 0x800) field += 4; // composition time offset
+          sizes.push(size);
+          offsets.push(offset);
+          durations.push(duration);
+          offset += size;
+        }
+      });
+      dataEnd = offset;
+    });
+  });
+  return { sizes: Uint32Array.from(sizes), offsets: Float64Array.from(offsets), durations: Uint32Array.from(durations) };
+};
+
+const openMp4Source = async (file: File, onProgress?: (progress: number) => void, signal?: AbortSignal): Promise<AudioSource | null> => {
+  // 在档案顶层找到 moov (可能位于档尾) 与 fragmented MP4 的各个 moof，只读取这些 box
+  let moov: Uint8Array | null = null;
+  const fragments: Mp4Fragment[] = [];
+  let pos = 0;
+  while (pos + 8 <= file.size) {
+    signal?.throwIfAborted();
+    const header = await readBytes(file, pos, pos + 16);
+    const view = new DataView(header.buffer);
+    let size = view.getUint32(0);
+    if (size === 1) size = Number(view.getBigUint64(8));
+    else if (size === 0) size = file.size - pos;
+    if (size < 8) return null;
+    const type = readAscii(header, 4, 4);
+    if (type === 'moov') moov = await readBytes(file, pos, pos + size);
+    else if (type === 'moof') fragments.push({ start: pos, data: await readBytes(file, pos, pos + size) });
+    pos += size;
+    onProgress?.(Math.min(1, pos / file.size));
+  }
+  if (!moov) return null;
+
+  const data = moov;
+  const view = new DataView(data.buffer);
+  const root = readChildBoxes(data, 0, data.length)[0];
+  const audioTrack = readChildBoxes(data, root.start, root.end)
+    .filter(box => box.type === 'trak')
+    .find(trak => {
+      const hdlr = findBox(data, trak, ['mdia', 'hdlr']);
+      return hdlr && readAscii(data, hdlr.start + 8, 4) === 'soun';
+    });
+  if (!audioTrack) {
+    throw new AppError(ErrorType.AUDIO_DECODE_ERROR, 'No audio track in MP4 file', '這個影片檔沒有音軌，無法轉錄', false);
+  }
+
+  const mdhd = findBox(data, audioTrack, ['mdia', 'mdhd']);
+  const stbl = findBox(data, audioTrack, ['mdia', 'minf', 'stbl']);
+  const stsd = stbl && findBox(data, stbl, ['stsd']);
+  if (!mdhd || !stbl || !stsd) return null;
+  const timescale = view.getUint32(mdhd.start + (data[mdhd.start] === 1 ? 20 : 12));
+  const mvhd = findBox(data, root, ['mvhd']);
+  const movieTimescale = mvhd ? view.getUint32(mvhd.start + (data[mvhd.start] === 1 ? 20 : 12)) : timescale;
+
+  // stsd 的第一个项目必须是 mp4a，esds 可能包在 QuickTime 的 wave box 中
+  const entry = readChildBoxes(data, stsd.start + 8, stsd.end)[0];
+  if (entry?.type !== 'mp4a') return null;
+  const entryVersion = view.getUint16(entry.start + 8);
+  const entrySampleRate = view.getUint32(entry.start + 24) >>> 16;
+  const childrenStart = entry.start + 28 + (entryVersion === 1 ? 16 : entryVersion === 2 ? 36 : 0);
+  const esds = findBox(data, { type: 'mp4a', start: childrenStart, end: entry.end }, ['esds'])
+    ?? findBox(data, { type: 'mp4a', start: childrenStart, end: entry.end }, ['wave', 'esds']);
+  const config = esds && parseEsds(data, esds);
+  if (!config) return null;
+
+  // 每个 AAC 帧 (sample) 的大小、byte 位置与长度；moov 中没有 sample 时从 moof 读取
+  let samples = readSampleTable(data, stbl);
+  if (samples && samples.sizes.length === 0 && fragments.length > 0) {
+    const tkhd = findBox(data, audioTrack, ['tkhd']);
+    if (!tkhd) return null;
+    const trackId = view.getUint32(tkhd.start + (data[tkhd.start] === 1 ? 20 : 12));
+    const mvex = findBox(data, root, ['mvex']);
+    const trex = mvex && readChildBoxes(data, mvex.start, mvex.end)
+      .find(box => box.type === 'trex' && view.getUint32(box.start + 4) === trackId);
+    samples = readFragments(fragments, trackId, {
+      duration: trex ? view.getUint32(trex.start + 12) : 0,
+      size: trex ? view.getUint32(trex.start + 16) : 0
+    });
+  }
+  if (!samples || samples.sizes.length === 0) return null;
+  const { sizes, offsets, durations } = samples;
+  const sampleCount = sizes.length;
+
+  // 每个帧的起始时间 (timescale 单位) 换算为解码后的取样位置
+  const sampleRate = entrySampleRate || timescale;
+  const toSamples = (value: number) => Math.round(value * sampleRate / timescale);
+  const starts = new Float64Array(sampleCount + 1);
+  let time = 0;
+  for (let i = 0; i < sampleCount; i++) {
+    starts[i] = toSamples(time);
+    time += durations[i];
+  }
+  starts[sampleCount] = toSamples(time);
+
+  // 没有 edit list 时整段媒体都在时间轴上
+  const edit = parseEditList(data, audioTrack, movieTimescale, timescale);
+  const startOffset = edit ? toSamples(edit.mediaTime) - toSamples(edit.emptyDuration) : 0;
+  const available = starts[sampleCount] - startOffset;
+  const length = edit && edit.duration > 0
+    ? Math.min(available, toSamples(edit.emptyDuration + edit.duration))
+    : available;
+
+  // HE-AAC 以核心的 LC profile 封装，解码器会自动侦测 SBR
+  const profile = config.objectType === 5 || config.objectType === 29 ? 1 : config.objectType - 1;
+  const channelCount = config.channelConfig === 7 ? 8 : config.channelConfig || view.getUint16(entry.start + 16);
+
+  return createFramedSource({
+    sampleRate,
+    channelCount,
+    frameCount: sampleCount,
+    frameStart: frame => starts[frame],
+    startOffset,
+    length,
+    // 将原始 AAC 帧加上 ADTS 标头，连续存放的帧合并为一次读取
+    readEncoded: async (from, to) => {
+      let total = 0;
+      for (let i = from; i < to; i++) total += sizes[i] + 7;
+      const output = new Uint8Array(total);
+      let writePos = 0;
+      let runStart = from;
+      while (runStart < to) {
+        let runEnd = runStart + 1;
+        while (runEnd < to && offsets[runEnd] === offsets[runEnd - 1] + sizes[runEnd - 1]) runEnd++;
+        const bytes = await readBytes(file, offsets[runStart], offsets[runEnd - 1] + sizes[runEnd - 1]);
+        let readPos = 0;
+        for (let i = runStart; i < runEnd; i++) {
+          const frameLength = sizes[i] + 7;
+          output.set([
+            0xff,
+            0xf1,
+            (profile << 6) | (config.frequencyIndex << 2) | (config.channelConfig >> 2),
+            ((config.channelConfig & 0x03) << 6) | (frameLength >> 11),
+            (frameLength >> 3) & 0xff,
+            ((frameLength & 0x07) << 5) | 0x1f,
+            0xfc
+          ], writePos);
+          output.set(bytes.subarray(readPos, readPos + sizes[i]), writePos + 7);
+          writePos += frameLength;
+          readPos += sizes[i];
+        }
+        runStart = runEnd;
+      }
+      return output;
+    }
+  });
+};
+
+// ---------- WebM / Matroska，影片只取出音轨 ----------
+
+const EBML_HEADER = 0x1a45dfa3;
+const EBML_DOC_TYPE = 0x4282;
+const EBML_SEGMENT = 0x18538067;
+const EBML_CLUSTER = 0x1f43b675;
+const EBML_TIMECODE = 0xe7;
+const EBML_SIMPLE_BLOCK = 0xa3;
+const EBML_BLOCK_GROUP = 0xa0;
+const EBML_BLOCK = 0xa1;
+const EBML_INFO = 0x1549a966;
+const EBML_TIMECODE_SCALE = 0x2ad7b1;
+const EBML_TRACKS = 0x1654ae6b;
+const EBML_TRACK_ENTRY = 0xae;
+const EBML_TRACK_NUMBER = 0xd7;
+const EBML_TRACK_UID = 0x73c5;
+const EBML_TRACK_TYPE = 0x83;
+const EBML_CODEC_ID = 0x86;
+const EBML_CODEC_PRIVATE = 0x63a2;
+const EBML_AUDIO = 0xe1;
+const EBML_SAMPLING_FREQUENCY = 0xb5;
+const EBML_CHANNELS = 0x9f;
+// 只需进入这些 master element 读取子元素，其余 (Cues、Tags、SeekHead 等) 整个略过
+const EBML_MASTERS = new Set([EBML_SEGMENT, EBML_CLUSTER, EBML_BLOCK_GROUP, EBML_INFO, EBML_TRACKS, EBML_TRACK_ENTRY, EBML_AUDIO]);
+// 重新封装时每个 Cluster 的最大长度 (毫秒)，SimpleBlock 的相对时间为 16-bit
+const WEBM_CLUSTER_MS = 30000;
+
+// 读取 EBML 可变长度整数，id 保留长度标记位元；长度全为 1 表示未知 (串流录影常见)
+const readVint = (bytes: Uint8Array, offset: number, keepMarker: boolean): { value: number; length: number } | null => {
+  const first = bytes[offset];
+  if (first === undefined || first === 0) return null;
+  const length = Math.clz32(first) - 23;
+  if (offset + length > bytes.length) return null;
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === (0xff >> length);
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[offset + i];
+    allOnes = allOnes && bytes[offset + i] === 0xff;
+  }
+  return { value: !keepMarker && allOnes ? -1 : value, length };
+};
+
+const readUint = (bytes: Uint8Array, offset: number, length: number) => {
+  let value = 0;
+  for (let i = 0; i < length; i++) value = value * 256 + bytes[offset + i];
+  return value;
+};
+
+// 写入 EBML 元素，长度一律以 8 bytes 表示
+const ebmlElement = (id: number, ...payload: Uint8Array[]): Uint8Array => {
+  const idBytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 256)) idBytes.unshift(value & 0xff);
+  const size = payload.reduce((sum, part) => sum + part.length, 0);
+  const header = new Uint8Array(idBytes.length + 8);
+  header.set(idBytes);
+  header[idBytes.length] = 0x01;
+  for (let i = 0, value = size; i < 7; i++, value = Math.floor(value / 256)) header[idBytes.length + 7 - i] = value & 0xff;
+  return concatBytes([header, ...payload]);
+};
+
+const ebmlUint = (id: number, value: number) => ebmlElement(id, Uint8Array.of(...Array.from({ length: 4 }, (_, i) => (value >>> (24 - i * 8)) & 0xff)));
+
+// Opus 封包的取样数 (48 kHz)，依 TOC byte 的设定与帧数计算
+const getOpusPacketSamples = (toc: number, frameCountByte: number): number => {
+  const config = toc >> 3;
+  const frameSamples = config < 12 ? [480, 960, 1920, 2880][config & 3]
+    : config < 16 ? [480, 960][config & 1]
+    : [120, 240, 480, 960][config & 3];
+  const code = toc & 3;
+  return frameSamples * (code === 0 ? 1 : code === 3 ? frameCountByte & 0x3f : 2);
+};
+
+interface WebmTrack {
+  number: number;
+  type: number;
+  codecId: string;
+  codecPrivate?: Uint8Array;
+  samplingFrequency: number;
+  channels: number;
+}
+
+/**
+ * 扫描整个档案建立音轨的帧索引 (只保留位置与时间)，需要时把帧重新封装为只有音轨的 WebM 再解码。
+ * 支援串流录影常见的未知长度 Segment/Cluster；使用 lacing 的区块无法分段处理
+ */
+const openWebmSource = async (file: File, onProgress?: (progress: number) => void, signal?: AbortSignal): Promise<AudioSource | null> => {
+  const tracks: WebmTrack[] = [];
+  let audioTrack: WebmTrack | undefined;
+  let timecodeScale = 1000000; // 奈秒
+  let clusterTimecode = 0;
+  const offsets: number[] = [];
+  const sizes: number[] = [];
+  const timestamps: number[] = []; // 奈秒
+  const opusSamples: number[] = [];
+
+  let block = new Uint8Array(0);
+  let blockStart = 0;
+  // 确保 [pos, pos + length) 已读入 (不超过档尾)
+  const ensure = async (pos: number, length: number) => {
+    if (pos >= blockStart && Math.min(pos + length, file.size) <= blockStart + block.length) return;
+    signal?.throwIfAborted();
+    blockStart = pos;
+    block = await readBytes(file, pos, pos + Math.max(length, SCAN_BLOCK_BYTES));
+    onProgress?.(pos / file.size);
+  };
+
+  let pos = 0;
+  while (pos < file.size) {
+    await ensure(pos, 12);
+    const id = readVint(block, pos - blockStart, true);
+    const size = id && readVint(block, pos - blockStart + id.length, false);
+    if (!id || !size) return null;
+    const payloadStart = pos + id.length + size.length;
+    if (EBML_MASTERS.has(id.value)) {
+      if (id.value === EBML_TRACK_ENTRY) tracks.push({ number: 0, type: 0, codecId: '', samplingFrequency: 0, channels: 1 });
+      pos = payloadStart;
+      continue;
+    }
+    if (size.value < 0) return null;
+    const payloadEnd = payloadStart + size.value;
+
+    if (id.value === EBML_SIMPLE_BLOCK || id.value === EBML_BLOCK) {
+      await ensure(payloadStart, 16);
+      const local = payloadStart - blockStart;
+      const track = readVint(block, local, false);
+      if (!track) return null;
+      audioTrack ??= tracks.find(entry => entry.type === 2);
+      if (!audioTrack) return null;
+      if (track.value === audioTrack.number) {
+        const header = local + track.length;
+        if (block[header + 2] & 0x06) return null; // lacing
+        const relative = (block[header] << 24 >> 16) | block[header + 1];
+        const frameStart = payloadStart + track.length + 3;
+        offsets.push(frameStart);
+        sizes.push(payloadEnd - frameStart);
+        timestamps.push((clusterTimecode + relative) * timecodeScale);
+        if (audioTrack.codecId === 'A_OPUS') opusSamples.push(getOpusPacketSamples(block[header + 3], block[header + 4]));
+      }
+    } else if (id.value !== EBML_HEADER && size.value <= 1024 * 1024) {
+      // 其余需要的都是小型的值元素
+      await ensure(payloadStart, size.value);
+      const local = payloadStart - blockStart;
+      const current = tracks[tracks.length - 1];
+      switch (id.value) {
+        case EBML_TIMECODE: clusterTimecode = readUint(block, local, size.value); break;
+        case EBML_TIMECODE_SCALE: timecodeScale = readUint(block, local, size.value); break;
+        case EBML_TRACK_NUMBER: if (current) current.number = readUint(block, local, size.value); break;
+        case EBML_TRACK_TYPE: if (current) current.type = readUint(block, local, size.value); break;
+        case EBML_CODEC_ID: if (current) current.codecId = readAscii(block, local, size.value).replace(/\0+$/, ''); break;
+        case EBML_CODEC_PRIVATE: if (current) current.codecPrivate = block.slice(local, local + size.value); break;
+        case EBML_CHANNELS: if (current) current.channels = readUint(block, local, size.value); break;
+        case EBML_SAMPLING_FREQUENCY:
+          if (current) {
+            const view = new DataView(block.buffer, block.byteOffset + local, size.value);
+            current.samplingFrequency = size.value === 4 ? view.getFloat32(0) : view.getFloat64(0);
+          }
+          break;
+      }
+    }
+    pos = payloadEnd;
+  }
+
+  audioTrack ??= tracks.find(entry => entry.type === 2);
+  if (!audioTrack) {
+    if (tracks.length > 0) {
+      throw new AppError(ErrorType.AUDIO_DECODE_ERROR, 'No audio track in WebM file', '這個影片檔沒有音軌，無法轉錄', false);
+    }
+    return null;
+  }
+  const frameCount = offsets.length;
+  if (frameCount === 0) return null;
+  const { codecId, codecPrivate, channels } = audioTrack;
+  const isOpus = codecId === 'A_OPUS';
+  // Opus 一律解码为 48 kHz，SamplingFrequency 记录的是原始输入的取样率
+  const sampleRate = isOpus ? 48000 : Math.round(audioTrack.samplingFrequency);
+  if (!sampleRate) return null;
+
+  // Opus 由封包本身计算精确的长度；其他编码依区块时间 (通常只有毫秒精度) 换算
+  const toSamples = (nanoseconds: number) => Math.round(nanoseconds * sampleRate / 1e9);
+  const starts = new Float64Array(frameCount + 1);
+  for (let i = 0; i < frameCount; i++) {
+    starts[i] = isOpus ? (i === 0 ? 0 : starts[i - 1] + opusSamples[i - 1]) : toSamples(timestamps[i] - timestamps[0]);
+  }
+  starts[frameCount] = isOpus
+    ? starts[frameCount - 1] + opusSamples[frameCount - 1]
+    : starts[frameCount - 1] + (frameCount > 1 ? starts[frameCount - 1] - starts[frameCount - 2] : 0);
+
+  // 时间轴从 Segment 的 0 开始：音轨晚开始的部分以静音补上，并扣除 Opus 标头的 pre-skip
+  const preSkip = isOpus && codecPrivate && codecPrivate.length >= 12 ? codecPrivate[10] | (codecPrivate[11] << 8) : 0;
+  const startOffset = preSkip - toSamples(timestamps[0]);
+
+  const trackEntry = ebmlElement(EBML_TRACK_ENTRY,
+    ebmlUint(EBML_TRACK_NUMBER, 1),
+    ebmlUint(EBML_TRACK_UID, 1),
+    ebmlUint(EBML_TRACK_TYPE, 2),
+    ebmlElement(EBML_CODEC_ID, Uint8Array.from(codecId, c => c.charCodeAt(0))),
+    ...(codecPrivate ? [ebmlElement(EBML_CODEC_PRIVATE, codecPrivate)] : []),
+    ebmlElement(EBML_AUDIO,
+      ebmlElement(EBML_SAMPLING_FREQUENCY, (() => {
+        const value = new Uint8Array(8);
+        new DataView(value.buffer).setFloat64(0, audioTrack.samplingFrequency || sampleRate);
+        return value;
+      })()),
+      ebmlUint(EBML_CHANNELS, channels)
+    )
+  );
+  const header = ebmlElement(EBML_HEADER, ebmlElement(EBML_DOC_TYPE, Uint8Array.from('webm', c => c.charCodeAt(0))));
+  const segmentHead = concatBytes([
+    ebmlElement(EBML_INFO, ebmlUint(EBML_TIMECODE_SCALE, 1000000)),
+    ebmlElement(EBML_TRACKS, trackEntry)
+  ]);
+
+  return createFramedSource({
+    sampleRate,
+    channelCount: channels,
+    frameCount,
+    frameStart: frame => starts[frame],
+    startOffset,
+    length: Math.max(0, starts[frameCount] - startOffset),
+    // 音轨与影像交错存放：每次读取一段范围取出其中的音讯帧，记忆体用量不超过读取的范围
+    readEncoded: async (from, to) => {
+      const clusters: Uint8Array[] = [];
+      let blocks: Uint8Array[] = [];
+      let clusterStart = 0;
+      let span = new Uint8Array(0);
+      let spanStart = 0;
+      const flush = () => {
+        if (blocks.length > 0) clusters.push(ebmlElement(EBML_CLUSTER, ebmlUint(EBML_TIMECODE, clusterStart), ...blocks));
+        blocks = [];
+      };
+      for (let i = from; i < to; i++) {
+        if (offsets[i] < spanStart || offsets[i] + sizes[i] > spanStart + span.length) {
+          spanStart = offsets[i];
+          span = await readBytes(file, spanStart, spanStart + Math.max(sizes[i], SCAN_BLOCK_BYTES));
+        }
+        const time = Math.round((starts[i] - starts[from]) * 1000 / sampleRate);
+        if (blocks.length === 0 || time - clusterStart > WEBM_CLUSTER_MS) {
+          flush();
+          clusterStart = time;
+        }
+        const relative = time - clusterStart;
+        blocks.push(ebmlElement(EBML_SIMPLE_BLOCK,
+          Uint8Array.of(0x81, (relative >> 8) & 0xff, relative & 0xff, 0x80),
+          span.subarray(offsets[i] - spanStart, offsets[i] - spanStart + sizes[i])
+        ));
+      }
+      flush();
+      return concatBytes([header, ebmlElement(EBML_SEGMENT, segmentHead, ...clusters)]);
+    }
+  });
+};
+
+// ---------- 入口 ----------
+
+// 无法分段处理的格式需要整个档案解码，超过这个大小时拒绝处理以免耗尽记忆体
+const MAX_WHOLE_DECODE_BYTES = 100 * 1024 * 1024;
+
+// QuickTime (MOV) 档不一定以 ftyp 开头
+const MP4_TOP_LEVEL_BOXES = ['ftyp', 'moov', 'mdat', 'wide', 'free', 'skip'];
+
+const detectContainer = async (file: File): Promise<'wav' | 'mp3' | 'mp4' | 'webm' | null> => {
+  const head = await readBytes(file, 0, 12);
+  if (readAscii(head, 0, 4) === 'RIFF' && readAscii(head, 8, 4) === 'WAVE') return 'wav';
+  if (MP4_TOP_LEVEL_BOXES.includes(readAscii(head, 4, 4))) return 'mp4';
+  if (new DataView(head.buffer).getUint32(0) === EBML_HEADER) return 'webm';
+  if (readAscii(head, 0, 3) === 'ID3' || parseMp3FrameHeader(head, 0)) return 'mp3';
+  return null;
+};
+
+/**
+ * 开启音讯来源：支援的容器只建立索引，片段需要时才读取与解码；
+ * 无法分段处理的格式或浏览器无法分段解码时，不超过 MAX_WHOLE_DECODE_BYTES 的档案退回整个档案解码
+ */
+export const openAudioSource = async (
+  file: File,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<AudioSource> => {
+  let reason = 'unsupported container';
+  try {
+    const container = await detectContainer(file);
+    const source = container === 'wav' ? await openWavSource(file)
+      : container === 'mp3' ? await openMp3Source(file, onProgress, signal)
+      : container === 'mp4' ? await openMp4Source(file, onProgress, signal)
+      : container === 'webm' ? await openWebmSource(file, onProgress, signal)
+      : null;
+    if (source && source.length > 0) {
+      // 先试解码开头一小段，确认浏览器能分段解码这个格式
+      await source.readFrames(0, Math.min(source.length, source.sampleRate), signal);
+      return source;
+    }
+    if (container) reason = `unsupported ${container} codec or layout`;
+  } catch (error) {
+    if (isAbortError(error) || error instanceof AppError) throw error;
+    reason = error instanceof Error ? error.message : String(error);
+  }
+
+  if (file.size > MAX_WHOLE_DECODE_BYTES) {
+    throw new AppError(
+      ErrorType.AUDIO_DECODE_ERROR,
+      `Segmented decoding unavailable (${reason}), file too large to decode whole: ${file.size} bytes`,
+      `無法分段讀取這個檔案的音訊格式，超過 ${MAX_WHOLE_DECODE_BYTES / 1024 / 1024} MB 的檔案請先轉為 MP3、M4A 或 WAV 再上傳`,
+      false
+    );
+  }
+  return createBufferSource(await decodeAudio(file, signal));
+};
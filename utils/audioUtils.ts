@@ -1,4 +1,4 @@
-import { TranscriptSegment } from "../types";
+import { SubtitleMode, TranscriptSegment } from "../types";
 
 // 创建单例 AudioContext 以避免重复创建（性能优化）
 let audioContext: AudioContext | null = null;
@@ -10,54 +10,102 @@ const getAudioContext = (): AudioContext => {
   return audioContext;
 };
 
+// 浏览器不一定提供影片的 MIME type，以副档名补充判断
+const VIDEO_EXTENSIONS = /\.(mp4|m4v|mov|webm|mkv)$/i;
+const AUDIO_EXTENSIONS = /\.(mp3|wav|m4a|aac|flac|ogg|oga|opus|wma)$/i;
+
+export const isVideoFile = (file: File): boolean =>
+  file.type.startsWith('video/') || VIDEO_EXTENSIONS.test(file.name);
+
+// 拖曳进来的档案不经过 accept 过滤，需要自行判断
+export const isMediaFile = (file: File): boolean =>
+  file.type.startsWith('audio/') || AUDIO_EXTENSIONS.test(file.name) || isVideoFile(file);
+
 /**
  * Decodes an audio file into an AudioBuffer.
  */
-export const decodeAudio = async (file: File): Promise<AudioBuffer> => {
+export const decodeAudio = async (file: File, signal?: AbortSignal): Promise<AudioBuffer> => {
   const arrayBuffer = await file.arrayBuffer();
+  signal?.throwIfAborted();
   const ctx = getAudioContext();
-  return await ctx.decodeAudioData(arrayBuffer);
+  // decodeAudioData 本身无法中断，解码完成后再检查是否已取消
+  const audioBuffer = await ctx.decodeAudioData(arrayBuffer);
+  signal?.throwIfAborted();
+  return audioBuffer;
 };
 
+export interface SplitOptions {
+  snapToSilence?: boolean;
+  silenceSearchSeconds?: number; // 在目标切点前后各搜索多少秒寻找停顿
+  overlapSeconds?: number; // 每个片段向前重叠前一片段的秒数
+}
+
+// RMS 分析的窗口长度（秒）
+const RMS_WINDOW_SECONDS = 0.05;
+
 /**
- * Splits an AudioBuffer into chunks of a specified duration (in seconds).
+ * Finds the frame of the pause nearest to targetFrame within [fromFrame, toFrame),
+ * based on short-window RMS energy across all channels.
  */
-export const splitAudioBuffer = (audioBuffer: AudioBuffer, chunkDurationSeconds: number): AudioBuffer[] => {
-  const sampleRate = audioBuffer.sampleRate;
-  const channels = audioBuffer.numberOfChannels;
-  const totalDuration = audioBuffer.duration;
-  const chunkLengthFrames = chunkDurationSeconds * sampleRate;
-  
-  const chunks: AudioBuffer[] = [];
-  const ctx = getAudioContext();
-  
-  for (let startFrame = 0; startFrame < audioBuffer.length; startFrame += chunkLengthFrames) {
-    const endFrame = Math.min(startFrame + chunkLengthFrames, audioBuffer.length);
-    const frameCount = endFrame - startFrame;
-    const chunkBuffer = ctx.createBuffer(channels, frameCount, sampleRate);
-    
-    for (let channel = 0; channel < channels; channel++) {
-      const channelData = audioBuffer.getChannelData(channel);
-      // Copy the segment
-      chunkBuffer.copyToChannel(channelData.subarray(startFrame, endFrame), channel);
+export const findNearestPauseFrame = (
+  channels: Float32Array[],
+  sampleRate: number,
+  fromFrame: number,
+  toFrame: number,
+  targetFrame: number
+): number => {
+  const windowFrames = Math.max(1, Math.floor(RMS_WINDOW_SECONDS * sampleRate));
+  const energies: { center: number; rms: number }[] = [];
+
+  for (let start = fromFrame; start + windowFrames <= toFrame; start += windowFrames) {
+    let sum = 0;
+    for (const data of channels) {
+      for (let i = start; i < start + windowFrames; i++) {
+        sum += data[i] * data[i];
+      }
     }
-    
-    chunks.push(chunkBuffer);
+    energies.push({ center: start + Math.floor(windowFrames / 2), rms: Math.sqrt(sum / (windowFrames * channels.length)) });
   }
-  
-  return chunks;
+
+  if (energies.length === 0) return targetFrame;
+
+  const sorted = energies.map(e => e.rms).sort((a, b) => a - b);
+  const minRms = sorted[0];
+  const medianRms = sorted[Math.floor(sorted.length / 2)];
+  // 接近最安静程度的窗口都视为停顿，再取离目标最近者
+  const pauseThreshold = minRms + (medianRms - minRms) * 0.2;
+
+  let best = targetFrame;
+  let bestDistance = Infinity;
+  for (const { center, rms } of energies) {
+    const distance = Math.abs(center - targetFrame);
+    if (rms <= pauseThreshold && distance < bestDistance) {
+      best = center;
+      bestDistance = distance;
+    }
+  }
+  return best;
 };
 
+// 编码时每隔多少个取样回报一次进度
+const WAV_PROGRESS_INTERVAL_FRAMES = 44100 * 30;
+
 /**
- * Converts an AudioBuffer to a WAV Blob.
+ * Encodes [startFrame, endFrame) of the channels as a 16-bit PCM WAV file.
  * Necessary because we need to send a valid file format to Gemini.
  */
-export const audioBufferToWav = (buffer: AudioBuffer): Blob => {
-  const numOfChan = buffer.numberOfChannels;
-  const length = buffer.length * numOfChan * 2 + 44;
+export const encodeWav = (
+  channels: Float32Array[],
+  sampleRate: number,
+  startFrame: number = 0,
+  endFrame: number = channels[0]?.length ?? 0,
+  onProgress?: (progress: number) => void
+): ArrayBuffer => {
+  const numOfChan = channels.length;
+  const frameCount = endFrame - startFrame;
+  const length = frameCount * numOfChan * 2 + 44;
   const bufferArr = new ArrayBuffer(length);
   const view = new DataView(bufferArr);
-  const channels = [];
   let i;
   let sample;
   let offset = 0;
@@ -72,8 +120,8 @@ export const audioBufferToWav = (buffer: AudioBuffer): Blob => {
   setUint32(16); // length = 16
   setUint16(1); // PCM (uncompressed)
   setUint16(numOfChan);
-  setUint32(buffer.sampleRate);
-  setUint32(buffer.sampleRate * 2 * numOfChan); // avg. bytes/sec
+  setUint32(sampleRate);
+  setUint32(sampleRate * 2 * numOfChan); // avg. bytes/sec
   setUint16(numOfChan * 2); // block-align
   setUint16(16); // 16-bit (hardcoded in this encoder)
 
@@ -81,20 +129,19 @@ export const audioBufferToWav = (buffer: AudioBuffer): Blob => {
   setUint32(length - pos - 4); // chunk length
 
   // write interleaved data
-  for (i = 0; i < buffer.numberOfChannels; i++)
-    channels.push(buffer.getChannelData(i));
-
-  while (pos < buffer.length) {
+  for (let frame = startFrame; frame < endFrame; frame++) {
     for (i = 0; i < numOfChan; i++) { // interleave channels
-      sample = Math.max(-1, Math.min(1, channels[i][pos])); // clamp
+      sample = Math.max(-1, Math.min(1, channels[i][frame])); // clamp
       sample = (0.5 + sample < 0 ? sample * 32768 : sample * 32767) | 0; // scale to 16-bit signed int
       view.setInt16(44 + offset, sample, true); // write 16-bit sample
       offset += 2;
     }
-    pos++;
+    if (onProgress && (frame - startFrame) % WAV_PROGRESS_INTERVAL_FRAMES === 0) {
+      onProgress((frame - startFrame) / frameCount);
+    }
   }
 
-  return new Blob([bufferArr], { type: 'audio/wav' });
+  return bufferArr;
 
   function setUint16(data: number) {
     view.setUint16(pos, data, true);
@@ -108,18 +155,16 @@ export const audioBufferToWav = (buffer: AudioBuffer): Blob => {
 };
 
 /**
- * Helper to convert Blob to Base64 string for Gemini API
+ * Converts binary data to a Base64 string for the Gemini API (works inside workers)
  */
-export const blobToBase64 = (blob: Blob): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const base64String = (reader.result as string).split(',')[1];
-      resolve(base64String);
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(blob);
-  });
+export const arrayBufferToBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  const parts: string[] = [];
+  // 分段转换，避免 String.fromCharCode 参数过多
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    parts.push(String.fromCharCode(...bytes.subarray(i, i + 0x8000)));
+  }
+  return btoa(parts.join(''));
 };
 
 /**
@@ -176,17 +221,80 @@ export const formatSrtTime = (seconds: number): string => {
   return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')},${String(ms).padStart(3, '0')}`;
 };
 
+/**
+ * Formats seconds into WebVTT timestamp format: HH:MM:SS.mmm
+ */
+export const formatVttTime = (seconds: number): string => formatSrtTime(seconds).replace(',', '.');
+
+/**
+ * Estimates the end time of a segment as the start of the next one, or start + 5s if last
+ */
+export const getSegmentEndTime = (segments: TranscriptSegment[], index: number): number => {
+  const nextSegment = segments[index + 1];
+  return nextSegment ? nextSegment.startTimeSeconds : segments[index].startTimeSeconds + 5;
+};
+
+/**
+ * Finds the segment being spoken at the given time, or -1 if none
+ */
+export const findSegmentAtTime = (segments: TranscriptSegment[], seconds: number): number => {
+  for (let i = segments.length - 1; i >= 0; i--) {
+    if (segments[i].startTimeSeconds <= seconds) {
+      return seconds < getSegmentEndTime(segments, i) ? i : -1;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Picks the subtitle/text lines for a segment according to the subtitle mode.
+ * Falls back to the original text when a segment has no translation.
+ */
+const getSegmentLines = (segment: TranscriptSegment, mode: SubtitleMode): string[] => {
+  if (!segment.translation || mode === 'original') return [segment.text];
+  if (mode === 'translation') return [segment.translation];
+  return [segment.text, segment.translation];
+};
+
+export interface SrtOptions {
+  speakerColors?: Record<string, string>; // 以 <font color> 标示说话者颜色
+  mode?: SubtitleMode;
+}
+
 /**
  * Generates SRT formatted string from transcript segments
  */
-export const generateSrtContent = (segments: TranscriptSegment[]): string => {
+export const generateSrtContent = (segments: TranscriptSegment[], options: SrtOptions = {}): string => {
+  const { speakerColors, mode = 'original' } = options;
+
   return segments.map((segment, index) => {
-    const nextSegment = segments[index + 1];
-    // Estimate end time as start of next segment, or start + 5s if last
-    const endTime = nextSegment ? nextSegment.startTimeSeconds : segment.startTimeSeconds + 5;
+    const endTime = getSegmentEndTime(segments, index);
+    const color = speakerColors?.[segment.speaker];
+    const speaker = color ? `<font color="${color}">${segment.speaker}</font>` : segment.speaker;
+    const [firstLine, ...rest] = getSegmentLines(segment, mode);
     
     return `${index + 1}
 ${formatSrtTime(segment.startTimeSeconds)} --> ${formatSrtTime(endTime)}
-${segment.speaker}: ${segment.text}`;
+${[`${speaker}: ${firstLine}`, ...rest].join('\n')}`;
   }).join('\n\n');
-};
\ No newline at end of file
+};
+
+export interface TxtOptions {
+  includeTimestamps?: boolean;
+  mode?: SubtitleMode;
+}
+
+/**
+ * Generates plain text transcript, one line per segment (plus translation line in bilingual mode)
+ */
+export const generateTxtContent = (segments: TranscriptSegment[], options: TxtOptions = {}): string => {
+  const { includeTimestamps = true, mode = 'original' } = options;
+
+  return segments
+    .map(segment => {
+      const timeStr = includeTimestamps ? `[${formatTime(segment.startTimeSeconds)}] ` : '';
+      const [firstLine, ...rest] = getSegmentLines(segment, mode);
+      return [`${timeStr}${segment.speaker}: ${firstLine}`, ...rest].join('\n');
+    })
+    .join('\n');
+};
@@ -0,0 +1,43 @@
+import { arrayBufferToBase64, encodeWav, findNearestPauseFrame } from "./audioUtils";
+import { preprocessForUpload } from "./audioPreprocess";
+import { encodeFlac } from "./flacEncoder";
+import { AudioWorkerRequest, AudioWorkerResponse } from "./audioWorkerProtocol";
+
+// 在 worker 中执行的音讯处理：寻找停顿、前处理与编码、Base64 转换，避免冻结主线程
+
+const post = (message: AudioWorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+const handleRequest = (request: AudioWorkerRequest) => {
+  const onProgress = (progress: number) => post({ type: 'progress', id: request.id, progress });
+
+  switch (request.type) {
+    case 'findPause': {
+      const { channels, sampleRate, targetFrame } = request;
+      const frame = findNearestPauseFrame(channels, sampleRate, 0, channels[0]?.length ?? 0, targetFrame);
+      post({ type: 'pause', id: request.id, frame });
+      break;
+    }
+    case 'encode': {
+      const { sampleRate, channels } = request;
+      const processed = preprocessForUpload(channels, sampleRate, 0, channels[0]?.length ?? 0, request.options);
+      const data = request.options.format === 'flac'
+        ? encodeFlac(processed.samples, processed.sampleRate, onProgress)
+        : encodeWav([processed.samples], processed.sampleRate, 0, processed.samples.length, onProgress);
+      post({ type: 'encoded', id: request.id, data, mimeType: request.options.format === 'flac' ? 'audio/flac' : 'audio/wav' }, [data]);
+      break;
+    }
+    case 'toBase64':
+      post({ type: 'base64', id: request.id, base64: arrayBufferToBase64(request.data) });
+      break;
+  }
+};
+
+self.onmessage = (event: MessageEvent<AudioWorkerRequest>) => {
+  try {
+    handleRequest(event.data);
+  } catch (error) {
+    post({ type: 'error', id: event.data.id, message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,220 @@
+import { AudioChunk } from "../types";
+import { SplitOptions } from "./audioUtils";
+import { AudioSource } from "./audioSource";
+import { AudioPreprocessOptions } from "./audioPreprocess";
+import { AudioWorkerRequest, AudioWorkerResponse } from "./audioWorkerProtocol";
+
+type Distribute<T> = T extends unknown ? Omit<T, 'id'> : never;
+type RequestBody = Distribute<AudioWorkerRequest>;
+type ResultResponse = Exclude<AudioWorkerResponse, { type: 'progress' } | { type: 'error' }>;
+
+interface PendingRequest {
+  resolve: (response: ResultResponse) => void;
+  reject: (error: unknown) => void;
+  onProgress?: (progress: number) => void;
+}
+
+// 单例 worker，依需要才建立
+let worker: Worker | null = null;
+let nextId = 1;
+const pending = new Map<number, PendingRequest>();
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('./audioWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<AudioWorkerResponse>) => {
+      const response = event.data;
+      const request = pending.get(response.id);
+      if (!request) return; // 已取消的请求
+
+      if (response.type === 'progress') {
+        request.onProgress?.(response.progress);
+        return;
+      }
+      pending.delete(response.id);
+      if (response.type === 'error') {
+        request.reject(new Error(response.message));
+      } else {
+        request.resolve(response);
+      }
+    };
+    worker.onerror = (event) => {
+      // worker 无法载入或发生未捕捉的错误：所有进行中的请求都失败，下次重新建立
+      const error = new Error(event.message || 'Audio worker failed');
+      pending.forEach(request => request.reject(error));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+};
+
+/**
+ * 送出请求并等待结果。取消时立即结束等待；worker 中进行中的工作无法中断，其结果会被忽略
+ */
+const request = <T extends ResultResponse['type']>(
+  body: RequestBody,
+  transfer: Transferable[] = [],
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<Extract<ResultResponse, { type: T }>> => {
+  if (signal?.aborted) return Promise.reject(signal.reason);
+
+  const id = nextId++;
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      pending.delete(id);
+      reject(signal!.reason);
+    };
+    pending.set(id, {
+      resolve: response => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(response as Extract<ResultResponse, { type: T }>);
+      },
+      reject: error => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+      onProgress
+    });
+    signal?.addEventListener('abort', onAbort, { once: true });
+    getWorker().postMessage({ ...body, id } as AudioWorkerRequest, { transfer });
+  });
+};
+
+const toChunk = (sampleRate: number, startFrame: number, endFrame: number): AudioChunk => ({
+  startFrame,
+  endFrame,
+  startTimeSeconds: startFrame / sampleRate,
+  durationSeconds: (endFrame - startFrame) / sampleRate
+});
+
+export interface ChunkFrames {
+  chunkLengthFrames: number;
+  searchFrames: number; // 切点前后寻找停顿的范围，不寻找时为 0
+  overlapFrames: number;
+}
+
+/**
+ * 将切割设定换算为取样数
+ */
+export const getChunkFrames = (sampleRate: number, chunkDurationSeconds: number, options: SplitOptions = {}): ChunkFrames => {
+  const { snapToSilence = false, silenceSearchSeconds = 10, overlapSeconds = 0 } = options;
+  return {
+    chunkLengthFrames: Math.floor(chunkDurationSeconds * sampleRate),
+    searchFrames: snapToSilence ? Math.floor(Math.min(silenceSearchSeconds, chunkDurationSeconds / 2) * sampleRate) : 0,
+    overlapFrames: Math.floor(Math.min(Math.max(0, overlapSeconds), chunkDurationSeconds / 2) * sampleRate)
+  };
+};
+
+/**
+ * 决定从 startFrame 开始的片段在哪里结束。
+ * 需要寻找停顿时只读取切点附近的音讯，交由 worker 分析
+ */
+export const findChunkEnd = async (
+  source: AudioSource,
+  startFrame: number,
+  frames: ChunkFrames,
+  signal?: AbortSignal
+): Promise<number> => {
+  const totalFrames = source.length;
+  const targetFrame = startFrame + frames.chunkLengthFrames;
+  if (targetFrame >= totalFrames || frames.searchFrames <= 0) {
+    return Math.min(targetFrame, totalFrames);
+  }
+
+  const fromFrame = Math.max(startFrame + 1, targetFrame - frames.searchFrames);
+  const channels = await source.readFrames(fromFrame, Math.min(totalFrames, targetFrame + frames.searchFrames), signal);
+  const { frame } = await request<'pause'>(
+    { type: 'findPause', sampleRate: source.sampleRate, channels, targetFrame: targetFrame - fromFrame },
+    channels.map(data => data.buffer),
+    undefined,
+    signal
+  );
+  return fromFrame + frame;
+};
+
+/**
+ * 建立 [startFrame, endFrame) 的片段；除了第一个片段外，开头往前多取 overlapFrames
+ */
+export const toOverlappedChunk = (sampleRate: number, startFrame: number, endFrame: number, overlapFrames: number): AudioChunk =>
+  toChunk(sampleRate, Math.max(0, startFrame - (startFrame > 0 ? overlapFrames : 0)), endFrame);
+
+/**
+ * Computes chunks of roughly chunkDurationSeconds.
+ * With snapToSilence, each cut is moved to the nearest pause within the search window
+ * (only the window around each cut is read and analysed, in the worker).
+ * With overlapSeconds, every chunk after the first starts that much before its cut.
+ */
+export const splitAudio = async (
+  source: AudioSource,
+  chunkDurationSeconds: number,
+  options: SplitOptions = {},
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<AudioChunk[]> => {
+  const { sampleRate, length: totalFrames } = source;
+  const frames = getChunkFrames(sampleRate, chunkDurationSeconds, options);
+
+  const chunks: AudioChunk[] = [];
+  let startFrame = 0;
+
+  while (startFrame < totalFrames) {
+    const endFrame = await findChunkEnd(source, startFrame, frames, signal);
+    chunks.push(toOverlappedChunk(sampleRate, startFrame, endFrame, frames.overlapFrames));
+    startFrame = endFrame;
+    onProgress?.(endFrame / totalFrames);
+  }
+
+  return chunks;
+};
+
+/**
+ * 截取 [startSeconds, endSeconds) 的范围，用于重新转录单一片段或时间范围
+ */
+export const getAudioRange = (source: AudioSource, startSeconds: number, endSeconds: number): AudioChunk => {
+  const startFrame = Math.max(0, Math.floor(startSeconds * source.sampleRate));
+  const endFrame = Math.min(source.length, Math.ceil(endSeconds * source.sampleRate));
+  if (endFrame <= startFrame) {
+    throw new Error(`Invalid audio range: ${startSeconds}s - ${endSeconds}s`);
+  }
+  return toChunk(source.sampleRate, startFrame, endFrame);
+};
+
+export interface EncodedChunk {
+  blob: Blob;
+  sourceBytes: number; // 未经前处理 (原始取样率与声道的 16-bit WAV) 的大小
+}
+
+/**
+ * 读取片段的音讯后移交 worker 前处理并编码为上传用的音档；片段的取样在编码后即释放
+ */
+export const encodeChunk = async (
+  source: AudioSource,
+  chunk: AudioChunk,
+  options: AudioPreprocessOptions,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<EncodedChunk> => {
+  const channels = await source.readFrames(chunk.startFrame, chunk.endFrame, signal);
+  const { data, mimeType } = await request<'encoded'>(
+    { type: 'encode', sampleRate: source.sampleRate, channels, options },
+    channels.map(data => data.buffer),
+    onProgress,
+    signal
+  );
+  return {
+    blob: new Blob([data], { type: mimeType }),
+    sourceBytes: (chunk.endFrame - chunk.startFrame) * source.channelCount * 2 + 44
+  };
+};
+
+/**
+ * Helper to convert Blob to Base64 string for Gemini API (converted inside the worker)
+ */
+export const blobToBase64 = async (blob: Blob, signal?: AbortSignal): Promise<string> => {
+  const data = await blob.arrayBuffer();
+  const { base64 } = await request<'base64'>({ type: 'toBase64', data }, [data], undefined, signal);
+  return base64;
+};
@@ -0,0 +1,22 @@
+import { AudioPreprocessOptions } from "./audioPreprocess";
+
+/**
+ * 主线程 -> audio worker 的请求。每个请求带有 id，回应以相同 id 对应。
+ * channels 的 ArrayBuffer 都以 transfer 移交，worker 不保留任何音讯，处理完即释放
+ */
+export type AudioWorkerRequest =
+  // 在切点附近的音讯中寻找停顿，targetFrame 与回传的位置都相对于 channels 开头
+  | { type: 'findPause'; id: number; sampleRate: number; channels: Float32Array[]; targetFrame: number }
+  // 前处理 (单声道、16 kHz 等) 后编码为上传用的音档
+  | { type: 'encode'; id: number; sampleRate: number; channels: Float32Array[]; options: AudioPreprocessOptions }
+  | { type: 'toBase64'; id: number; data: ArrayBuffer };
+
+/**
+ * audio worker -> 主线程的回应；progress 可在结果之前送出多次
+ */
+export type AudioWorkerResponse =
+  | { type: 'progress'; id: number; progress: number } // 0 - 1
+  | { type: 'pause'; id: number; frame: number }
+  | { type: 'encoded'; id: number; data: ArrayBuffer; mimeType: string }
+  | { type: 'base64'; id: number; base64: string }
+  | { type: 'error'; id: number; message: string };
@@ -0,0 +1,77 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Chapter, TranscriptSegment } from '../types';
+import { chaptersToWebVtt, chaptersToYouTube, generateChapters } from './chapters';
+
+const segment = (startTimeSeconds: number, text = '內容', speaker = '講者 1'): TranscriptSegment => ({
+  speaker,
+  timestamp: '',
+  startTimeSeconds,
+  text
+});
+
+const segments = [segment(5), segment(30), segment(65), segment(120), segment(3700)];
+
+describe('generateChapters', () => {
+  it('snaps, sorts and merges the detected markers, starting the first chapter at 0', async () => {
+    const chapters = await generateChapters(segments, async () => [
+      { title: '結論', startTimeSeconds: 3690 },
+      { title: '開場', startTimeSeconds: 7 },
+      { title: '議程', startTimeSeconds: 28 },
+      { title: '過短', startTimeSeconds: 33 },
+      { title: '議程', startTimeSeconds: 64 },
+      { title: '  ', startTimeSeconds: 50 },
+      { title: '無時間', startTimeSeconds: NaN }
+    ], () => {});
+
+    expect(chapters).toEqual([
+      { title: '開場', startTimeSeconds: 0, endTimeSeconds: 30 },
+      { title: '議程', startTimeSeconds: 30, endTimeSeconds: 3700 },
+      // 最后一章至少 10 秒，即使逐字稿在 3705 秒结束
+      { title: '結論', startTimeSeconds: 3700, endTimeSeconds: 3710 }
+    ]);
+  });
+
+  it('falls back to a single chapter when nothing is detected', async () => {
+    expect(await generateChapters(segments, async () => [], () => {}))
+      .toEqual([{ title: '開始', startTimeSeconds: 0, endTimeSeconds: 3705 }]);
+  });
+
+  it('rejects an empty transcript without calling the model', async () => {
+    const detect = vi.fn();
+    await expect(generateChapters([segment(0, '系統', 'System')], detect, () => {})).rejects.toThrow('Transcript is empty');
+    expect(detect).not.toHaveBeenCalled();
+  });
+});
+
+const chapters: Chapter[] = [
+  { title: '開場', startTimeSeconds: 0, endTimeSeconds: 30.5 },
+  { title: '議程', startTimeSeconds: 30.5, endTimeSeconds: 3700 },
+  { title: '結論', startTimeSeconds: 3700, endTimeSeconds: 3710 }
+];
+
+describe('chaptersToYouTube', () => {
+  it('lists one chapter per line starting at 00:00', () => {
+    expect(chaptersToYouTube(chapters)).toBe('00:00 開場\n00:30 議程\n1:01:40 結論');
+  });
+});
+
+describe('chaptersToWebVtt', () => {
+  it('writes numbered cues that end where the next chapter starts', () => {
+    expect(chaptersToWebVtt(chapters)).toBe([
+      'WEBVTT',
+      '',
+      '1',
+      '00:00:00.000 --> 00:00:30.500',
+      '開場',
+      '',
+      '2',
+      '00:00:30.500 --> 01:01:40.000',
+      '議程',
+      '',
+      '3',
+      '01:01:40.000 --> 01:01:50.000',
+      '結論',
+      ''
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,75 @@
+import { Chapter, TranscriptSegment } from "../types";
+import { ChapterMarker, TimedLine } from "../services/transcriptionProvider";
+import { formatTime, formatVttTime, getSegmentEndTime } from "./audioUtils";
+import { splitIntoSections, toTimedLines } from "./transcriptSections";
+
+type ChapterDetector = (lines: TimedLine[]) => Promise<ChapterMarker[]>;
+
+// YouTube 要求每个章节至少 10 秒
+const MIN_CHAPTER_SECONDS = 10;
+
+/**
+ * 依主题产生章节。长逐字稿分段侦测后合并，第一章固定从 0 秒开始
+ */
+export const generateChapters = async (
+  segments: TranscriptSegment[],
+  detect: ChapterDetector,
+  onProgress: (message: string) => void
+): Promise<Chapter[]> => {
+  const lines = toTimedLines(segments);
+  const sections = splitIntoSections(lines);
+  if (sections.length === 0) {
+    throw new Error('Transcript is empty');
+  }
+
+  const markers: ChapterMarker[] = [];
+  for (let i = 0; i < sections.length; i++) {
+    onProgress(`正在分析第 ${i + 1} / ${sections.length} 段...`);
+    markers.push(...await detect(sections[i]));
+  }
+
+  // 对齐到实际句子开头
+  const starts = lines.map(line => line.startTimeSeconds);
+  const snap = (time: number) => starts.reduce((best, start) => Math.abs(start - time) < Math.abs(best - time) ? start : best, starts[0]);
+
+  const sorted = markers
+    .filter(marker => marker.title.trim() && Number.isFinite(marker.startTimeSeconds))
+    .map(marker => ({ title: marker.title.trim(), startTimeSeconds: snap(marker.startTimeSeconds) }))
+    .sort((a, b) => a.startTimeSeconds - b.startTimeSeconds);
+
+  const merged: ChapterMarker[] = [];
+  for (const marker of sorted) {
+    const previous = merged[merged.length - 1];
+    // 跨段边界时模型可能重复开新章节，同标题或过短的章节并入前一章
+    if (previous && (previous.title === marker.title || marker.startTimeSeconds - previous.startTimeSeconds < MIN_CHAPTER_SECONDS)) {
+      continue;
+    }
+    merged.push(marker);
+  }
+
+  if (merged.length === 0) {
+    merged.push({ title: '開始', startTimeSeconds: 0 });
+  }
+  merged[0] = { ...merged[0], startTimeSeconds: 0 };
+
+  const endOfTranscript = getSegmentEndTime(segments, segments.length - 1);
+  return merged.map((marker, i) => ({
+    title: marker.title,
+    startTimeSeconds: marker.startTimeSeconds,
+    endTimeSeconds: merged[i + 1]?.startTimeSeconds ?? Math.max(endOfTranscript, marker.startTimeSeconds + MIN_CHAPTER_SECONDS)
+  }));
+};
+
+/**
+ * YouTube 说明栏格式的章节列表，例如 "00:00 開場"
+ */
+export const chaptersToYouTube = (chapters: Chapter[]): string =>
+  chapters.map(chapter => `${formatTime(chapter.startTimeSeconds)} ${chapter.title}`).join('\n');
+
+/**
+ * WebVTT 章节轨 (kind="chapters")
+ */
+export const chaptersToWebVtt = (chapters: Chapter[]): string =>
+  ['WEBVTT', ...chapters.map((chapter, i) =>
+    `${i + 1}\n${formatVttTime(chapter.startTimeSeconds)} --> ${formatVttTime(chapter.endTimeSeconds)}\n${chapter.title}`
+  )].join('\n\n') + '\n';
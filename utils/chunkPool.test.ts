@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { runChunkPool } from './chunkPool';
+import { AppError, ErrorType } from './errorHandling';
+
+const quotaError = () => new AppError(ErrorType.QUOTA_EXCEEDED, '429', 'quota', true, { retryAfterMs: 0 });
+
+describe('runChunkPool', () => {
+  it('processes every chunk and never exceeds the concurrency limit', async () => {
+    let active = 0;
+    let peak = 0;
+    const results: number[] = [];
+    await runChunkPool({
+      chunkIndices: [0, 1, 2, 3, 4, 5],
+      concurrency: 2,
+      shouldStop: () => false,
+      worker: async i => {
+        active++;
+        peak = Math.max(peak, active);
+        await new Promise(resolve => setTimeout(resolve, 1));
+        active--;
+        return i * 10;
+      },
+      onResult: (_, result) => results.push(result),
+      onError: () => { throw new Error('unexpected'); }
+    });
+    expect(results.sort((a, b) => a - b)).toEqual([0, 10, 20, 30, 40, 50]);
+    expect(peak).toBe(2);
+  });
+
+  it('cools down and requeues on quota errors even at concurrency 1', async () => {
+    const attempts = new Map<number, number>();
+    const done: number[] = [];
+    await runChunkPool({
+      chunkIndices: [0, 1],
+      concurrency: 1,
+      shouldStop: () => false,
+      worker: async i => {
+        const n = (attempts.get(i) ?? 0) + 1;
+        attempts.set(i, n);
+        if (i === 0 && n < 3) throw quotaError();
+        return i;
+      },
+      onResult: i => done.push(i),
+      onError: () => { throw new Error('unexpected'); }
+    });
+    expect(done.sort()).toEqual([0, 1]);
+    expect(attempts.get(0)).toBe(3);
+  });
+
+  it('reports the quota error once the retry cap is reached', async () => {
+    const errors: ErrorType[] = [];
+    let attempts = 0;
+    await runChunkPool({
+      chunkIndices: [0],
+      concurrency: 1,
+      maxQuotaRetries: 2,
+      shouldStop: () => false,
+      worker: async () => {
+        attempts++;
+        throw quotaError();
+      },
+      onResult: () => {},
+      onError: (_, error) => errors.push(error.type)
+    });
+    expect(attempts).toBe(3);
+    expect(errors).toEqual([ErrorType.QUOTA_EXCEEDED]);
+  });
+
+  it('halves concurrency on quota errors and restores it after successes', async () => {
+    const changes: [number, string][] = [];
+    let failed = false;
+    await runChunkPool({
+      chunkIndices: [0, 1, 2, 3, 4, 5, 6, 7],
+      concurrency: 4,
+      restoreAfterSuccesses: 1,
+      shouldStop: () => false,
+      worker: async i => {
+        if (i === 0 && !failed) {
+          failed = true;
+          throw quotaError();
+        }
+        await new Promise(resolve => setTimeout(resolve, 1));
+        return i;
+      },
+      onResult: () => {},
+      onError: () => { throw new Error('unexpected'); },
+      onConcurrencyChange: (concurrency, reason) => changes.push([concurrency, reason])
+    });
+    expect(changes[0]).toEqual([2, 'quota']);
+    expect(changes).toContainEqual([4, 'recovered']);
+  });
+
+  it('ends the quota cool-down as soon as the signal aborts', async () => {
+    const controller = new AbortController();
+    const done: number[] = [];
+    const errors: number[] = [];
+    const started = Date.now();
+    const pool = runChunkPool({
+      chunkIndices: [0],
+      concurrency: 1,
+      quotaCooldownMs: 60_000,
+      shouldStop: () => controller.signal.aborted,
+      signal: controller.signal,
+      worker: async () => {
+        throw new AppError(ErrorType.QUOTA_EXCEEDED, '429', 'quota', true);
+      },
+      onResult: i => done.push(i),
+      onError: i => errors.push(i)
+    });
+    setTimeout(() => controller.abort(), 5);
+    await pool;
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(done).toEqual([]);
+    expect(errors).toEqual([]);
+  });
+
+  it('does not report aborted chunks as errors', async () => {
+    const errors: number[] = [];
+    await runChunkPool({
+      chunkIndices: [0],
+      concurrency: 1,
+      shouldStop: () => false,
+      worker: async () => {
+        throw new DOMException('stopped', 'AbortError');
+      },
+      onResult: () => {},
+      onError: i => errors.push(i)
+    });
+    expect(errors).toEqual([]);
+  });
+});
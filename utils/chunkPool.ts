@@ -0,0 +1,105 @@
+import { abortableSleep } from "./abort";
+import { AppError, ErrorType, parseGeminiError } from "./errorHandling";
+
+interface ChunkPoolOptions<T> {
+  chunkIndices: number[];
+  concurrency: number;
+  worker: (chunkIndex: number) => Promise<T>;
+  onResult?: (chunkIndex: number, result: T) => void;
+  onError: (chunkIndex: number, error: AppError) => void;
+  shouldStop: () => boolean;
+  signal?: AbortSignal; // 取消时立即结束配额冷却的等待
+  // quota = 因配额限制降低，recovered = 连续成功后恢复
+  onConcurrencyChange?: (concurrency: number, reason: 'quota' | 'recovered') => void;
+  quotaCooldownMs?: number;
+  maxQuotaRetries?: number; // 同一片段因配额限制重新排入的次数上限
+  restoreAfterSuccesses?: number; // 连续成功几次后将并行数加回 1
+}
+
+/**
+ * 以固定数量的并行任务处理片段，完成顺序不保证与片段顺序一致。
+ * 遇到 QUOTA_EXCEEDED 时将并行数减半，并在冷却 (优先采用服务器建议的时间) 后重新排入该片段；
+ * 之后每连续成功 restoreAfterSuccesses 次就把并行数加回 1，直到原本的设定
+ */
+export const runChunkPool = <T>({
+  chunkIndices,
+  concurrency,
+  worker,
+  onResult,
+  onError,
+  shouldStop,
+  signal,
+  onConcurrencyChange,
+  quotaCooldownMs = 5000,
+  maxQuotaRetries = 5,
+  restoreAfterSuccesses = 3
+}: ChunkPoolOptions<T>): Promise<void> => {
+  return new Promise(resolve => {
+    const queue = [...chunkIndices];
+    const maxLimit = Math.max(1, Math.floor(concurrency));
+    const quotaRetries = new Map<number, number>();
+    let limit = maxLimit;
+    let active = 0;
+    let successStreak = 0;
+
+    const setLimit = (next: number, reason: 'quota' | 'recovered') => {
+      if (next === limit) return;
+      limit = next;
+      onConcurrencyChange?.(limit, reason);
+    };
+
+    const handleResult = (chunkIndex: number, result: T) => {
+      successStreak++;
+      if (limit < maxLimit && successStreak >= restoreAfterSuccesses) {
+        successStreak = 0;
+        setLimit(limit + 1, 'recovered');
+      }
+      onResult?.(chunkIndex, result);
+    };
+
+    const handleError = async (chunkIndex: number, error: unknown) => {
+      const appError = parseGeminiError(error);
+
+      // 暂停或停止时中断的片段维持未完成，不回报为错误
+      if (appError.type === ErrorType.ABORTED) return;
+
+      const retries = quotaRetries.get(chunkIndex) ?? 0;
+      if (appError.type === ErrorType.QUOTA_EXCEEDED && retries < maxQuotaRetries) {
+        quotaRetries.set(chunkIndex, retries + 1);
+        successStreak = 0;
+        setLimit(Math.max(1, Math.floor(limit / 2)), 'quota');
+        // 占用名额等待冷却，避免立即再次触发限制；取消时该片段维持未完成
+        try {
+          await abortableSleep(appError.retryAfterMs ?? quotaCooldownMs, signal);
+        } catch {
+          return;
+        }
+        queue.unshift(chunkIndex);
+        return;
+      }
+
+      onError(chunkIndex, appError);
+    };
+
+    const pump = () => {
+      if (active === 0 && (queue.length === 0 || shouldStop())) {
+        resolve();
+        return;
+      }
+
+      while (!shouldStop() && active < limit && queue.length > 0) {
+        const chunkIndex = queue.shift()!;
+        active++;
+        worker(chunkIndex)
+          .then(result => handleResult(chunkIndex, result), error => handleError(chunkIndex, error))
+          .catch(error => console.error(`Chunk ${chunkIndex + 1} handler failed:`, error))
+          .finally(() => {
+            active--;
+            pump();
+          });
+      }
+    };
+
+    pump();
+  });
+};
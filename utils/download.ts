@@ -0,0 +1,18 @@
+/**
+ * Triggers a browser download for the given content.
+ */
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Triggers a browser download for a text file.
+ */
+export const downloadTextFile = (content: string, fileName: string, type: string = 'text/plain'): void => {
+  downloadBlob(new Blob([content], { type }), fileName);
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { AppError, ErrorType, HttpError, parseAudioError, parseGeminiError, parseRetryAfterHeader, toAppError } from './errorHandling';
+
+const googleError = (status: number, body: object) =>
+  Object.assign(new Error(`got status: ${status}. ${JSON.stringify({ error: body })}`), { status });
+
+describe('parseGeminiError', () => {
+  it('classifies quota errors and reads RetryInfo.retryDelay', () => {
+    const error = parseGeminiError(googleError(429, {
+      code: 429,
+      status: 'RESOURCE_EXHAUSTED',
+      details: [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '8s' }]
+    }));
+    expect(error.type).toBe(ErrorType.QUOTA_EXCEEDED);
+    expect(error.retryable).toBe(true);
+    expect(error.retryAfterMs).toBe(8000);
+  });
+
+  it('treats API_KEY_* reasons as invalid keys even with status 400', () => {
+    const error = parseGeminiError(googleError(400, {
+      code: 400,
+      status: 'INVALID_ARGUMENT',
+      details: [{ '@type': 'type.googleapis.com/google.rpc.ErrorInfo', reason: 'API_KEY_INVALID' }]
+    }));
+    expect(error.type).toBe(ErrorType.INVALID_API_KEY);
+    expect(error.retryable).toBe(false);
+  });
+
+  it('retries server errors but not other client errors', () => {
+    expect(parseGeminiError(new HttpError(503, 'unavailable')).retryable).toBe(true);
+    const invalid = parseGeminiError(new HttpError(400, 'bad request'));
+    expect(invalid.type).toBe(ErrorType.INVALID_REQUEST);
+    expect(invalid.retryable).toBe(false);
+  });
+
+  it('keeps Retry-After from HttpError', () => {
+    expect(parseGeminiError(new HttpError(429, 'slow down', 3000)).retryAfterMs).toBe(3000);
+  });
+
+  it('falls back to the message when there is no status', () => {
+    expect(parseGeminiError(new Error('Failed to fetch')).type).toBe(ErrorType.NETWORK_ERROR);
+    expect(parseGeminiError(new Error('quota exceeded')).type).toBe(ErrorType.QUOTA_EXCEEDED);
+  });
+
+  it('recognizes aborts and passes AppError through', () => {
+    expect(parseGeminiError(new DOMException('aborted', 'AbortError')).type).toBe(ErrorType.ABORTED);
+    const appError = new AppError(ErrorType.UNKNOWN_ERROR, 'x', 'y');
+    expect(parseGeminiError(appError)).toBe(appError);
+  });
+});
+
+describe('parseRetryAfterHeader', () => {
+  it('accepts seconds and HTTP dates', () => {
+    expect(parseRetryAfterHeader('2')).toBe(2000);
+    expect(parseRetryAfterHeader(new Date(Date.now() + 60_000).toUTCString())).toBeGreaterThan(50_000);
+    expect(parseRetryAfterHeader(null)).toBeUndefined();
+    expect(parseRetryAfterHeader('soon')).toBeUndefined();
+  });
+});
+
+describe('toAppError', () => {
+  it('keeps AppError instances and classifies everything else with the fallback', () => {
+    const appError = new AppError(ErrorType.INVALID_REQUEST, 'x', 'y');
+    expect(toAppError(appError, parseAudioError)).toBe(appError);
+    expect(toAppError(new Error('bad header'), parseAudioError).type).toBe(ErrorType.AUDIO_DECODE_ERROR);
+    expect(toAppError(new HttpError(429, 'slow down')).type).toBe(ErrorType.QUOTA_EXCEEDED);
+  });
+});
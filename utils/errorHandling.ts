@@ -1,3 +1,5 @@
+import { isAbortError } from "./abort";
+
 /**
  * 错误类型定义
  */
@@ -7,6 +9,8 @@ export enum ErrorType {
   AUDIO_DECODE_ERROR = 'AUDIO_DECODE_ERROR',
   QUOTA_EXCEEDED = 'QUOTA_EXCEEDED',
   INVALID_API_KEY = 'INVALID_API_KEY',
+  INVALID_REQUEST = 'INVALID_REQUEST',
+  ABORTED = 'ABORTED',
   UNKNOWN_ERROR = 'UNKNOWN_ERROR'
 }
 
@@ -17,27 +21,128 @@ export class AppError extends Error {
   type: ErrorType;
   retryable: boolean;
   userMessage: string;
+  status?: number; // HTTP 状态码
+  retryAfterMs?: number; // 服务器建议的重试等待时间
 
   constructor(
     type: ErrorType,
     message: string,
     userMessage: string,
-    retryable: boolean = false
+    retryable: boolean = false,
+    details: { status?: number; retryAfterMs?: number } = {}
   ) {
     super(message);
     this.type = type;
     this.userMessage = userMessage;
     this.retryable = retryable;
+    this.status = details.status;
+    this.retryAfterMs = details.retryAfterMs;
     this.name = 'AppError';
   }
 }
 
+/**
+ * 带 HTTP 状态码的请求错误，供非 Gemini SDK 的后端使用
+ */
+export class HttpError extends Error {
+  status: number;
+  retryAfterMs?: number;
+
+  constructor(status: number, message: string, retryAfterMs?: number) {
+    super(message);
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+    this.name = 'HttpError';
+  }
+}
+
+// Google API 错误回应中的结构化资讯
+interface GoogleErrorBody {
+  error?: {
+    code?: number;
+    status?: string;
+    message?: string;
+    details?: { '@type'?: string; reason?: string; retryDelay?: string }[];
+  };
+}
+
+/**
+ * 解析 Retry-After 标头：秒数或 HTTP 日期
+ */
+export const parseRetryAfterHeader = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// "8s"、"1.5s" 形式的 protobuf Duration
+const parseDuration = (value?: string): number | undefined => {
+  const match = value?.match(/^([\d.]+)s$/);
+  return match ? Number(match[1]) * 1000 : undefined;
+};
+
+const parseErrorBody = (message: string): GoogleErrorBody | undefined => {
+  const start = message.indexOf('{');
+  if (start === -1) return undefined;
+  try {
+    return JSON.parse(message.slice(start));
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * 依 HTTP 状态码与错误回应的结构化资讯 (ErrorInfo.reason、RetryInfo.retryDelay) 分类
+ */
+const classifyHttpError = (status: number, errorMessage: string, retryAfterMs?: number): AppError => {
+  const body = parseErrorBody(errorMessage)?.error;
+  const details = body?.details ?? [];
+  const reason = details.find(detail => detail.reason)?.reason ?? '';
+  const retryDelay = retryAfterMs
+    ?? parseDuration(details.find(detail => detail['@type']?.endsWith('RetryInfo'))?.retryDelay);
+  const meta = { status, retryAfterMs: retryDelay };
+
+  if (status === 401 || status === 403 || reason.startsWith('API_KEY') || body?.status === 'UNAUTHENTICATED') {
+    return new AppError(ErrorType.INVALID_API_KEY, errorMessage, 'API 金鑰無效或已過期，請檢查您的設定', false, meta);
+  }
+
+  if (status === 429 || body?.status === 'RESOURCE_EXHAUSTED') {
+    return new AppError(ErrorType.QUOTA_EXCEEDED, errorMessage, '已達到 API 使用配額限制，請稍後再試', true, meta);
+  }
+
+  if (status === 408 || status >= 500) {
+    return new AppError(ErrorType.API_ERROR, errorMessage, `伺服器暫時無法處理請求 (${status})，稍後會自動重試`, true, meta);
+  }
+
+  // 其余 4xx 为请求本身有问题，重试也不会成功
+  return new AppError(
+    ErrorType.INVALID_REQUEST,
+    errorMessage,
+    `API 拒絕了這個請求 (${status})：${body?.message ?? errorMessage}`,
+    false,
+    meta
+  );
+};
+
 /**
  * 解析 Gemini API 错误
  */
 export const parseGeminiError = (error: any): AppError => {
+  if (error instanceof AppError) return error;
+
+  if (isAbortError(error)) {
+    return new AppError(ErrorType.ABORTED, 'Request aborted', '已取消', false);
+  }
+
   const errorMessage = error?.message || error?.toString() || '';
 
+  if (typeof error?.status === 'number') {
+    return classifyHttpError(error.status, errorMessage, error.retryAfterMs);
+  }
+
+  // 没有状态码时 (例如网路中断、回应内容无法解析) 退回以讯息内容判断
   // API Key 错误
   if (errorMessage.includes('API key') || errorMessage.includes('authentication')) {
     return new AppError(
@@ -84,7 +189,13 @@ export const parseAudioError = (error: any): AppError => {
   return new AppError(
     ErrorType.AUDIO_DECODE_ERROR,
     error?.message || error?.toString() || '',
-    '音訊檔案格式不支援或已損壞，請上傳有效的音訊檔案',
+    '檔案格式不支援或已損壞，請上傳有效的音訊或影片檔案',
     false
   );
 };
+
+/**
+ * 将捕获的错误统一为 AppError：已是 AppError 时原样回传，否则交由 fallback 分类
+ */
+export const toAppError = (error: unknown, fallback: (error: unknown) => AppError = parseGeminiError): AppError =>
+  error instanceof AppError ? error : fallback(error);
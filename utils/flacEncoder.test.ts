@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { encodeFlac } from './flacEncoder';
+
+// 测试用的最小解码器：只支援编码器会产生的 STREAMINFO、FIXED / VERBATIM 子帧与 Rice 残差
+class BitReader {
+  position = 0; // 以位元计
+
+  constructor(private bytes: Uint8Array) {}
+
+  read(bits: number): number {
+    let value = 0;
+    for (let i = 0; i < bits; i++) {
+      const byte = this.bytes[this.position >> 3];
+      value = value * 2 + ((byte >> (7 - (this.position & 7))) & 1);
+      this.position++;
+    }
+    return value;
+  }
+
+  readSigned(bits: number): number {
+    const value = this.read(bits);
+    return value >= 2 ** (bits - 1) ? value - 2 ** bits : value;
+  }
+
+  readUnary(): number {
+    let zeros = 0;
+    while (this.read(1) === 0) zeros++;
+    return zeros;
+  }
+
+  alignToByte() {
+    this.position = Math.ceil(this.position / 8) * 8;
+  }
+}
+
+const FIXED_COEFFICIENTS = [[], [1], [2, -1], [3, -3, 1], [4, -6, 4, -1]];
+
+const decodeFlac = (buffer: ArrayBuffer) => {
+  const reader = new BitReader(new Uint8Array(buffer));
+  expect(reader.read(32)).toBe(0x664c6143);
+  expect(reader.read(8)).toBe(0x80); // 唯一的 metadata block 为 STREAMINFO
+  expect(reader.read(24)).toBe(34);
+  reader.read(16 + 16 + 24 + 24);
+  const sampleRate = reader.read(20);
+  const channels = reader.read(3) + 1;
+  const bitsPerSample = reader.read(5) + 1;
+  const totalSamples = reader.read(36);
+  reader.read(128);
+
+  const samples: number[] = [];
+  for (let frame = 0; samples.length < totalSamples; frame++) {
+    expect(reader.read(14)).toBe(0b11111111111110);
+    reader.read(2);
+    const sizeCode = reader.read(4);
+    reader.read(4 + 4 + 3 + 1);
+    const lead = reader.read(8);
+    let frameNumber = lead;
+    if (lead >= 0x80) {
+      let continuation = 0;
+      while (lead & (0x40 >> continuation)) continuation++;
+      frameNumber = lead & (0x3f >> continuation);
+      for (let i = 0; i < continuation; i++) frameNumber = frameNumber * 64 + (reader.read(8) & 0x3f);
+    }
+    expect(frameNumber).toBe(frame);
+    const size = sizeCode === 0b1100 ? 4096 : reader.read(16) + 1;
+    reader.read(8); // CRC-8
+
+    expect(reader.read(1)).toBe(0);
+    const type = reader.read(6);
+    expect(reader.read(1)).toBe(0);
+    const block: number[] = [];
+    if (type === 0b000001) {
+      for (let i = 0; i < size; i++) block.push(reader.readSigned(16));
+    } else {
+      const order = type - 0b001000;
+      for (let i = 0; i < order; i++) block.push(reader.readSigned(16));
+      expect(reader.read(2)).toBe(0);
+      expect(reader.read(4)).toBe(0);
+      const parameter = reader.read(4);
+      for (let i = order; i < size; i++) {
+        const folded = reader.readUnary() * 2 ** parameter + reader.read(parameter);
+        const residual = folded % 2 === 0 ? folded / 2 : -(folded + 1) / 2;
+        const prediction = FIXED_COEFFICIENTS[order].reduce((sum, c, k) => sum + c * block[i - 1 - k], 0);
+        block.push(prediction + residual);
+      }
+    }
+    reader.alignToByte();
+    reader.read(16); // CRC-16
+    samples.push(...block);
+  }
+  return { sampleRate, channels, bitsPerSample, samples };
+};
+
+// 与编码器相同的量化方式；| 0 把 -0 转为 0
+const toInt16 = (samples: Float32Array) =>
+  Array.from(samples, s => Math.round(s < 0 ? Math.max(-1, s) * 32768 : Math.min(1, s) * 32767) | 0);
+
+describe('encodeFlac', () => {
+  it('round-trips a tone across several frames', () => {
+    const samples = new Float32Array(4096 * 2 + 1000);
+    for (let i = 0; i < samples.length; i++) samples[i] = 0.5 * Math.sin(i / 10);
+    const decoded = decodeFlac(encodeFlac(samples, 16000));
+    expect(decoded).toMatchObject({ sampleRate: 16000, channels: 1, bitsPerSample: 16 });
+    expect(decoded.samples).toEqual(toInt16(samples));
+  });
+
+  it('falls back to verbatim frames for noise and clips out-of-range samples', () => {
+    let seed = 1;
+    const samples = new Float32Array(3000).map(() => {
+      seed = (seed * 16807) % 2147483647;
+      return (seed / 2147483647) * 2.4 - 1.2;
+    });
+    expect(decodeFlac(encodeFlac(samples, 44100)).samples).toEqual(toInt16(samples));
+  });
+
+  it('compresses silence well below the size of 16-bit PCM', () => {
+    const samples = new Float32Array(16000);
+    const flac = encodeFlac(samples, 16000);
+    expect(flac.byteLength).toBeLessThan(samples.length * 2 / 10);
+    expect(decodeFlac(flac).samples.every(s => s === 0)).toBe(true);
+  });
+});
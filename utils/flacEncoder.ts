@@ -0,0 +1,241 @@
+// 精简的 FLAC 编码器：单声道 16-bit，固定预测 (order 0-4) 加 Rice 编码。
+// 无损压缩，语音档通常明显小于同样取样率的 WAV
+
+const BLOCK_SIZE = 4096;
+const BITS_PER_SAMPLE = 16;
+const MAX_RICE_PARAMETER = 14; // 4-bit 参数，15 保留给 escape
+// 编码时每隔多少个区块回报一次进度
+const PROGRESS_INTERVAL_BLOCKS = 64;
+
+/**
+ * 逐位元写入，缓冲区不足时自动扩充
+ */
+class BitWriter {
+  private bytes: Uint8Array;
+  private length = 0;
+  private current = 0; // 尚未写满一个 byte 的位元
+  private bitCount = 0;
+
+  constructor(initialSize: number) {
+    this.bytes = new Uint8Array(Math.max(64, initialSize));
+  }
+
+  get byteLength() {
+    return this.length;
+  }
+
+  // bits 最多 24 位，较长的值分段写入
+  write(value: number, bits: number) {
+    while (bits > 24) {
+      bits -= 24;
+      this.write(Math.floor(value / 2 ** bits) & 0xffffff, 24);
+      value %= 2 ** bits;
+    }
+    this.current = (this.current << bits) | (value & ((1 << bits) - 1));
+    this.bitCount += bits;
+    while (this.bitCount >= 8) {
+      this.bitCount -= 8;
+      this.pushByte((this.current >>> this.bitCount) & 0xff);
+    }
+    this.current &= (1 << this.bitCount) - 1;
+  }
+
+  writeUnary(zeros: number) {
+    while (zeros >= 24) {
+      this.write(0, 24);
+      zeros -= 24;
+    }
+    this.write(1, zeros + 1);
+  }
+
+  alignToByte() {
+    if (this.bitCount > 0) this.write(0, 8 - this.bitCount);
+  }
+
+  slice(start: number, end: number = this.length) {
+    return this.bytes.subarray(start, end);
+  }
+
+  toArrayBuffer(): ArrayBuffer {
+    return this.bytes.slice(0, this.length).buffer;
+  }
+
+  private pushByte(byte: number) {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = byte;
+  }
+}
+
+const crc8 = (data: Uint8Array) => {
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+    }
+  }
+  return crc;
+};
+
+const crc16 = (data: Uint8Array) => {
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte << 8;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+};
+
+// 帧编号以类似 UTF-8 的方式编码
+const writeFrameNumber = (writer: BitWriter, value: number) => {
+  if (value < 0x80) {
+    writer.write(value, 8);
+    return;
+  }
+  // 每个后续 byte 带 6 位元，首 byte 剩下的位元依后续 byte 数递减
+  let continuation = 1;
+  while (value >= 2 ** (5 * continuation + 6)) continuation++;
+  const lead = (0xff << (7 - continuation)) & 0xff;
+  writer.write(lead | Math.floor(value / 2 ** (6 * continuation)), 8);
+  for (let i = continuation - 1; i >= 0; i--) {
+    writer.write(0x80 | (Math.floor(value / 2 ** (6 * i)) & 0x3f), 8);
+  }
+};
+
+const computeResiduals = (block: Int32Array, order: number): Int32Array => {
+  const residuals = new Int32Array(block.length - order);
+  for (let i = order; i < block.length; i++) {
+    const x = block[i];
+    switch (order) {
+      case 0: residuals[i] = x; break;
+      case 1: residuals[i - 1] = x - block[i - 1]; break;
+      case 2: residuals[i - 2] = x - 2 * block[i - 1] + block[i - 2]; break;
+      case 3: residuals[i - 3] = x - 3 * block[i - 1] + 3 * block[i - 2] - block[i - 3]; break;
+      default: residuals[i - 4] = x - 4 * block[i - 1] + 6 * block[i - 2] - 4 * block[i - 3] + block[i - 4]; break;
+    }
+  }
+  return residuals;
+};
+
+// 有号数折叠为无号数：0, -1, 1, -2, 2 ... -> 0, 1, 2, 3, 4 ...
+const fold = (value: number) => value >= 0 ? value * 2 : -value * 2 - 1;
+
+/**
+ * 选出位元数最少的 Rice 参数
+ */
+const chooseRiceParameter = (residuals: Int32Array): { parameter: number; bits: number } => {
+  let best = { parameter: 0, bits: Infinity };
+  for (let parameter = 0; parameter <= MAX_RICE_PARAMETER; parameter++) {
+    let bits = residuals.length * (parameter + 1);
+    const divisor = 2 ** parameter;
+    for (let i = 0; i < residuals.length && bits < best.bits; i++) {
+      bits += Math.floor(fold(residuals[i]) / divisor);
+    }
+    if (bits < best.bits) best = { parameter, bits };
+  }
+  return best;
+};
+
+const writeSubframe = (writer: BitWriter, block: Int32Array) => {
+  // 依残差绝对值总和选出最合适的固定预测阶数
+  const maxOrder = Math.min(4, block.length - 1);
+  let bestOrder = 0;
+  let bestResiduals = computeResiduals(block, 0);
+  let bestSum = Infinity;
+  for (let order = 0; order <= maxOrder; order++) {
+    const residuals = order === 0 ? bestResiduals : computeResiduals(block, order);
+    let sum = 0;
+    for (let i = 0; i < residuals.length; i++) sum += Math.abs(residuals[i]);
+    if (sum < bestSum) {
+      bestSum = sum;
+      bestOrder = order;
+      bestResiduals = residuals;
+    }
+  }
+
+  const { parameter, bits } = chooseRiceParameter(bestResiduals);
+  const fixedBits = bestOrder * BITS_PER_SAMPLE + 6 + bits;
+  if (fixedBits >= block.length * BITS_PER_SAMPLE) {
+    // 压缩后反而较大 (例如白噪音)，直接写入原始取样
+    writer.write(0b00000010, 8); // VERBATIM
+    for (const sample of block) writer.write(sample & 0xffff, BITS_PER_SAMPLE);
+    return;
+  }
+
+  writer.write((0b001000 | bestOrder) << 1, 8); // FIXED, no wasted bits
+  for (let i = 0; i < bestOrder; i++) writer.write(block[i] & 0xffff, BITS_PER_SAMPLE);
+  writer.write(0, 2); // Rice, 4-bit parameters
+  writer.write(0, 4); // partition order 0
+  writer.write(parameter, 4);
+  const divisor = 2 ** parameter;
+  for (const residual of bestResiduals) {
+    const value = fold(residual);
+    writer.writeUnary(Math.floor(value / divisor));
+    if (parameter > 0) writer.write(value % divisor, parameter);
+  }
+};
+
+/**
+ * 将 -1 ~ 1 的单声道取样编码为 FLAC 档案
+ */
+export const encodeFlac = (
+  samples: Float32Array,
+  sampleRate: number,
+  onProgress?: (progress: number) => void
+): ArrayBuffer => {
+  const writer = new BitWriter(samples.length);
+
+  // "fLaC" + STREAMINFO (最后一个 metadata block)
+  writer.write(0x664c6143, 32);
+  writer.write(0x80, 8);
+  writer.write(34, 24);
+  writer.write(BLOCK_SIZE, 16); // min block size
+  writer.write(BLOCK_SIZE, 16); // max block size
+  writer.write(0, 24); // min frame size (unknown)
+  writer.write(0, 24); // max frame size (unknown)
+  writer.write(sampleRate, 20);
+  writer.write(0, 3); // channels - 1
+  writer.write(BITS_PER_SAMPLE - 1, 5);
+  writer.write(samples.length, 36);
+  for (let i = 0; i < 4; i++) writer.write(0, 32); // MD5 (unknown)
+
+  const block = new Int32Array(BLOCK_SIZE);
+  const blockCount = Math.ceil(samples.length / BLOCK_SIZE);
+  for (let frame = 0; frame < blockCount; frame++) {
+    const start = frame * BLOCK_SIZE;
+    const size = Math.min(BLOCK_SIZE, samples.length - start);
+    const current = size === BLOCK_SIZE ? block : block.subarray(0, size);
+    for (let i = 0; i < size; i++) {
+      const sample = Math.max(-1, Math.min(1, samples[start + i]));
+      current[i] = Math.round(sample < 0 ? sample * 32768 : sample * 32767);
+    }
+
+    const frameStart = writer.byteLength;
+    writer.write(0b11111111111110, 14); // sync code
+    writer.write(0, 2); // reserved, fixed block size
+    writer.write(size === BLOCK_SIZE ? 0b1100 : 0b0111, 4); // 4096 或在标头后以 16 位元记录
+    writer.write(0b0000, 4); // 取样率同 STREAMINFO
+    writer.write(0b0000, 4); // mono
+    writer.write(0b100, 3); // 16 bits per sample
+    writer.write(0, 1);
+    writeFrameNumber(writer, frame);
+    if (size !== BLOCK_SIZE) writer.write(size - 1, 16);
+    writer.write(crc8(writer.slice(frameStart)), 8);
+
+    writeSubframe(writer, current);
+    writer.alignToByte();
+    writer.write(crc16(writer.slice(frameStart)), 16);
+
+    if (onProgress && frame % PROGRESS_INTERVAL_BLOCKS === 0) {
+      onProgress(frame / blockCount);
+    }
+  }
+
+  return writer.toArrayBuffer();
+};
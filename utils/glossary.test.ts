@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { GlossaryTerm, TranscriptSegment } from '../types';
+import { applyGlossary, normalizeGlossaryText } from './glossary';
+
+const term = (value: string, aliases: string[]): GlossaryTerm => ({ id: value, term: value, aliases, description: '' });
+
+describe('normalizeGlossaryText', () => {
+  it('replaces aliases with the preferred spelling', () => {
+    expect(normalizeGlossaryText('我們用杰米尼轉錄', [term('Gemini', ['杰米尼', '傑米尼'])])).toBe('我們用Gemini轉錄');
+  });
+
+  it('matches latin aliases on word boundaries only, case-insensitively', () => {
+    const glossary = [term('AI', ['ai'])];
+    expect(normalizeGlossaryText('ai and PAID', glossary)).toBe('AI and PAID');
+  });
+
+  it('prefers the longest alias and does not replace inside the preferred term', () => {
+    const glossary = [term('台積電', ['台積', '台雞電'])];
+    expect(normalizeGlossaryText('台積電和台雞電還有台積', glossary)).toBe('台積電和台積電還有台積電');
+  });
+});
+
+describe('applyGlossary', () => {
+  it('keeps unchanged segments by reference', () => {
+    const segments: TranscriptSegment[] = [
+      { speaker: 'A', timestamp: '', startTimeSeconds: 0, text: '沒有別名' },
+      { speaker: 'A', timestamp: '', startTimeSeconds: 1, text: '傑米尼' }
+    ];
+    const result = applyGlossary(segments, [term('Gemini', ['傑米尼'])]);
+    expect(result[0]).toBe(segments[0]);
+    expect(result[1].text).toBe('Gemini');
+  });
+});
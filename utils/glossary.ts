@@ -0,0 +1,66 @@
+import { GlossaryTerm, TranscriptSegment } from "../types";
+
+const STORAGE_KEY = 'transcription_glossary';
+
+/**
+ * 从 localStorage 读取词汇表
+ */
+export const loadGlossary = (): GlossaryTerm[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.error('Failed to load glossary:', error);
+    return [];
+  }
+};
+
+/**
+ * 保存词汇表到 localStorage
+ */
+export const saveGlossary = (glossary: GlossaryTerm[]): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(glossary));
+  } catch (error) {
+    console.error('Failed to save glossary:', error);
+  }
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * 英数字别名需以字界比对，避免把 "AI" 替换进 "PAID" 之类的单字
+ */
+const buildAliasPattern = (alias: string): RegExp => {
+  const escaped = escapeRegExp(alias);
+  const pattern = /^[\w\s.-]+$/.test(alias) ? `(?<![A-Za-z0-9])${escaped}(?![A-Za-z0-9])` : escaped;
+  return new RegExp(pattern, 'gi');
+};
+
+/**
+ * 将文字中的已知别名统一为词汇表中的标准写法
+ */
+export const normalizeGlossaryText = (text: string, glossary: GlossaryTerm[]): string => {
+  let result = text;
+  for (const { term, aliases } of glossary) {
+    // 较长的别名先替换，避免被较短的别名截断
+    const sorted = aliases.filter(alias => alias.trim()).sort((a, b) => b.length - a.length);
+    for (const alias of sorted) {
+      const pattern = buildAliasPattern(alias.trim());
+      // 先以标准写法切开，避免别名是标准写法的一部分时重复替换
+      result = result.split(term).map(part => part.replace(pattern, term)).join(term);
+    }
+  }
+  return result;
+};
+
+/**
+ * 对逐字稿套用词汇表
+ */
+export const applyGlossary = (segments: TranscriptSegment[], glossary: GlossaryTerm[]): TranscriptSegment[] => {
+  if (glossary.length === 0) return segments;
+  return segments.map(segment => {
+    const text = normalizeGlossaryText(segment.text, glossary);
+    return text === segment.text ? segment : { ...segment, text };
+  });
+};
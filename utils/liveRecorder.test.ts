@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AudioChunk } from '../types';
+import { findChunkEnd } from './audioWorkerClient';
+import { ErrorType } from './errorHandling';
+import { LiveRecordingOptions, startLiveRecording } from './liveRecorder';
+
+vi.mock('./audioWorkerClient', async importOriginal => {
+  const actual = await importOriginal<typeof import('./audioWorkerClient')>();
+  return { ...actual, findChunkEnd: vi.fn(actual.findChunkEnd) };
+});
+
+// ---------- 假的麦克风与 AudioWorklet ----------
+
+const track = { stop: vi.fn() };
+let contexts: FakeAudioContext[] = [];
+let worklet: FakeWorkletNode | undefined;
+
+class FakeAudioContext {
+  sampleRate: number;
+  state = 'running';
+  destination = {};
+  audioWorklet = { addModule: vi.fn(async (_url: string) => {}) };
+  constructor(options?: { sampleRate?: number }) {
+    this.sampleRate = options?.sampleRate ?? 48000;
+    contexts.push(this);
+  }
+  createMediaStreamSource = () => ({ connect: vi.fn(), disconnect: vi.fn() });
+  close = vi.fn(async () => { this.state = 'closed'; });
+}
+
+class FakeWorkletNode {
+  port: { onmessage: ((event: MessageEvent<Float32Array>) => void) | null } = { onmessage: null };
+  connect = vi.fn();
+  disconnect = vi.fn();
+  constructor() {
+    worklet = this;
+  }
+}
+
+beforeEach(() => {
+  contexts = [];
+  worklet = undefined;
+  track.stop.mockClear();
+  vi.stubGlobal('navigator', { mediaDevices: { getUserMedia: async () => ({ getTracks: () => [track] }) } });
+  vi.stubGlobal('AudioContext', FakeAudioContext);
+  vi.stubGlobal('AudioWorkletNode', FakeWorkletNode);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.mocked(findChunkEnd).mockClear();
+});
+
+// 由 worklet 送出 count 个取样，并等待切点决定完成
+const send = async (count: number) => {
+  worklet!.port.onmessage!({ data: new Float32Array(count).fill(0.25) } as MessageEvent<Float32Array>);
+  await new Promise(resolve => setTimeout(resolve));
+};
+
+const start = async (options: Partial<LiveRecordingOptions> = {}) => {
+  const chunks: [number, number, number][] = [];
+  const recording = await startLiveRecording({
+    chunkDurationSeconds: 1,
+    onChunk: (chunk: AudioChunk, index: number) => chunks.push([chunk.startFrame, chunk.endFrame, index]),
+    ...options
+  });
+  return { recording, chunks };
+};
+
+// ---------- 测试 ----------
+
+describe('startLiveRecording', () => {
+  it('closes each chunk once enough audio has arrived', async () => {
+    const { recording, chunks } = await start();
+    await send(8000);
+    expect(chunks).toEqual([]);
+
+    await send(8000);
+    expect(chunks).toEqual([[0, 16000, 0]]);
+
+    await send(40000);
+    expect(chunks).toEqual([[0, 16000, 0], [16000, 32000, 1], [32000, 48000, 2]]);
+    expect(recording.source.length).toBe(56000);
+    expect(recording.getLevel()).toBeCloseTo(0.25);
+  });
+
+  it('sends the remaining audio on stop and returns the whole recording as WAV', async () => {
+    const { recording, chunks } = await start({ split: { overlapSeconds: 0.5 } });
+    await send(24000);
+    const file = await recording.stop();
+
+    expect(chunks).toEqual([[0, 16000, 0], [8000, 24000, 1]]);
+    expect(file.type).toBe('audio/wav');
+    expect(file.size).toBe(44 + 24000 * 2);
+    expect(track.stop).toHaveBeenCalled();
+    expect(contexts[0].close).toHaveBeenCalled();
+    expect(worklet!.port.onmessage).toBeNull();
+  });
+
+  it('reports consecutive cut failures once and retries on the next audio', async () => {
+    const onError = vi.fn();
+    const { chunks } = await start({ onError });
+    vi.mocked(findChunkEnd).mockRejectedValueOnce(new Error('worker crashed')).mockRejectedValueOnce(new Error('worker crashed'));
+
+    await send(16000);
+    await send(100);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][0]).toMatchObject({ type: ErrorType.AUDIO_DECODE_ERROR, retryable: true });
+    expect(chunks).toEqual([]);
+
+    await send(100);
+    expect(chunks).toEqual([[0, 16000, 0]]);
+  });
+
+  it('drops the remaining audio after cancel', async () => {
+    const { recording, chunks } = await start();
+    await send(8000);
+    recording.cancel();
+    await recording.stop();
+    expect(chunks).toEqual([]);
+    expect(track.stop).toHaveBeenCalled();
+  });
+
+  it('releases the microphone when the worklet cannot be set up', async () => {
+    vi.stubGlobal('AudioContext', class extends FakeAudioContext {
+      audioWorklet = { addModule: vi.fn(async () => { throw new Error('addModule failed'); }) };
+    });
+
+    await expect(start()).rejects.toThrow('addModule failed');
+    expect(track.stop).toHaveBeenCalled();
+    expect(contexts[0].close).toHaveBeenCalled();
+    expect(worklet).toBeUndefined();
+  });
+});
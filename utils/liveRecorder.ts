@@ -0,0 +1,261 @@
+import { AudioChunk } from "../types";
+import { SplitOptions } from "./audioUtils";
+import { AudioSource } from "./audioSource";
+import { findChunkEnd, getChunkFrames, toOverlappedChunk } from "./audioWorkerClient";
+import { AppError, ErrorType, toAppError } from "./errorHandling";
+
+// 录音的目标取样率；浏览器不支援时改用装置预设的取样率
+const RECORDING_SAMPLE_RATE = 16000;
+// 录音以 16-bit 单声道存放，每个区块一秒 (以实际取样率计算)
+const BLOCK_SECONDS = 1;
+
+// AudioWorklet 处理器：把麦克风输入混为单声道后传回主线程。
+// 以字串内嵌并透过 Blob URL 载入，不需要打包工具另外处理
+const RECORDER_WORKLET = `
+class RecorderProcessor extends AudioWorkletProcessor {
+  process(inputs) {
+    const input = inputs[0];
+    if (input && input.length > 0) {
+      const mono = new Float32Array(input[0].length);
+      for (const channel of input) {
+        for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / input.length;
+      }
+      this.port.postMessage(mono, [mono.buffer]);
+    }
+    return true;
+  }
+}
+registerProcessor('recorder-processor', RecorderProcessor);
+`;
+
+export interface LiveRecordingOptions {
+  chunkDurationSeconds: number;
+  split?: SplitOptions;
+  // 片段的结束点确定后立即呼叫，可马上编码并送出转录
+  onChunk: (chunk: AudioChunk, chunkIndex: number) => void;
+  // 决定切点失败时呼叫 (连续失败只通知一次)；录音会继续，下次收到音讯再试
+  onError?: (error: AppError) => void;
+}
+
+export interface LiveRecording {
+  fileName: string; // 依开始录音的时间命名
+  source: AudioSource; // 录音进行中 length 会持续增加
+  getLevel: () => number; // 最近的音量 (0 - 1)，用于显示
+  // 结束录音：送出最后的片段，回传完整录音 (16-bit WAV)
+  stop: () => Promise<File>;
+  // 放弃录音，不再送出任何片段
+  cancel: () => void;
+}
+
+/**
+ * 以 16-bit 单声道区块存放录音，提供与档案相同的 AudioSource 介面
+ */
+const createRecordingBuffer = (sampleRate: number) => {
+  const blockFrames = Math.round(sampleRate * BLOCK_SECONDS);
+  const blocks: Int16Array[] = [];
+  let length = 0;
+
+  const append = (samples: Float32Array) => {
+    let offset = 0;
+    while (offset < samples.length) {
+      const blockIndex = Math.floor(length / blockFrames);
+      if (blockIndex >= blocks.length) blocks.push(new Int16Array(blockFrames));
+      const position = length % blockFrames;
+      const count = Math.min(blockFrames - position, samples.length - offset);
+      const block = blocks[blockIndex];
+      for (let i = 0; i < count; i++) {
+        const s = Math.max(-1, Math.min(1, samples[offset + i]));
+        block[position + i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+      }
+      offset += count;
+      length += count;
+    }
+  };
+
+  const source: AudioSource = {
+    sampleRate,
+    channelCount: 1,
+    get length() { return length; },
+    get duration() { return length / sampleRate; },
+    segmented: true,
+    readFrames: async (startFrame, endFrame) => {
+      const end = Math.min(endFrame, length);
+      const out = new Float32Array(Math.max(0, end - startFrame));
+      for (let frame = startFrame; frame < end; frame++) {
+        const s = blocks[Math.floor(frame / blockFrames)][frame % blockFrames];
+        out[frame - startFrame] = s < 0 ? s / 0x8000 : s / 0x7fff;
+      }
+      return [out];
+    }
+  };
+
+  // 组合成 WAV 档，区块直接作为内容，不另外复制整段录音
+  const toWavFile = (fileName: string): File => {
+    const header = new DataView(new ArrayBuffer(44));
+    const dataBytes = length * 2;
+    const writeText = (offset: number, text: string) => {
+      for (let i = 0; i < text.length; i++) header.setUint8(offset + i, text.charCodeAt(i));
+    };
+    writeText(0, 'RIFF');
+    header.setUint32(4, 36 + dataBytes, true);
+    writeText(8, 'WAVE');
+    writeText(12, 'fmt ');
+    header.setUint32(16, 16, true);
+    header.setUint16(20, 1, true); // PCM
+    header.setUint16(22, 1, true); // 单声道
+    header.setUint32(24, sampleRate, true);
+    header.setUint32(28, sampleRate * 2, true);
+    header.setUint16(32, 2, true);
+    header.setUint16(34, 16, true);
+    writeText(36, 'data');
+    header.setUint32(40, dataBytes, true);
+
+    const parts: BlobPart[] = [header.buffer];
+    blocks.forEach((block, i) => {
+      const frames = Math.min(blockFrames, length - i * blockFrames);
+      if (frames > 0) parts.push(frames === blockFrames ? block : block.slice(0, frames));
+    });
+    return new File(parts, fileName, { type: 'audio/wav' });
+  };
+
+  return { source, append, toWavFile };
+};
+
+/**
+ * 录音档名，例如 錄音-20240101-0930.wav
+ */
+export const getRecordingFileName = (date: Date = new Date()): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `錄音-${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}.wav`;
+};
+
+/**
+ * 开启麦克风并开始录音。录音依照与档案相同的切割规则逐段送出：
+ * 已录到切点之后的寻找范围时才决定切点，结束录音时送出剩余部分
+ */
+export const startLiveRecording = async (options: LiveRecordingOptions): Promise<LiveRecording> => {
+  if (!navigator.mediaDevices?.getUserMedia || typeof AudioWorkletNode === 'undefined') {
+    throw new AppError(ErrorType.INVALID_REQUEST, 'Microphone recording not supported', '這個瀏覽器不支援麥克風錄音');
+  }
+
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: true, noiseSuppression: true, channelCount: 1 }
+    });
+  } catch (error) {
+    const denied = error instanceof DOMException && (error.name === 'NotAllowedError' || error.name === 'SecurityError');
+    throw new AppError(
+      ErrorType.INVALID_REQUEST,
+      `getUserMedia failed: ${error instanceof Error ? error.message : String(error)}`,
+      denied ? '沒有麥克風權限，請在瀏覽器中允許使用麥克風' : '無法開啟麥克風，請確認裝置已連接'
+    );
+  }
+
+  let context = new AudioContext({ sampleRate: RECORDING_SAMPLE_RATE });
+  let input: MediaStreamAudioSourceNode;
+  let node: AudioWorkletNode;
+  try {
+    try {
+      input = context.createMediaStreamSource(stream);
+    } catch {
+      // 部分浏览器不允许以不同于麦克风的取样率连接，改用预设取样率
+      await context.close();
+      context = new AudioContext();
+      input = context.createMediaStreamSource(stream);
+    }
+
+    const workletUrl = URL.createObjectURL(new Blob([RECORDER_WORKLET], { type: 'application/javascript' }));
+    try {
+      await context.audioWorklet.addModule(workletUrl);
+    } finally {
+      URL.revokeObjectURL(workletUrl);
+    }
+    node = new AudioWorkletNode(context, 'recorder-processor');
+  } catch (error) {
+    // 设定失败时关闭麦克风与 AudioContext，否则浏览器会一直显示录音中
+    stream.getTracks().forEach(track => track.stop());
+    if (context.state !== 'closed') await context.close();
+    throw error;
+  }
+
+  const fileName = getRecordingFileName();
+  const buffer = createRecordingBuffer(context.sampleRate);
+  const frames = getChunkFrames(context.sampleRate, options.chunkDurationSeconds, options.split);
+  let level = 0;
+  let chunkStart = 0;
+  let chunkIndex = 0;
+  let cancelled = false;
+  let failing = false;
+  // 切点的决定依序进行 (寻找停顿需要 worker)
+  let cutting: Promise<void> = Promise.resolve();
+
+  const emitChunk = (endFrame: number) => {
+    if (cancelled) return;
+    options.onChunk(toOverlappedChunk(context.sampleRate, chunkStart, endFrame, frames.overlapFrames), chunkIndex++);
+    chunkStart = endFrame;
+  };
+
+  const closeReadyChunks = async () => {
+    const { source } = buffer;
+    while (!cancelled && source.length >= chunkStart + frames.chunkLengthFrames + frames.searchFrames) {
+      emitChunk(await findChunkEnd(source, chunkStart, frames));
+    }
+    failing = false;
+  };
+
+  const handleCutError = (error: unknown) => {
+    console.error('Failed to close recording chunk:', error);
+    if (failing || cancelled) return;
+    failing = true;
+    options.onError?.(toAppError(error, cause => new AppError(
+      ErrorType.AUDIO_DECODE_ERROR,
+      cause instanceof Error ? cause.message : String(cause),
+      '錄音片段切割失敗，收到更多音訊後會再試一次',
+      true
+    )));
+  };
+
+  node.port.onmessage = (event: MessageEvent<Float32Array>) => {
+    const samples = event.data;
+    buffer.append(samples);
+
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+    level = Math.max(Math.sqrt(sum / Math.max(1, samples.length)), level * 0.9);
+
+    // 决定切点失败时下次收到音讯再试，结束录音时会送出剩余部分
+    cutting = cutting.then(closeReadyChunks).catch(handleCutError);
+  };
+
+  input.connect(node);
+  // 输出为静音；连接到 destination 才能确保处理器持续执行
+  node.connect(context.destination);
+
+  const release = async () => {
+    node.port.onmessage = null;
+    input.disconnect();
+    node.disconnect();
+    stream.getTracks().forEach(track => track.stop());
+    if (context.state !== 'closed') await context.close();
+  };
+
+  return {
+    fileName,
+    source: buffer.source,
+    getLevel: () => level,
+    stop: async () => {
+      await release();
+      await cutting;
+      const { source } = buffer;
+      while (!cancelled && chunkStart < source.length) {
+        emitChunk(await findChunkEnd(source, chunkStart, frames));
+      }
+      return buffer.toWavFile(fileName);
+    },
+    cancel: () => {
+      cancelled = true;
+      void release();
+    }
+  };
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MeetingMinutes, TranscriptSegment } from '../types';
+import { generateMeetingMinutes, snapSourceTimes } from './minutes';
+
+const segment = (startTimeSeconds: number, text = '內容', speaker = '講者 1'): TranscriptSegment => ({
+  speaker,
+  timestamp: '',
+  startTimeSeconds,
+  text
+});
+
+const minutesWith = (sourceTimes: number[], summary = '摘要'): MeetingMinutes => ({
+  summary,
+  decisions: [{ text: '決議', sourceTimes }],
+  actionItems: [{ text: '待辦', owner: '', dueDate: '', sourceTimes }],
+  openQuestions: []
+});
+
+describe('snapSourceTimes', () => {
+  const segments = [segment(0), segment(10), segment(25), segment(40, '系統訊息', 'System')];
+
+  it('snaps times between segments to the nearest sentence start', () => {
+    const result = snapSourceTimes(minutesWith([4, 6, 17, 18.5]), segments);
+    expect(result.decisions[0].sourceTimes).toEqual([0, 10, 25]);
+    expect(result.actionItems[0].sourceTimes).toEqual([0, 10, 25]);
+  });
+
+  it('snaps times past the end to the last sentence, skipping system messages', () => {
+    expect(snapSourceTimes(minutesWith([38, 300]), segments).decisions[0].sourceTimes).toEqual([25]);
+  });
+
+  it('drops non-finite times and removes duplicates after snapping', () => {
+    expect(snapSourceTimes(minutesWith([NaN, 11, 9, Infinity]), segments).decisions[0].sourceTimes).toEqual([10]);
+  });
+
+  it('falls back to zero without any sentence', () => {
+    expect(snapSourceTimes(minutesWith([12]), []).decisions[0].sourceTimes).toEqual([0]);
+  });
+});
+
+describe('generateMeetingMinutes', () => {
+  it('rejects an empty transcript without calling the model', async () => {
+    const draft = vi.fn();
+    await expect(generateMeetingMinutes([segment(0, '  '), segment(5, '系統', 'System')], draft, vi.fn(), () => {}))
+      .rejects.toThrow('Transcript is empty');
+    expect(draft).not.toHaveBeenCalled();
+  });
+
+  it('uses a single draft as is and snaps its source times', async () => {
+    const merge = vi.fn();
+    const result = await generateMeetingMinutes(
+      [segment(0), segment(30)],
+      async () => minutesWith([29]),
+      merge,
+      () => {}
+    );
+    expect(merge).not.toHaveBeenCalled();
+    expect(result.decisions[0].sourceTimes).toEqual([30]);
+  });
+
+  it('merges long transcripts in groups until one draft is left', async () => {
+    // 每句都超过半段的字数上限，10 句切成 10 段
+    const segments = Array.from({ length: 10 }, (_, i) => segment(i * 60, '字'.repeat(7000)));
+    const mergedSizes: number[] = [];
+    const progress: string[] = [];
+    const result = await generateMeetingMinutes(
+      segments,
+      async lines => minutesWith([lines[0].startTimeSeconds], `草稿 ${lines[0].startTimeSeconds}`),
+      async partials => {
+        mergedSizes.push(partials.length);
+        return minutesWith(partials.flatMap(partial => partial.decisions[0].sourceTimes), `合併 ${partials.length}`);
+      },
+      message => progress.push(message)
+    );
+
+    expect(mergedSizes).toEqual([8, 2, 2]);
+    expect(progress.filter(message => message.startsWith('正在整理'))).toHaveLength(10);
+    expect(progress.filter(message => message.startsWith('正在合併'))).toEqual(['正在合併 10 份草稿...', '正在合併 2 份草稿...']);
+    expect(result.summary).toBe('合併 2');
+    expect(result.decisions[0].sourceTimes).toEqual(segments.map(s => s.startTimeSeconds));
+  });
+});
@@ -0,0 +1,99 @@
+import { ActionItem, MeetingMinutes, MinutesItem, TranscriptSegment } from "../types";
+import { TimedLine } from "../services/transcriptionProvider";
+import { formatTime } from "./audioUtils";
+import { splitIntoSections, toTimedLines } from "./transcriptSections";
+
+type MinutesDrafter = (lines: TimedLine[]) => Promise<MeetingMinutes>;
+type MinutesMerger = (partials: MeetingMinutes[]) => Promise<MeetingMinutes>;
+
+// 每次合并的草稿数上限，超过时分层合并
+const MERGE_GROUP_SIZE = 8;
+
+/**
+ * 将模型回传的 sourceTimes 对齐到实际存在的句子开头，去除重复并排序
+ */
+export const snapSourceTimes = (minutes: MeetingMinutes, segments: TranscriptSegment[]): MeetingMinutes => {
+  const starts = segments.filter(segment => segment.speaker !== 'System').map(segment => segment.startTimeSeconds);
+  const snap = (time: number) => starts.reduce((best, start) => Math.abs(start - time) < Math.abs(best - time) ? start : best, starts[0] ?? 0);
+  const fix = <T extends MinutesItem>(item: T): T => ({
+    ...item,
+    sourceTimes: Array.from(new Set((item.sourceTimes ?? []).filter(Number.isFinite).map(snap))).sort((a, b) => a - b)
+  });
+
+  return {
+    summary: minutes.summary,
+    decisions: minutes.decisions.map(fix),
+    actionItems: minutes.actionItems.map(fix),
+    openQuestions: minutes.openQuestions.map(fix)
+  };
+};
+
+/**
+ * 产生会议记录。长会议先分段产生草稿，再分层合并为一份
+ */
+export const generateMeetingMinutes = async (
+  segments: TranscriptSegment[],
+  draft: MinutesDrafter,
+  merge: MinutesMerger,
+  onProgress: (message: string) => void
+): Promise<MeetingMinutes> => {
+  const sections = splitIntoSections(toTimedLines(segments));
+  if (sections.length === 0) {
+    throw new Error('Transcript is empty');
+  }
+
+  let partials: MeetingMinutes[] = [];
+  for (let i = 0; i < sections.length; i++) {
+    onProgress(`正在整理第 ${i + 1} / ${sections.length} 段...`);
+    partials.push(await draft(sections[i]));
+  }
+
+  while (partials.length > 1) {
+    onProgress(`正在合併 ${partials.length} 份草稿...`);
+    const merged: MeetingMinutes[] = [];
+    for (let i = 0; i < partials.length; i += MERGE_GROUP_SIZE) {
+      const group = partials.slice(i, i + MERGE_GROUP_SIZE);
+      merged.push(group.length === 1 ? group[0] : await merge(group));
+    }
+    partials = merged;
+  }
+
+  return snapSourceTimes(partials[0], segments);
+};
+
+const formatSources = (item: MinutesItem) =>
+  item.sourceTimes.length > 0 ? ` (${item.sourceTimes.map(time => `[${formatTime(time)}]`).join(' ')})` : '';
+
+const formatActionItem = (item: ActionItem) => {
+  const meta = [item.owner && `負責人：${item.owner}`, item.dueDate && `期限：${item.dueDate}`].filter(Boolean).join('，');
+  return `- [ ] ${item.text}${meta ? `（${meta}）` : ''}${formatSources(item)}`;
+};
+
+/**
+ * 将会议记录转为 Markdown
+ */
+export const minutesToMarkdown = (minutes: MeetingMinutes, title: string): string => {
+  const list = (items: MinutesItem[]) =>
+    items.length > 0 ? items.map(item => `- ${item.text}${formatSources(item)}`).join('\n') : '- 無';
+
+  return [
+    `# ${title} 會議記錄`,
+    '',
+    '## 摘要',
+    '',
+    minutes.summary,
+    '',
+    '## 決議事項',
+    '',
+    list(minutes.decisions),
+    '',
+    '## 待辦事項',
+    '',
+    minutes.actionItems.length > 0 ? minutes.actionItems.map(formatActionItem).join('\n') : '- 無',
+    '',
+    '## 待釐清問題',
+    '',
+    list(minutes.openQuestions),
+    ''
+  ].join('\n');
+};
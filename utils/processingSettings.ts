@@ -0,0 +1,58 @@
+const STORAGE_KEY = 'transcription_processing_settings';
+
+export type ChunkingMode = 'fixed' | 'silence' | 'overlap';
+
+export type UploadFormat = 'flac' | 'wav';
+
+export interface ProcessingSettings {
+  concurrency: number; // 同时转录的片段数
+  chunkingMode: ChunkingMode; // fixed = 固定长度切割，silence = 切点对齐至停顿，overlap = 片段重叠后去重
+  silenceSearchSeconds: number; // 在目标切点前后搜索停顿的范围
+  overlapSeconds: number; // overlap 模式下相邻片段重叠的秒数
+  speakerContinuity: boolean; // 跨片段统一说话者标签
+  // 上传前一律转为单声道 16 kHz，以下为额外的前处理与编码格式
+  normalizeLoudness: boolean;
+  highPassFilter: boolean;
+  uploadFormat: UploadFormat;
+  batchConcurrency: number; // 批次伫列同时处理的档案数，1 = 依序处理
+}
+
+export const MAX_CONCURRENCY = 6;
+export const MAX_BATCH_CONCURRENCY = 3;
+
+export const DEFAULT_PROCESSING_SETTINGS: ProcessingSettings = {
+  concurrency: 2,
+  chunkingMode: 'silence',
+  silenceSearchSeconds: 10,
+  overlapSeconds: 5,
+  speakerContinuity: true,
+  normalizeLoudness: true,
+  highPassFilter: true,
+  uploadFormat: 'flac',
+  batchConcurrency: 1
+};
+
+/**
+ * 从 localStorage 读取处理设定
+ */
+export const loadProcessingSettings = (): ProcessingSettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return DEFAULT_PROCESSING_SETTINGS;
+    return { ...DEFAULT_PROCESSING_SETTINGS, ...JSON.parse(saved) };
+  } catch (error) {
+    console.error('Failed to load processing settings:', error);
+    return DEFAULT_PROCESSING_SETTINGS;
+  }
+};
+
+/**
+ * 保存处理设定到 localStorage
+ */
+export const saveProcessingSettings = (settings: ProcessingSettings): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save processing settings:', error);
+  }
+};
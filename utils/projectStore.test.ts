@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { chunkRangesMatch, toChunkRanges } from './projectStore';
+
+describe('chunkRangesMatch', () => {
+  const ranges = toChunkRanges([
+    { startFrame: 0, endFrame: 4800000, startTimeSeconds: 0, durationSeconds: 300 },
+    { startFrame: 4800000, endFrame: 8000000, startTimeSeconds: 300, durationSeconds: 200 }
+  ]);
+
+  it('accepts the same boundaries', () => {
+    expect(ranges).toEqual([[0, 300], [300, 500]]);
+    expect(chunkRangesMatch([[0, 300], [300, 500.001]], ranges)).toBe(true);
+  });
+
+  it('rejects changed boundaries, chunk counts or missing ranges', () => {
+    expect(chunkRangesMatch([[0, 296.4], [296.4, 500]], ranges)).toBe(false);
+    expect(chunkRangesMatch([[0, 500]], ranges)).toBe(false);
+    expect(chunkRangesMatch(undefined, ranges)).toBe(false);
+  });
+});
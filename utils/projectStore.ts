@@ -0,0 +1,218 @@
+import { AudioChunk, Chapter, MeetingMinutes, SpeakerHints, TokenUsage, TranscriptionSettings, TranscriptSegment } from "../types";
+
+/**
+ * 一个转录专案：来源档案的指纹、设定、各片段结果与编辑后的逐字稿
+ */
+export interface Project {
+  id: string;
+  name: string;
+  fileName: string;
+  fileSize: number;
+  fileHash: string; // 档案内容指纹，用于辨识同一个档案
+  status: 'in-progress' | 'completed';
+  totalChunks: number;
+  chunkRanges?: [number, number][]; // 各片段的起讫秒数，重新转录单一片段时使用
+  completedChunks: number[]; // 已完成的片段索引（并行处理时不一定连续）
+  chunkResults: Record<number, TranscriptSegment[]>; // 各片段的原始转录结果
+  transcripts: TranscriptSegment[]; // 编辑后的逐字稿
+  transcriptionSettings?: TranscriptionSettings;
+  speakerHints?: SpeakerHints;
+  minutes?: MeetingMinutes | null;
+  chapters?: Chapter[];
+  usage?: TokenUsage; // 累计的实际 token 用量
+  createdAt: number;
+  updatedAt: number;
+}
+
+const DB_NAME = 'transcription_master';
+const DB_VERSION = 1;
+const STORE_NAME = 'projects';
+const LEGACY_STORAGE_KEY = 'transcription_progress';
+
+// 指纹取样大小：档案开头、中间、结尾各取一段，避免为了计算杂凑读入整个大档
+const FINGERPRINT_SAMPLE_BYTES = 1024 * 1024;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('fileHash', 'fileHash', { unique: false });
+        store.createIndex('updatedAt', 'updatedAt', { unique: false });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).then(async db => {
+      await migrateLegacyProgress(db);
+      return db;
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return promisifyRequest(fn(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+};
+
+/**
+ * 计算档案指纹 (SHA-256)，内容取样加上档案大小
+ */
+export const fingerprintFile = async (file: Blob): Promise<string> => {
+  const size = file.size;
+  const samples = size <= FINGERPRINT_SAMPLE_BYTES * 3
+    ? [file]
+    : [
+        file.slice(0, FINGERPRINT_SAMPLE_BYTES),
+        file.slice(Math.floor(size / 2), Math.floor(size / 2) + FINGERPRINT_SAMPLE_BYTES),
+        file.slice(size - FINGERPRINT_SAMPLE_BYTES)
+      ];
+  const data = await new Blob([String(size), ...samples]).arrayBuffer();
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * 列出所有专案，最近更新的在前
+ */
+export const listProjects = async (): Promise<Project[]> => {
+  const projects = await withStore<Project[]>('readonly', store => store.getAll());
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getProject = async (id: string): Promise<Project | undefined> =>
+  withStore<Project | undefined>('readonly', store => store.get(id));
+
+/**
+ * 找出同一个档案尚未完成的专案，用于断点续传
+ */
+export const findInProgressProject = async (fileHash: string): Promise<Project | undefined> => {
+  const matches = await withStore<Project[]>('readonly', store => store.index('fileHash').getAll(fileHash));
+  return matches
+    .filter(project => project.status === 'in-progress' && project.completedChunks.length > 0)
+    .sort((a, b) => b.updatedAt - a.updatedAt)[0];
+};
+
+export const saveProject = async (project: Project): Promise<void> => {
+  await withStore('readwrite', store => store.put({ ...project, updatedAt: Date.now() }));
+};
+
+/**
+ * 在同一个交易中读取并更新专案的部分栏位
+ */
+export const updateProject = async (id: string, update: (project: Project) => Partial<Project>): Promise<Project | undefined> => {
+  const db = await openDatabase();
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+  const existing: Project | undefined = await promisifyRequest(store.get(id));
+  if (!existing) return undefined;
+
+  const updated: Project = { ...existing, ...update(existing), updatedAt: Date.now() };
+  await promisifyRequest(store.put(updated));
+  return updated;
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
+
+export const renameProject = (id: string, name: string) => updateProject(id, () => ({ name }));
+
+export const duplicateProject = async (id: string): Promise<Project | undefined> => {
+  const source = await getProject(id);
+  if (!source) return undefined;
+
+  const now = Date.now();
+  const copy: Project = { ...source, id: crypto.randomUUID(), name: `${source.name} (副本)`, createdAt: now, updatedAt: now };
+  await saveProject(copy);
+  return copy;
+};
+
+/**
+ * 片段的起讫秒数，与专案一起保存
+ */
+export const toChunkRanges = (chunks: AudioChunk[]): [number, number][] =>
+  chunks.map(chunk => [chunk.startTimeSeconds, chunk.startTimeSeconds + chunk.durationSeconds]);
+
+/**
+ * 续传前检查片段边界是否与保存时相同。片段长度、重叠或对齐停顿的设定改变后，
+ * 已完成片段的索引对应到不同的音讯，不能沿用
+ */
+export const chunkRangesMatch = (
+  saved: [number, number][] | undefined,
+  current: [number, number][],
+  toleranceSeconds: number = 0.01
+): boolean =>
+  !!saved && saved.length === current.length && saved.every(([start, end], i) =>
+    Math.abs(start - current[i][0]) <= toleranceSeconds && Math.abs(end - current[i][1]) <= toleranceSeconds
+  );
+
+/**
+ * 建立新专案
+ */
+export const createProject = (
+  file: { name: string; size: number },
+  fileHash: string,
+  fields: Partial<Project> = {}
+): Project => {
+  const now = Date.now();
+  const lastDot = file.name.lastIndexOf('.');
+  return {
+    id: crypto.randomUUID(),
+    name: lastDot === -1 ? file.name : file.name.substring(0, lastDot),
+    fileName: file.name,
+    fileSize: file.size,
+    fileHash,
+    status: 'in-progress',
+    totalChunks: 0,
+    completedChunks: [],
+    chunkResults: {},
+    transcripts: [],
+    createdAt: now,
+    updatedAt: now,
+    ...fields
+  };
+};
+
+/**
+ * 将旧版 localStorage 中唯一的进度搬进专案库（只执行一次）
+ */
+const migrateLegacyProgress = async (db: IDBDatabase): Promise<void> => {
+  try {
+    const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!saved) return;
+
+    const legacy = JSON.parse(saved);
+    const completedChunks: number[] = legacy.completedChunks
+      ?? Array.from({ length: legacy.processedChunks ?? 0 }, (_, i) => i);
+    const project = createProject(
+      { name: legacy.fileName, size: legacy.fileSize },
+      // 旧资料没有内容指纹，以名称与大小代替，续传时不会自动匹配
+      `legacy:${legacy.fileName}:${legacy.fileSize}`,
+      {
+        totalChunks: legacy.totalChunks,
+        completedChunks,
+        transcripts: legacy.transcripts ?? [],
+        speakerHints: legacy.speakerHints,
+        transcriptionSettings: legacy.transcriptionSettings,
+        createdAt: legacy.timestamp ?? Date.now()
+      }
+    );
+
+    await promisifyRequest(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(project));
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  } catch (error) {
+    console.error('Failed to migrate legacy progress:', error);
+  }
+};
@@ -0,0 +1,39 @@
+import { ProviderConfig } from "../services/transcriptionProvider";
+import { MODEL_NAME } from "../services/geminiService";
+
+const STORAGE_KEY = 'transcription_provider_config';
+
+export const DEFAULT_PROVIDER_CONFIG: ProviderConfig = {
+  type: 'gemini',
+  geminiModel: MODEL_NAME,
+  openAiBaseUrl: 'http://localhost:8000/v1',
+  openAiModel: 'whisper-1',
+  openAiApiKey: '',
+  mockLatencyMs: 800,
+  mockFailEvery: 0
+};
+
+/**
+ * 从 localStorage 读取转录后端设定
+ */
+export const loadProviderConfig = (): ProviderConfig => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return DEFAULT_PROVIDER_CONFIG;
+    return { ...DEFAULT_PROVIDER_CONFIG, ...JSON.parse(saved) };
+  } catch (error) {
+    console.error('Failed to load provider config:', error);
+    return DEFAULT_PROVIDER_CONFIG;
+  }
+};
+
+/**
+ * 保存转录后端设定到 localStorage
+ */
+export const saveProviderConfig = (config: ProviderConfig): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  } catch (error) {
+    console.error('Failed to save provider config:', error);
+  }
+};
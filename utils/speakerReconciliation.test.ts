@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { TranscriptSegment } from '../types';
+import { applySpeakerMappings, buildSpeakerContext, reconcileSpeakers } from './speakerReconciliation';
+
+const line = (chunkIndex: number, speaker: string, text: string): TranscriptSegment => ({
+  speaker,
+  text,
+  timestamp: '',
+  startTimeSeconds: chunkIndex * 300,
+  chunkIndex
+});
+
+describe('buildSpeakerContext', () => {
+  it('returns undefined until the previous chunk is transcribed', () => {
+    expect(buildSpeakerContext([line(0, 'A', 'x')], 2)).toBeUndefined();
+  });
+
+  it('lists earlier speakers and the end of the previous chunk', () => {
+    const context = buildSpeakerContext([line(0, 'A', 'a'), line(1, 'B', 'b'), line(1, 'System', 'err')], 2);
+    expect(context?.knownSpeakers).toEqual(['A', 'B']);
+    expect(context?.previousLines).toEqual([{ speaker: 'B', text: 'b' }]);
+  });
+});
+
+describe('reconcileSpeakers', () => {
+  it('maps labels of a later chunk onto the earlier speakers', async () => {
+    const transcripts = [line(0, '王經理', 'a'), line(0, '講者 2', 'b'), line(1, '講者 1', 'c'), line(1, '講者 2', 'd')];
+    const mappings = await reconcileSpeakers(transcripts, new Set(), async () => ({ '講者 1': '王經理' }));
+    expect(mappings).toEqual({ 1: { '講者 1': '王經理' } });
+    expect(applySpeakerMappings(transcripts, mappings).map(s => s.speaker)).toEqual(['王經理', '講者 2', '王經理', '講者 2']);
+  });
+
+  it('renames an unmatched label that collides with a mapped speaker', async () => {
+    const transcripts = [line(0, 'A', 'a'), line(1, 'A', 'b'), line(1, 'B', 'c')];
+    const mappings = await reconcileSpeakers(transcripts, new Set(), async () => ({ B: 'A' }));
+    expect(mappings).toEqual({ 1: { B: 'A', A: '講者 1' } });
+  });
+
+  it('ignores suggestions that are not earlier speakers', async () => {
+    const transcripts = [line(0, 'A', 'a'), line(1, 'B', 'b')];
+    const mappings = await reconcileSpeakers(transcripts, new Set(), async () => ({ B: 'Z' }));
+    expect(mappings).toEqual({});
+  });
+
+  it('carries the previous mapping into chunks transcribed with context', async () => {
+    const transcripts = [line(0, 'A', 'a'), line(1, 'X', 'b'), line(2, 'X', 'c')];
+    let calls = 0;
+    const mappings = await reconcileSpeakers(transcripts, new Set([2]), async () => {
+      calls++;
+      return { X: 'A' };
+    });
+    expect(calls).toBe(1);
+    expect(mappings[2]).toEqual({ X: 'A' });
+  });
+
+  it('stops matching once the signal aborts', async () => {
+    const controller = new AbortController();
+    const transcripts = [line(0, 'A', 'a'), line(1, 'B', 'b'), line(2, 'C', 'c')];
+    let calls = 0;
+    const matcher = async (_previous: unknown, _next: unknown, signal?: AbortSignal) => {
+      calls++;
+      controller.abort();
+      signal?.throwIfAborted();
+      return {};
+    };
+    await expect(reconcileSpeakers(transcripts, new Set(), matcher, controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+    expect(calls).toBe(1);
+  });
+});
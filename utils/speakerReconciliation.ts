@@ -0,0 +1,139 @@
+import { TranscriptSegment } from "../types";
+import { SpeakerLine, TranscriptionContext } from "../services/transcriptionProvider";
+import { isAbortError } from "./abort";
+
+// 传给模型参考的前一片段句数
+const CONTEXT_LINES = 6;
+
+type SpeakerMatcher = (previousLines: SpeakerLine[], nextLines: SpeakerLine[], signal?: AbortSignal) => Promise<Record<string, string>>;
+
+// chunkIndex -> (原标签 -> 统一后的标签)
+export type SpeakerMappings = Record<number, Record<string, string>>;
+
+const isSpeechSegment = (segment: TranscriptSegment) => segment.speaker !== 'System';
+
+const getChunkSegments = (transcripts: TranscriptSegment[], chunkIndex: number) =>
+  transcripts.filter(segment => segment.chunkIndex === chunkIndex && isSpeechSegment(segment));
+
+const toLine = ({ speaker, text }: TranscriptSegment): SpeakerLine => ({ speaker, text });
+
+const uniqueSpeakers = (segments: TranscriptSegment[]) => Array.from(new Set(segments.map(segment => segment.speaker)));
+
+/**
+ * 以前一片段的说话者名单与结尾内容组成转录上下文；前一片段尚未完成时回传 undefined
+ */
+export const buildSpeakerContext = (transcripts: TranscriptSegment[], chunkIndex: number): TranscriptionContext | undefined => {
+  const previous = getChunkSegments(transcripts, chunkIndex - 1);
+  if (previous.length === 0) return undefined;
+
+  const earlier = transcripts.filter(segment =>
+    segment.chunkIndex !== undefined && segment.chunkIndex < chunkIndex && isSpeechSegment(segment)
+  );
+
+  return {
+    knownSpeakers: uniqueSpeakers(earlier),
+    previousLines: previous.slice(-CONTEXT_LINES).map(toLine)
+  };
+};
+
+/**
+ * 重新转录某个时间范围时，以整份逐字稿的说话者名单与范围前的内容组成上下文
+ */
+export const buildRangeSpeakerContext = (transcripts: TranscriptSegment[], startSeconds: number): TranscriptionContext | undefined => {
+  const speech = transcripts.filter(isSpeechSegment);
+  if (speech.length === 0) return undefined;
+
+  return {
+    knownSpeakers: uniqueSpeakers(speech),
+    previousLines: speech.filter(segment => segment.startTimeSeconds < startSeconds).slice(-CONTEXT_LINES).map(toLine)
+  };
+};
+
+const nextGenericLabel = (usedLabels: Set<string>): string => {
+  let n = 1;
+  while (usedLabels.has(`講者 ${n}`)) n++;
+  return `講者 ${n}`;
+};
+
+/**
+ * 将映射套用到逐字稿
+ */
+export const applySpeakerMappings = (transcripts: TranscriptSegment[], mappings: SpeakerMappings): TranscriptSegment[] =>
+  transcripts.map(segment => {
+    const mapping = segment.chunkIndex !== undefined ? mappings[segment.chunkIndex] : undefined;
+    return mapping && mapping[segment.speaker] ? { ...segment, speaker: mapping[segment.speaker] } : segment;
+  });
+
+/**
+ * 依片段顺序比对相邻片段的说话者，计算每个片段的标签映射。
+ * contextualChunks 是转录时已带入前一片段上下文的片段，直接沿用前一片段的映射。
+ * 取消时以 AbortError 结束，不再送出后续的比对请求
+ */
+export const reconcileSpeakers = async (
+  transcripts: TranscriptSegment[],
+  contextualChunks: Set<number>,
+  matchSpeakers: SpeakerMatcher,
+  signal?: AbortSignal
+): Promise<SpeakerMappings> => {
+  const chunkIndices = Array.from(
+    new Set(transcripts.map(segment => segment.chunkIndex).filter((i): i is number => i !== undefined))
+  ).sort((a, b) => a - b);
+
+  const mappings: SpeakerMappings = {};
+  let working = transcripts;
+
+  for (const chunkIndex of chunkIndices) {
+    signal?.throwIfAborted();
+    const previous = getChunkSegments(working, chunkIndex - 1);
+    const current = getChunkSegments(working, chunkIndex);
+    if (previous.length === 0 || current.length === 0) continue;
+
+    if (contextualChunks.has(chunkIndex)) {
+      if (mappings[chunkIndex - 1]) {
+        mappings[chunkIndex] = mappings[chunkIndex - 1];
+        working = applySpeakerMappings(working, { [chunkIndex]: mappings[chunkIndex] });
+      }
+      continue;
+    }
+
+    let suggested: Record<string, string> = {};
+    try {
+      suggested = await matchSpeakers(previous.slice(-CONTEXT_LINES).map(toLine), current.slice(0, CONTEXT_LINES).map(toLine), signal);
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error(`Failed to match speakers for chunk ${chunkIndex + 1}:`, error);
+      continue;
+    }
+
+    const canonical = new Set(uniqueSpeakers(working.filter(segment =>
+      segment.chunkIndex !== undefined && segment.chunkIndex < chunkIndex && isSpeechSegment(segment)
+    )));
+    const currentLabels = uniqueSpeakers(current);
+    const mapping: Record<string, string> = {};
+
+    for (const label of currentLabels) {
+      const target = suggested[label];
+      if (target && canonical.has(target)) {
+        mapping[label] = target;
+      }
+    }
+
+    // 未对应的标签若与已被占用的标签同名，改用新的编号以免两人被合并
+    const taken = new Set(Object.values(mapping));
+    const used = new Set([...canonical, ...currentLabels]);
+    for (const label of currentLabels) {
+      if (!mapping[label] && taken.has(label)) {
+        const fresh = nextGenericLabel(used);
+        used.add(fresh);
+        mapping[label] = fresh;
+      }
+    }
+
+    if (Object.keys(mapping).some(label => mapping[label] !== label)) {
+      mappings[chunkIndex] = mapping;
+      working = applySpeakerMappings(working, { [chunkIndex]: mapping });
+    }
+  }
+
+  return mappings;
+};
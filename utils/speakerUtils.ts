@@ -0,0 +1,72 @@
+import { TranscriptSegment } from "../types";
+import { getSegmentEndTime } from "./audioUtils";
+
+const STORAGE_KEY = 'speaker_colors';
+
+// 未指定颜色时依名称分配的预设色盘
+export const SPEAKER_PALETTE = ['#4f46e5', '#0891b2', '#059669', '#d97706', '#dc2626', '#db2777', '#7c3aed', '#475569'];
+
+export interface SpeakerSummary {
+  speaker: string;
+  segmentCount: number;
+  talkSeconds: number;
+}
+
+/**
+ * 统计每位说话者的句数与发言时间（不含系统讯息）
+ */
+export const summarizeSpeakers = (segments: TranscriptSegment[]): SpeakerSummary[] => {
+  const summaries = new Map<string, SpeakerSummary>();
+
+  segments.forEach((segment, index) => {
+    if (segment.speaker === 'System') return;
+    const summary = summaries.get(segment.speaker) ?? { speaker: segment.speaker, segmentCount: 0, talkSeconds: 0 };
+    summary.segmentCount++;
+    summary.talkSeconds += Math.max(0, getSegmentEndTime(segments, index) - segment.startTimeSeconds);
+    summaries.set(segment.speaker, summary);
+  });
+
+  return Array.from(summaries.values()).sort((a, b) => b.talkSeconds - a.talkSeconds);
+};
+
+/**
+ * 将所有 from 说话者改为 to；to 已存在时即为合并
+ */
+export const renameSpeaker = (segments: TranscriptSegment[], from: string, to: string): TranscriptSegment[] =>
+  segments.map(segment => segment.speaker === from ? { ...segment, speaker: to } : segment);
+
+/**
+ * 取得说话者颜色，未指定时依名称从色盘中挑选
+ */
+export const getSpeakerColor = (speaker: string, colors: Record<string, string>): string => {
+  if (colors[speaker]) return colors[speaker];
+  let hash = 0;
+  for (const char of speaker) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return SPEAKER_PALETTE[hash % SPEAKER_PALETTE.length];
+};
+
+/**
+ * 从 localStorage 读取说话者颜色
+ */
+export const loadSpeakerColors = (): Record<string, string> => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (error) {
+    console.error('Failed to load speaker colors:', error);
+    return {};
+  }
+};
+
+/**
+ * 保存说话者颜色到 localStorage
+ */
+export const saveSpeakerColors = (colors: Record<string, string>): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(colors));
+  } catch (error) {
+    console.error('Failed to save speaker colors:', error);
+  }
+};
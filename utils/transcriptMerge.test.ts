@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { TranscriptSegment } from '../types';
+import { mergeChunkSegments, replaceSegmentsInRange, textSimilarity } from './transcriptMerge';
+
+const segment = (startTimeSeconds: number, text: string, chunkIndex?: number): TranscriptSegment => ({
+  speaker: 'A',
+  timestamp: '',
+  startTimeSeconds,
+  text,
+  chunkIndex
+});
+
+describe('mergeChunkSegments', () => {
+  it('keeps chunks in order regardless of completion order', () => {
+    let transcripts: TranscriptSegment[] = [];
+    transcripts = mergeChunkSegments(transcripts, 2, [segment(600, 'c')]);
+    transcripts = mergeChunkSegments(transcripts, 0, [segment(0, 'a')]);
+    transcripts = mergeChunkSegments(transcripts, 1, [segment(300, 'b')]);
+    expect(transcripts.map(s => [s.text, s.chunkIndex])).toEqual([['a', 0], ['b', 1], ['c', 2]]);
+  });
+
+  it('replaces earlier content of the same chunk such as error markers', () => {
+    const withError = mergeChunkSegments([segment(0, 'a', 0)], 1, [segment(300, '[error]')]);
+    const retried = mergeChunkSegments(withError, 1, [segment(300, 'b1'), segment(310, 'b2')]);
+    expect(retried.map(s => s.text)).toEqual(['a', 'b1', 'b2']);
+  });
+});
+
+describe('mergeChunkSegments with dedupeOverlap', () => {
+  it('drops a duplicate from the overlap of the neighbouring chunk', () => {
+    const first = mergeChunkSegments([], 0, [segment(290, '我們下一步要討論預算'), segment(296, '好的')]);
+    const merged = mergeChunkSegments(first, 1, [segment(291, '我們下一步要討論預算'), segment(310, '第二段')], { dedupeOverlap: true });
+    expect(merged.map(s => [s.text, s.chunkIndex])).toEqual([
+      ['我們下一步要討論預算', 0],
+      ['好的', 0],
+      ['第二段', 1]
+    ]);
+  });
+
+  it('keeps the longer version when the boundary truncated a sentence', () => {
+    const first = mergeChunkSegments([], 0, [segment(298, '我們下一步要討論')]);
+    const merged = mergeChunkSegments(first, 1, [segment(297, '我們下一步要討論預算分配')], { dedupeOverlap: true });
+    expect(merged.map(s => [s.text, s.chunkIndex])).toEqual([['我們下一步要討論預算分配', 1]]);
+  });
+
+  it('keeps similar sentences that are far apart in time', () => {
+    const first = mergeChunkSegments([], 0, [segment(100, '我們下一步要討論預算')]);
+    const merged = mergeChunkSegments(first, 1, [segment(301, '我們下一步要討論預算')], { dedupeOverlap: true });
+    expect(merged).toHaveLength(2);
+  });
+});
+
+describe('replaceSegmentsInRange', () => {
+  it('only replaces sentences inside the range', () => {
+    const transcripts = [segment(0, 'a', 0), segment(10, 'b', 0), segment(20, 'c', 0)];
+    const result = replaceSegmentsInRange(transcripts, 5, 15, [segment(6, 'new'), segment(30, 'outside')]);
+    expect(result.map(s => s.text)).toEqual(['a', 'new', 'c']);
+    expect(result[1].chunkIndex).toBe(0);
+  });
+});
+
+describe('textSimilarity', () => {
+  it('ignores punctuation and whitespace', () => {
+    expect(textSimilarity('今天 天氣很好。', '今天天氣很好')).toBe(1);
+  });
+
+  it('scores unrelated text low', () => {
+    expect(textSimilarity('今天天氣很好', '我們開始開會')).toBeLessThan(0.2);
+  });
+});
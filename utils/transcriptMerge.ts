@@ -0,0 +1,121 @@
+import { TranscriptSegment } from "../types";
+
+interface MergeOptions {
+  dedupeOverlap?: boolean; // 去除与相邻片段重叠区重复转录的句子
+  toleranceSeconds?: number;
+  minSimilarity?: number;
+}
+
+// 包含关系判断的最短字数，避免「好」「對」之类的短句被误判为重复
+const MIN_CONTAINMENT_LENGTH = 4;
+
+const normalizeText = (text: string): string =>
+  text.toLowerCase().replace(/[\s\p{P}\p{S}]/gu, '');
+
+const toBigrams = (text: string): string[] => {
+  const chars = Array.from(text);
+  if (chars.length < 2) return chars;
+  return chars.slice(0, -1).map((char, i) => char + chars[i + 1]);
+};
+
+/**
+ * 计算两段文字的相似度 (0-1)，以字元 bigram 的 Dice 系数计算，适用于中日文
+ */
+export const textSimilarity = (a: string, b: string): number => {
+  const na = normalizeText(a);
+  const nb = normalizeText(b);
+  if (!na || !nb) return 0;
+  if (na === nb) return 1;
+
+  const [shorter, longer] = na.length <= nb.length ? [na, nb] : [nb, na];
+  if (shorter.length >= MIN_CONTAINMENT_LENGTH && longer.includes(shorter)) return 1;
+
+  const bigramsA = toBigrams(na);
+  const counts = new Map<string, number>();
+  bigramsA.forEach(bigram => counts.set(bigram, (counts.get(bigram) ?? 0) + 1));
+
+  let shared = 0;
+  const bigramsB = toBigrams(nb);
+  bigramsB.forEach(bigram => {
+    const count = counts.get(bigram) ?? 0;
+    if (count > 0) {
+      shared++;
+      counts.set(bigram, count - 1);
+    }
+  });
+
+  return (2 * shared) / (bigramsA.length + bigramsB.length);
+};
+
+/**
+ * 将某个片段的转录结果按片段顺序并入逐字稿。
+ * 同一片段旧有的内容（例如错误标记）会被取代，其他片段的编辑不受影响。
+ * 启用 dedupeOverlap 时，与相邻片段时间接近且文字相似的句子只保留较完整的一份
+ */
+export const mergeChunkSegments = (
+  transcripts: TranscriptSegment[],
+  chunkIndex: number,
+  segments: TranscriptSegment[],
+  options: MergeOptions = {}
+): TranscriptSegment[] => {
+  const { dedupeOverlap = false, toleranceSeconds = 3, minSimilarity = 0.6 } = options;
+  const tagged = segments.map(segment => ({ ...segment, chunkIndex }));
+  let kept = transcripts.filter(segment => segment.chunkIndex !== chunkIndex);
+  let incoming = tagged;
+
+  if (dedupeOverlap) {
+    incoming = [];
+    for (const segment of tagged) {
+      const duplicateIndex = kept.findIndex(existing =>
+        (existing.chunkIndex === chunkIndex - 1 || existing.chunkIndex === chunkIndex + 1) &&
+        Math.abs(existing.startTimeSeconds - segment.startTimeSeconds) <= toleranceSeconds &&
+        textSimilarity(existing.text, segment.text) >= minSimilarity
+      );
+
+      if (duplicateIndex === -1) {
+        incoming.push(segment);
+      } else if (normalizeText(segment.text).length > normalizeText(kept[duplicateIndex].text).length) {
+        // 片段边界附近的句子可能被截断，保留文字较长的版本
+        kept = kept.filter((_, i) => i !== duplicateIndex);
+        incoming.push(segment);
+      }
+    }
+  }
+
+  // 没有 chunkIndex 的旧资料视为排在最前面
+  const insertAt = kept.findIndex(segment => (segment.chunkIndex ?? -1) > chunkIndex);
+
+  if (insertAt === -1) {
+    return [...kept, ...incoming];
+  }
+  return [...kept.slice(0, insertAt), ...incoming, ...kept.slice(insertAt)];
+};
+
+/**
+ * 以新结果取代时间范围 [startSeconds, endSeconds) 内的句子，范围外（含已编辑过）的句子保持不变。
+ * 指定 chunkIndex 时一并移除该片段的错误标记
+ */
+export const replaceSegmentsInRange = (
+  transcripts: TranscriptSegment[],
+  startSeconds: number,
+  endSeconds: number,
+  segments: TranscriptSegment[],
+  chunkIndex?: number
+): TranscriptSegment[] => {
+  const inRange = (segment: TranscriptSegment) =>
+    segment.startTimeSeconds >= startSeconds && segment.startTimeSeconds < endSeconds;
+
+  const kept = transcripts.filter(segment =>
+    !inRange(segment) && !(chunkIndex !== undefined && segment.chunkIndex === chunkIndex && segment.speaker === 'System')
+  );
+  const insertAt = kept.findIndex(segment => segment.startTimeSeconds >= endSeconds);
+  const previous = insertAt === -1 ? kept[kept.length - 1] : kept[insertAt - 1];
+  // 未指定片段时沿用被取代句子（或前一句）所属的片段
+  const tag = chunkIndex ?? transcripts.find(inRange)?.chunkIndex ?? previous?.chunkIndex;
+  const incoming = segments.filter(inRange).map(segment => ({ ...segment, chunkIndex: tag }));
+
+  if (insertAt === -1) {
+    return [...kept, ...incoming];
+  }
+  return [...kept.slice(0, insertAt), ...incoming, ...kept.slice(insertAt)];
+};
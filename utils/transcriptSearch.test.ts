@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { TranscriptSegment } from '../types';
+import { Project } from './projectStore';
+import { buildSearchIndex, searchTranscripts, tokenize } from './transcriptSearch';
+
+const project = (id: string, lines: [string, string][]): Project => ({
+  id,
+  name: id,
+  fileName: `${id}.mp3`,
+  fileSize: 0,
+  fileHash: id,
+  status: 'completed',
+  totalChunks: 1,
+  completedChunks: [0],
+  chunkResults: {},
+  transcripts: lines.map(([speaker, text], i): TranscriptSegment => ({ speaker, timestamp: '', startTimeSeconds: i, text })),
+  createdAt: 0,
+  updatedAt: 0
+});
+
+describe('tokenize', () => {
+  it('indexes CJK runs as single characters and bigrams', () => {
+    expect(tokenize('會議紀錄')).toEqual(['會', '議', '紀', '錄', '會議', '議紀', '紀錄']);
+  });
+
+  it('queries CJK runs with bigrams only, except single characters', () => {
+    expect(tokenize('會議紀錄', true)).toEqual(['會議', '議紀', '紀錄']);
+    expect(tokenize('會', true)).toEqual(['會']);
+  });
+
+  it('splits latin words and numbers apart from CJK and lowercases them', () => {
+    expect(tokenize('用Gemini 2.5轉錄', true)).toEqual(['用', 'gemini', '2', '5', '轉錄']);
+  });
+
+  it('normalizes full-width characters', () => {
+    expect(tokenize('ＡＰＩ金鑰', true)).toEqual(['api', '金鑰']);
+  });
+
+  it('keeps kana and hangul in the CJK path', () => {
+    expect(tokenize('ありがとう', true)).toContain('がと');
+    expect(tokenize('감사합니다', true)).toContain('합니');
+  });
+});
+
+describe('searchTranscripts', () => {
+  const index = buildSearchIndex([
+    project('a', [['主持人', '今天討論預算規劃'], ['講者 1', '預算還需要再確認'], ['System', '預算預算預算']]),
+    project('b', [['王小明', '下一季的行銷規劃']])
+  ]);
+
+  it('skips system segments when indexing', () => {
+    expect(index.documents).toHaveLength(3);
+  });
+
+  it('ranks documents containing the whole phrase first and highlights matches', () => {
+    const hits = searchTranscripts(index, '預算規劃');
+    expect(hits[0].document.text).toBe('今天討論預算規劃');
+    expect(hits[0].snippet.filter(part => part.highlight).map(part => part.text).join('')).toBe('預算規劃');
+  });
+
+  it('matches speaker names', () => {
+    const hits = searchTranscripts(index, '王小明');
+    expect(hits.map(hit => hit.document.projectId)).toEqual(['b']);
+  });
+
+  it('highlights the original text when normalization changes its length', () => {
+    const fullWidth = buildSearchIndex([project('c', [['講者 1', '請把ﬁle上傳，再用ＡＰＩ金鑰讀取ﾃﾞｰﾀ']])]);
+    const highlights = (query: string) =>
+      searchTranscripts(fullWidth, query)[0].snippet.filter(part => part.highlight).map(part => part.text);
+
+    expect(highlights('api')).toEqual(['ＡＰＩ']);
+    expect(highlights('データ')).toEqual(['ﾃﾞｰﾀ']);
+    expect(highlights('file')).toEqual(['ﬁle']);
+    expect(searchTranscripts(fullWidth, 'api')[0].snippet.map(part => part.text).join('')).toBe('請把ﬁle上傳，再用ＡＰＩ金鑰讀取ﾃﾞｰﾀ');
+  });
+
+  it('returns nothing for empty queries', () => {
+    expect(searchTranscripts(index, '  ')).toEqual([]);
+  });
+});
@@ -0,0 +1,205 @@
+import { Project } from "./projectStore";
+
+export interface SearchDocument {
+  projectId: string;
+  projectName: string;
+  segmentIndex: number;
+  speaker: string;
+  text: string;
+  startTimeSeconds: number;
+}
+
+export interface SnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchHit {
+  document: SearchDocument;
+  score: number;
+  snippet: SnippetPart[];
+}
+
+export interface SearchIndex {
+  documents: SearchDocument[];
+  postings: Map<string, Map<number, number>>; // token -> (文件序号 -> 出现次数)
+  documentLengths: number[];
+  averageLength: number;
+}
+
+// 中日韩文字没有空白分词，连续的 CJK 字元另外切成单字与双字词
+const CJK_CHAR = '\\u3040-\\u30ff\\u3400-\\u4dbf\\u4e00-\\u9fff\\uf900-\\ufaff\\uac00-\\ud7af';
+const TOKEN_PATTERN = new RegExp(`[${CJK_CHAR}]+|(?:(?![${CJK_CHAR}])[\\p{L}\\p{N}])+`, 'gu');
+const CJK_RUN = new RegExp(`^[${CJK_CHAR}]`, 'u');
+
+// BM25 参数
+const K1 = 1.2;
+const B = 0.75;
+// 整句完整出现时的加权
+const PHRASE_BOOST = 1.5;
+const SNIPPET_CONTEXT_CHARS = 30;
+
+const normalize = (text: string) => text.normalize('NFKC').toLowerCase();
+
+// 一个字元连同其后的结合用符号 (含半形假名的浊音符号)，正规化时视为一个单位
+const NORMALIZE_UNIT = /.[\p{M}\uff9e\uff9f]*/gsu;
+
+/**
+ * 正规化并记录对应关系：正规化后第 i 个字在原文的范围为 [starts[i], ends[i])。
+ * NFKC 可能改变长度 (例如 ﬁ、半形假名)，标示位置需要换算回原文
+ */
+const normalizeWithOffsets = (text: string) => {
+  let normalized = '';
+  const starts: number[] = [];
+  const ends: number[] = [];
+  for (const match of text.matchAll(NORMALIZE_UNIT)) {
+    const unit = normalize(match[0]);
+    for (let i = 0; i < unit.length; i++) {
+      starts.push(match.index);
+      ends.push(match.index + match[0].length);
+    }
+    normalized += unit;
+  }
+  return { normalized, starts, ends };
+};
+
+/**
+ * 分词：拉丁文字以词为单位，CJK 连续字元切成双字词 (bigram)。
+ * 索引时额外收录单字，让单字查询也能命中
+ */
+export const tokenize = (text: string, forQuery = false): string[] => {
+  const tokens: string[] = [];
+  for (const match of normalize(text).matchAll(TOKEN_PATTERN)) {
+    const run = match[0];
+    if (!CJK_RUN.test(run)) {
+      tokens.push(run);
+      continue;
+    }
+    if (run.length === 1 || !forQuery) {
+      tokens.push(...run);
+    }
+    for (let i = 0; i < run.length - 1; i++) {
+      tokens.push(run.slice(i, i + 2));
+    }
+  }
+  return tokens;
+};
+
+/**
+ * 为所有专案的逐字稿 (文字与说话者) 建立倒排索引
+ */
+export const buildSearchIndex = (projects: Project[]): SearchIndex => {
+  const documents: SearchDocument[] = [];
+  const postings = new Map<string, Map<number, number>>();
+  const documentLengths: number[] = [];
+
+  projects.forEach(project => {
+    project.transcripts.forEach((segment, segmentIndex) => {
+      if (segment.speaker === 'System' || !segment.text.trim()) return;
+
+      const docId = documents.length;
+      documents.push({
+        projectId: project.id,
+        projectName: project.name,
+        segmentIndex,
+        speaker: segment.speaker,
+        text: segment.text,
+        startTimeSeconds: segment.startTimeSeconds
+      });
+
+      const tokens = tokenize(`${segment.speaker} ${segment.text}`);
+      documentLengths.push(tokens.length);
+      tokens.forEach(token => {
+        let entry = postings.get(token);
+        if (!entry) {
+          entry = new Map();
+          postings.set(token, entry);
+        }
+        entry.set(docId, (entry.get(docId) ?? 0) + 1);
+      });
+    });
+  });
+
+  const totalLength = documentLengths.reduce((sum, length) => sum + length, 0);
+  return {
+    documents,
+    postings,
+    documentLengths,
+    averageLength: documents.length > 0 ? totalLength / documents.length : 0
+  };
+};
+
+/**
+ * 标出文字中符合查询词的位置 (以原文位置表示)，截取第一个命中处前后的片段
+ */
+const buildSnippet = (text: string, queryTokens: string[]): SnippetPart[] => {
+  const { normalized, starts, ends } = normalizeWithOffsets(text);
+  const ranges: [number, number][] = [];
+  queryTokens.forEach(token => {
+    for (let from = normalized.indexOf(token); from !== -1; from = normalized.indexOf(token, from + 1)) {
+      ranges.push([starts[from], ends[from + token.length - 1]]);
+    }
+  });
+  if (ranges.length === 0) {
+    return [{ text: text.length > SNIPPET_CONTEXT_CHARS * 2 ? `${text.slice(0, SNIPPET_CONTEXT_CHARS * 2)}…` : text, highlight: false }];
+  }
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  ranges.forEach(([start, end]) => {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  });
+
+  const windowStart = Math.max(0, merged[0][0] - SNIPPET_CONTEXT_CHARS);
+  const windowEnd = Math.min(text.length, merged[0][1] + SNIPPET_CONTEXT_CHARS * 2);
+  const parts: SnippetPart[] = [];
+  let cursor = windowStart;
+  merged.forEach(([start, end]) => {
+    if (start >= windowEnd || end <= cursor) return;
+    if (start > cursor) parts.push({ text: text.slice(cursor, start), highlight: false });
+    parts.push({ text: text.slice(Math.max(start, cursor), Math.min(end, windowEnd)), highlight: true });
+    cursor = Math.min(end, windowEnd);
+  });
+  if (cursor < windowEnd) parts.push({ text: text.slice(cursor, windowEnd), highlight: false });
+
+  if (windowStart > 0) parts.unshift({ text: '…', highlight: false });
+  if (windowEnd < text.length) parts.push({ text: '…', highlight: false });
+  return parts;
+};
+
+/**
+ * 以 BM25 排序搜寻结果
+ */
+export const searchTranscripts = (index: SearchIndex, query: string, limit = 50): SearchHit[] => {
+  const queryTokens = Array.from(new Set(tokenize(query, true)));
+  if (queryTokens.length === 0 || index.documents.length === 0) return [];
+
+  const scores = new Map<number, number>();
+  const totalDocuments = index.documents.length;
+  queryTokens.forEach(token => {
+    const entry = index.postings.get(token);
+    if (!entry) return;
+    const idf = Math.log(1 + (totalDocuments - entry.size + 0.5) / (entry.size + 0.5));
+    entry.forEach((frequency, docId) => {
+      const lengthRatio = index.documentLengths[docId] / (index.averageLength || 1);
+      const termScore = idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * lengthRatio));
+      scores.set(docId, (scores.get(docId) ?? 0) + termScore);
+    });
+  });
+
+  const phrase = normalize(query.trim());
+  return Array.from(scores.entries())
+    .map(([docId, score]) => {
+      const document = index.documents[docId];
+      const haystack = normalize(`${document.speaker} ${document.text}`);
+      return { document, score: haystack.includes(phrase) ? score * PHRASE_BOOST : score };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(hit => ({ ...hit, snippet: buildSnippet(hit.document.text, queryTokens) }));
+};
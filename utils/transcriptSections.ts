@@ -0,0 +1,42 @@
+import { TranscriptSegment } from "../types";
+import { TimedLine } from "../services/transcriptionProvider";
+
+// 每段送给模型的逐字稿字数上限
+const SECTION_MAX_CHARS = 12000;
+
+/**
+ * 取出要送给模型分析的句子（不含系统讯息与空白句）
+ */
+export const toTimedLines = (segments: TranscriptSegment[]): TimedLine[] =>
+  segments
+    .filter(segment => segment.speaker !== 'System' && segment.text.trim())
+    .map(({ speaker, text, startTimeSeconds }) => ({ speaker, text, startTimeSeconds }));
+
+/**
+ * 依字数将逐字稿切成数段，不拆开单句
+ */
+export const splitIntoSections = (lines: TimedLine[], maxChars: number = SECTION_MAX_CHARS): TimedLine[][] => {
+  const sections: TimedLine[][] = [];
+  let current: TimedLine[] = [];
+  let size = 0;
+
+  for (const line of lines) {
+    const length = line.speaker.length + line.text.length + 12;
+    if (current.length > 0 && size + length > maxChars) {
+      sections.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(line);
+    size += length;
+  }
+  if (current.length > 0) sections.push(current);
+
+  return sections;
+};
+
+/**
+ * 以 [t=秒数] 前缀列出句子，供模型回传对应的时间点
+ */
+export const formatTimedLines = (lines: TimedLine[]): string =>
+  lines.map(line => `[t=${Math.round(line.startTimeSeconds)}] ${line.speaker}: ${line.text}`).join('\n');
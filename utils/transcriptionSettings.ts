@@ -0,0 +1,57 @@
+import { OutputLanguage, SourceLanguage, TranscriptionSettings, TranscriptionStyle } from "../types";
+
+const STORAGE_KEY = 'transcription_settings';
+
+export const DEFAULT_TRANSCRIPTION_SETTINGS: TranscriptionSettings = {
+  sourceLanguage: 'auto',
+  outputLanguage: 'zh-Hant',
+  style: 'verbatim',
+  keepFillerWords: true // 与逐字风格一致；需要时可再关闭
+};
+
+export const SOURCE_LANGUAGE_OPTIONS: { value: SourceLanguage; label: string }[] = [
+  { value: 'auto', label: '自動偵測' },
+  { value: 'zh', label: '中文 (華語)' },
+  { value: 'yue', label: '粵語' },
+  { value: 'en', label: '英文' },
+  { value: 'ja', label: '日文' }
+];
+
+export const OUTPUT_LANGUAGE_OPTIONS: { value: OutputLanguage; label: string }[] = [
+  { value: 'zh-Hant', label: '繁體中文' },
+  { value: 'zh-Hans', label: '簡體中文' },
+  { value: 'yue-Hant', label: '粵語口語字 (繁體)' },
+  { value: 'en', label: '英文' },
+  { value: 'ja', label: '日文' },
+  { value: 'original', label: '與原音相同' }
+];
+
+export const STYLE_OPTIONS: { value: TranscriptionStyle; label: string }[] = [
+  { value: 'verbatim', label: '逐字' },
+  { value: 'clean', label: '潤飾易讀' }
+];
+
+/**
+ * 从 localStorage 读取转录设定
+ */
+export const loadTranscriptionSettings = (): TranscriptionSettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return DEFAULT_TRANSCRIPTION_SETTINGS;
+    return { ...DEFAULT_TRANSCRIPTION_SETTINGS, ...JSON.parse(saved) };
+  } catch (error) {
+    console.error('Failed to load transcription settings:', error);
+    return DEFAULT_TRANSCRIPTION_SETTINGS;
+  }
+};
+
+/**
+ * 保存转录设定到 localStorage
+ */
+export const saveTranscriptionSettings = (settings: TranscriptionSettings): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save transcription settings:', error);
+  }
+};
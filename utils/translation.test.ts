@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { TranscriptSegment } from '../types';
+import { applyTranslations } from './translation';
+
+const segment = (startTimeSeconds: number, text: string): TranscriptSegment => ({
+  speaker: '講者 1',
+  timestamp: '',
+  startTimeSeconds,
+  text
+});
+
+describe('applyTranslations', () => {
+  it('matches segments by start time and text instead of index', () => {
+    const sources = [segment(0, '你好'), segment(5, '謝謝')];
+    // 翻译期间在前面插入了一句
+    const current = [segment(-1, '新增'), ...sources];
+    const result = applyTranslations(current, sources, ['Hello', 'Thanks']);
+    expect(result.map(s => s.translation)).toEqual([undefined, 'Hello', 'Thanks']);
+  });
+
+  it('skips segments whose text was edited or that were removed', () => {
+    const sources = [segment(0, '你好'), segment(5, '謝謝')];
+    const current = [{ ...sources[0], text: '您好' }];
+    const result = applyTranslations(current, sources, ['Hello', 'Thanks']);
+    expect(result[0].translation).toBeUndefined();
+    expect(result).toHaveLength(1);
+  });
+
+  it('ignores missing translations and keeps untouched segments by reference', () => {
+    const sources = [segment(0, '系統'), segment(5, '謝謝')];
+    const result = applyTranslations(sources, sources, [undefined, 'Thanks']);
+    expect(result[0]).toBe(sources[0]);
+    expect(result[1].translation).toBe('Thanks');
+  });
+});
@@ -0,0 +1,60 @@
+import { TranscriptSegment, TranslationLanguage } from "../types";
+
+type TextTranslator = (texts: string[], targetLanguage: TranslationLanguage) => Promise<string[]>;
+
+// 每批翻译的句数，兼顾上下文与单次回应长度
+const TRANSLATION_BATCH_SIZE = 40;
+
+/**
+ * 分批翻译逐字稿，每完成一批即回报该批的起始索引与译文。
+ * 系统讯息（错误标记）不送翻译
+ */
+export const translateTranscript = async (
+  segments: TranscriptSegment[],
+  targetLanguage: TranslationLanguage,
+  translate: TextTranslator,
+  onBatch: (startIndex: number, translations: (string | undefined)[]) => void,
+  shouldStop: () => boolean = () => false
+): Promise<void> => {
+  for (let start = 0; start < segments.length; start += TRANSLATION_BATCH_SIZE) {
+    if (shouldStop()) return;
+
+    const batch = segments.slice(start, start + TRANSLATION_BATCH_SIZE);
+    const speech = batch
+      .map((segment, offset) => ({ segment, offset }))
+      .filter(({ segment }) => segment.speaker !== 'System' && segment.text.trim());
+
+    const translated = speech.length > 0 ? await translate(speech.map(({ segment }) => segment.text), targetLanguage) : [];
+    const results: (string | undefined)[] = batch.map(() => undefined);
+    speech.forEach(({ offset }, i) => {
+      results[offset] = translated[i];
+    });
+
+    onBatch(start, results);
+  }
+};
+
+// 以开始时间与原文识别句子，不依赖阵列索引
+const getSegmentKey = (segment: TranscriptSegment) => `${segment.startTimeSeconds}\u0000${segment.text}`;
+
+/**
+ * 把针对 sources 取得的译文写回目前的逐字稿。翻译期间句子可能被编辑、删除或重新排序，
+ * 因此以开始时间与原文比对；原文已改变的句子不套用旧的译文
+ */
+export const applyTranslations = (
+  segments: TranscriptSegment[],
+  sources: TranscriptSegment[],
+  translations: (string | undefined)[]
+): TranscriptSegment[] => {
+  const byKey = new Map<string, string>();
+  sources.forEach((source, i) => {
+    const translation = translations[i];
+    if (translation !== undefined) byKey.set(getSegmentKey(source), translation);
+  });
+  if (byKey.size === 0) return segments;
+
+  return segments.map(segment => {
+    const translation = byKey.get(getSegmentKey(segment));
+    return translation !== undefined ? { ...segment, translation } : segment;
+  });
+};
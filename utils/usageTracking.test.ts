@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_USAGE, PricingSettings, getBudgetWarning } from './usageTracking';
+
+// 每百万 token 1 美元，方便换算
+const pricing: PricingSettings = { textInputPerMillion: 1, audioInputPerMillion: 1, outputPerMillion: 1, dailyBudget: 1 };
+const tokens = (count: number) => ({ ...EMPTY_USAGE, audioTokens: count, requests: 1 });
+
+describe('getBudgetWarning', () => {
+  it('warns when the estimate would push today past the budget', () => {
+    expect(getBudgetWarning(tokens(400_000), tokens(500_000), pricing)).toBeNull();
+    expect(getBudgetWarning(tokens(600_000), tokens(500_000), pricing)).toContain('將超過每日預算 $1.00');
+  });
+
+  it('only checks the budget already used when the length is unknown', () => {
+    expect(getBudgetWarning(null, tokens(900_000), pricing)).toBeNull();
+    expect(getBudgetWarning(null, tokens(1_000_000), pricing)).toContain('已達每日預算 $1.00');
+  });
+
+  it('never warns without a budget', () => {
+    expect(getBudgetWarning(tokens(10_000_000), tokens(10_000_000), { ...pricing, dailyBudget: 0 })).toBeNull();
+  });
+});
@@ -0,0 +1,179 @@
+import { TokenUsage } from "../types";
+import { ProviderConfig } from "../services/transcriptionProvider";
+
+const PRICING_STORAGE_KEY = 'usage_pricing';
+const DAILY_USAGE_STORAGE_KEY = 'token_usage_daily';
+
+// 每日用量只保留最近的天数
+const DAILY_USAGE_RETENTION_DAYS = 90;
+
+// Gemini 音讯固定为每秒 32 tokens
+export const AUDIO_TOKENS_PER_SECOND = 32;
+// 估算用：每个片段的提示词长度与每秒音讯产生的输出 (JSON 逐字稿)
+const ESTIMATED_PROMPT_TOKENS_PER_CHUNK = 800;
+const ESTIMATED_OUTPUT_TOKENS_PER_SECOND = 8;
+
+/**
+ * 每百万 tokens 的美元单价与每日预算
+ */
+export interface PricingSettings {
+  textInputPerMillion: number;
+  audioInputPerMillion: number;
+  outputPerMillion: number;
+  dailyBudget: number; // 美元，0 = 不限制
+}
+
+// 日期 (YYYY-MM-DD) -> 金钥识别码 -> 用量
+export type DailyUsageLog = Record<string, Record<string, TokenUsage>>;
+
+export const DEFAULT_PRICING: PricingSettings = {
+  textInputPerMillion: 0.5,
+  audioInputPerMillion: 1,
+  outputPerMillion: 3,
+  dailyBudget: 5
+};
+
+export const EMPTY_USAGE: TokenUsage = { inputTokens: 0, audioTokens: 0, outputTokens: 0, requests: 0 };
+
+export const addUsage = (a: TokenUsage, b: TokenUsage): TokenUsage => ({
+  inputTokens: a.inputTokens + b.inputTokens,
+  audioTokens: a.audioTokens + b.audioTokens,
+  outputTokens: a.outputTokens + b.outputTokens,
+  requests: a.requests + b.requests
+});
+
+export const getTotalTokens = (usage: TokenUsage) => usage.inputTokens + usage.audioTokens + usage.outputTokens;
+
+export const estimateCost = (usage: TokenUsage, pricing: PricingSettings): number =>
+  (usage.inputTokens * pricing.textInputPerMillion
+    + usage.audioTokens * pricing.audioInputPerMillion
+    + usage.outputTokens * pricing.outputPerMillion) / 1_000_000;
+
+export const formatCost = (cost: number) => `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
+
+/**
+ * 开始转录前估算一个档案的用量
+ */
+export const estimateTranscriptionUsage = (durationSeconds: number, chunkCount: number): TokenUsage => ({
+  inputTokens: chunkCount * ESTIMATED_PROMPT_TOKENS_PER_CHUNK,
+  audioTokens: Math.round(durationSeconds * AUDIO_TOKENS_PER_SECOND),
+  outputTokens: Math.round(durationSeconds * ESTIMATED_OUTPUT_TOKENS_PER_SECOND),
+  requests: chunkCount
+});
+
+/**
+ * 开始转录前检查每日预算。estimate 为 null 表示长度未知 (例如即时录音)，只检查今日是否已达预算；
+ * 不会超过时回传 null，否则回传给使用者确认的讯息
+ */
+export const getBudgetWarning = (estimate: TokenUsage | null, todayUsage: TokenUsage, pricing: PricingSettings): string | null => {
+  if (pricing.dailyBudget <= 0) return null;
+  const todayCost = estimateCost(todayUsage, pricing);
+  const budget = formatCost(pricing.dailyBudget);
+  if (!estimate) {
+    return todayCost >= pricing.dailyBudget
+      ? `今日已使用 ${formatCost(todayCost)}，已達每日預算 ${budget}。是否仍要開始？`
+      : null;
+  }
+  const estimatedCost = estimateCost(estimate, pricing);
+  return todayCost + estimatedCost > pricing.dailyBudget
+    ? `預估費用約 ${formatCost(estimatedCost)}，加上今日已使用的 ${formatCost(todayCost)} 將超過每日預算 ${budget}。是否仍要開始？`
+    : null;
+};
+
+/**
+ * Gemini 金钥的用量识别码，依金钥池项目的 id 区分，不保存金钥内容。
+ * 不能用金钥末几码，不同金钥末码相同时会共用同一份用量与预算
+ */
+export const getGeminiUsageKeyId = (keyEntryId: string) => `gemini:${keyEntryId}`;
+
+/**
+ * 用量统计用的后端识别码：Gemini 依金钥区分，其他后端依服务器区分
+ */
+export const getUsageKeyId = (config: ProviderConfig, geminiKeyEntryId: string): string => {
+  switch (config.type) {
+    case 'openai-compatible':
+      return `openai:${config.openAiBaseUrl}`;
+    case 'mock':
+      return 'mock';
+    case 'gemini':
+    default:
+      return getGeminiUsageKeyId(geminiKeyEntryId);
+  }
+};
+
+const toDayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const getTodayKey = () => toDayKey(new Date());
+
+/**
+ * 从 localStorage 读取价格与预算设定
+ */
+export const loadPricing = (): PricingSettings => {
+  try {
+    const saved = localStorage.getItem(PRICING_STORAGE_KEY);
+    if (!saved) return DEFAULT_PRICING;
+    return { ...DEFAULT_PRICING, ...JSON.parse(saved) };
+  } catch (error) {
+    console.error('Failed to load pricing:', error);
+    return DEFAULT_PRICING;
+  }
+};
+
+/**
+ * 保存价格与预算设定到 localStorage
+ */
+export const savePricing = (pricing: PricingSettings): void => {
+  try {
+    localStorage.setItem(PRICING_STORAGE_KEY, JSON.stringify(pricing));
+  } catch (error) {
+    console.error('Failed to save pricing:', error);
+  }
+};
+
+export const loadDailyUsage = (): DailyUsageLog => {
+  try {
+    const saved = localStorage.getItem(DAILY_USAGE_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (error) {
+    console.error('Failed to load daily usage:', error);
+    return {};
+  }
+};
+
+/**
+ * 累加今日某个金钥的用量并回传更新后的纪录
+ */
+export const recordDailyUsage = (keyId: string, usage: TokenUsage): DailyUsageLog => {
+  const log = loadDailyUsage();
+  const today = getTodayKey();
+  const day = log[today] ?? {};
+  day[keyId] = addUsage(day[keyId] ?? EMPTY_USAGE, usage);
+  log[today] = day;
+
+  const cutoff = new Date();
+  cutoff.setDate(cutoff.getDate() - DAILY_USAGE_RETENTION_DAYS);
+  const cutoffKey = toDayKey(cutoff);
+  Object.keys(log).forEach(key => {
+    if (key < cutoffKey) delete log[key];
+  });
+
+  try {
+    localStorage.setItem(DAILY_USAGE_STORAGE_KEY, JSON.stringify(log));
+  } catch (error) {
+    console.error('Failed to save daily usage:', error);
+  }
+  return log;
+};
+
+/**
+ * 某个金钥在保留期间内所有日期的用量合计
+ */
+export const getKeyUsage = (log: DailyUsageLog, keyId: string): TokenUsage =>
+  Object.values(log).reduce((total, day) => day[keyId] ? addUsage(total, day[keyId]) : total, EMPTY_USAGE);
+
+/**
+ * 某一天所有金钥的用量合计
+ */
+export const getDayUsage = (log: DailyUsageLog, day: string = getTodayKey()): TokenUsage =>
+  Object.values(log[day] ?? {}).reduce(addUsage, EMPTY_USAGE);
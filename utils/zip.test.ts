@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { createZip } from './zip';
+
+interface ParsedEntry {
+  name: string;
+  flags: number;
+  crc: number;
+  data: Uint8Array;
+  localOffset: number;
+}
+
+// 依 end of central directory 找到每个档案，并与 local header 的内容互相核对
+const parseZip = async (blob: Blob): Promise<ParsedEntry[]> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  const directoryOffset = view.getUint32(end + 16, true);
+  expect(directoryOffset + view.getUint32(end + 12, true)).toBe(end);
+
+  const decoder = new TextDecoder();
+  const entries: ParsedEntry[] = [];
+  let pos = directoryOffset;
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(pos, true)).toBe(0x02014b50);
+    const nameLength = view.getUint16(pos + 28, true);
+    const localOffset = view.getUint32(pos + 42, true);
+    const size = view.getUint32(pos + 24, true);
+
+    expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+    expect(view.getUint16(localOffset + 8, true)).toBe(0); // store
+    expect(view.getUint32(localOffset + 14, true)).toBe(view.getUint32(pos + 16, true));
+    expect(view.getUint16(localOffset + 26, true)).toBe(nameLength);
+    const dataStart = localOffset + 30 + nameLength;
+
+    entries.push({
+      name: decoder.decode(bytes.subarray(pos + 46, pos + 46 + nameLength)),
+      flags: view.getUint16(pos + 8, true),
+      crc: view.getUint32(pos + 16, true),
+      data: bytes.slice(dataStart, dataStart + size),
+      localOffset
+    });
+    expect(decoder.decode(bytes.subarray(localOffset + 30, dataStart))).toBe(entries[i].name);
+    pos += 46 + nameLength;
+  }
+  return entries;
+};
+
+describe('createZip', () => {
+  it('stores each entry with its CRC-32 and a UTF-8 file name', async () => {
+    const entries = await parseZip(createZip([
+      { name: 'fox.txt', data: 'The quick brown fox jumps over the lazy dog' },
+      { name: '會議紀錄.srt', data: new Uint8Array([1, 2, 3]) }
+    ]));
+
+    expect(entries.map(entry => entry.name)).toEqual(['fox.txt', '會議紀錄.srt']);
+    expect(entries.every(entry => entry.flags === 0x0800)).toBe(true);
+    expect(entries[0].crc).toBe(0x414fa339);
+    expect(new TextDecoder().decode(entries[0].data)).toBe('The quick brown fox jumps over the lazy dog');
+    expect(Array.from(entries[1].data)).toEqual([1, 2, 3]);
+    expect(entries[1].crc).toBe(0x55bc801d);
+    expect(entries[1].localOffset).toBe(30 + 'fox.txt'.length + 43);
+  });
+
+  it('encodes text as UTF-8', async () => {
+    const [entry] = await parseZip(createZip([{ name: 'a.txt', data: '逐字稿' }]));
+    expect(Array.from(entry.data)).toEqual(Array.from(new TextEncoder().encode('逐字稿')));
+  });
+
+  it('writes an empty archive', async () => {
+    expect(await parseZip(createZip([]))).toEqual([]);
+  });
+
+  it('records the modification time in MS-DOS format', async () => {
+    const bytes = new Uint8Array(await createZip([{ name: 'a.txt', data: '' }], new Date(2024, 4, 17, 13, 45, 30)).arrayBuffer());
+    const view = new DataView(bytes.buffer);
+    expect(view.getUint16(10, true)).toBe((13 << 11) | (45 << 5) | 15);
+    expect(view.getUint16(12, true)).toBe((44 << 9) | (5 << 5) | 17);
+  });
+});